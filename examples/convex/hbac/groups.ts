@@ -0,0 +1,91 @@
+import { query, mutation } from './_generated/server';
+import { v } from 'convex/values';
+
+type StoredGroup = {
+  id: string;
+  description?: string;
+  memberIds: string[];
+  subgroupIds: string[];
+  roleIds: string[];
+  attributes: Record<string, any>;
+};
+
+// Copy the fields of a stored group, leaving out Convex system fields
+const toGroup = (group: StoredGroup) => ({
+  id: group.id,
+  ...(group.description !== undefined && { description: group.description }),
+  memberIds: group.memberIds,
+  subgroupIds: group.subgroupIds,
+  roleIds: group.roleIds,
+  attributes: group.attributes
+});
+
+// Get a group by ID
+export const getGroup = query({
+  args: { groupId: v.string() },
+  handler: async (ctx, args) => {
+    const group = await ctx.db
+      .query("groups")
+      .filter(q => q.eq(q.field("id"), args.groupId))
+      .first();
+    
+    return group ? toGroup(group) : null;
+  },
+});
+
+// Store a group, replacing any group with the same ID
+export const saveGroup = mutation({
+  args: {
+    group: v.object({
+      id: v.string(),
+      description: v.optional(v.string()),
+      memberIds: v.array(v.string()),
+      subgroupIds: v.array(v.string()),
+      roleIds: v.array(v.string()),
+      attributes: v.object(v.any())
+    })
+  },
+  handler: async (ctx, args) => {
+    const existingGroup = await ctx.db
+      .query("groups")
+      .filter(q => q.eq(q.field("id"), args.group.id))
+      .first();
+    
+    if (existingGroup) {
+      await ctx.db.replace(existingGroup._id, args.group);
+    } else {
+      await ctx.db.insert("groups", args.group);
+    }
+  },
+});
+
+// Delete a group
+export const deleteGroup = mutation({
+  args: { groupId: v.string() },
+  handler: async (ctx, args) => {
+    const existingGroup = await ctx.db
+      .query("groups")
+      .filter(q => q.eq(q.field("id"), args.groupId))
+      .first();
+    
+    if (existingGroup) {
+      await ctx.db.delete(existingGroup._id);
+    }
+  },
+});
+
+// List the groups containing the given member and subgroup directly; omitted fields match any group
+export const findGroups = query({
+  args: {
+    memberId: v.optional(v.string()),
+    subgroupId: v.optional(v.string())
+  },
+  handler: async (ctx, args) => {
+    const groups = await ctx.db.query("groups").collect();
+    
+    return groups
+      .filter(group => args.memberId === undefined || group.memberIds.includes(args.memberId))
+      .filter(group => args.subgroupId === undefined || group.subgroupIds.includes(args.subgroupId))
+      .map(toGroup);
+  },
+});
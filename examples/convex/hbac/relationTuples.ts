@@ -0,0 +1,75 @@
+import { query, mutation } from './_generated/server';
+import { v } from 'convex/values';
+
+const tupleArgs = {
+  object: v.string(),
+  relation: v.string(),
+  subject: v.string()
+};
+
+// Store a relation tuple unless it already exists
+export const writeRelationTuple = mutation({
+  args: tupleArgs,
+  handler: async (ctx, args) => {
+    const existingTuple = await ctx.db
+      .query("relation_tuples")
+      .filter(q => q.and(
+        q.eq(q.field("object"), args.object),
+        q.eq(q.field("relation"), args.relation),
+        q.eq(q.field("subject"), args.subject)
+      ))
+      .first();
+    
+    if (!existingTuple) {
+      await ctx.db.insert("relation_tuples", {
+        object: args.object,
+        relation: args.relation,
+        subject: args.subject
+      });
+    }
+  },
+});
+
+// Delete a relation tuple
+export const deleteRelationTuple = mutation({
+  args: tupleArgs,
+  handler: async (ctx, args) => {
+    const existingTuple = await ctx.db
+      .query("relation_tuples")
+      .filter(q => q.and(
+        q.eq(q.field("object"), args.object),
+        q.eq(q.field("relation"), args.relation),
+        q.eq(q.field("subject"), args.subject)
+      ))
+      .first();
+    
+    if (existingTuple) {
+      await ctx.db.delete(existingTuple._id);
+    }
+  },
+});
+
+// List the relation tuples matching the given fields; omitted fields match any tuple
+export const readRelationTuples = query({
+  args: {
+    object: v.optional(v.string()),
+    relation: v.optional(v.string()),
+    subject: v.optional(v.string())
+  },
+  handler: async (ctx, args) => {
+    const tuples = await ctx.db
+      .query("relation_tuples")
+      .filter(q => q.and(
+        args.object === undefined ? true : q.eq(q.field("object"), args.object),
+        args.relation === undefined ? true : q.eq(q.field("relation"), args.relation),
+        args.subject === undefined ? true : q.eq(q.field("subject"), args.subject)
+      ))
+      .collect();
+    
+    return tuples.map(tuple => ({
+      object: tuple.object,
+      relation: tuple.relation,
+      subject: tuple.subject
+    }));
+  },
+});
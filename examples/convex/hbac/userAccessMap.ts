@@ -1,16 +1,41 @@
 import { query, mutation } from './_generated/server';
 import { v } from 'convex/values';
 
-// Get user roles
+type RoleAssignment = {
+  roleId: string;
+  scope?: string;
+  validFrom?: string;
+  validUntil?: string;
+};
+
+// Check whether an assignment is active now; times are ISO 8601 strings
+const isActive = (assignment: RoleAssignment, now: string) =>
+  (assignment.validFrom === undefined || assignment.validFrom <= now) &&
+  (assignment.validUntil === undefined || assignment.validUntil > now);
+
+// Get the active roles of a user, adding those assigned in the given scope
 export const getUserRoles = query({
-  args: { userId: v.string() },
+  args: { 
+    userId: v.string(),
+    scope: v.optional(v.string())
+  },
   handler: async (ctx, args) => {
     const record = await ctx.db
       .query("user_access_map")
       .filter(q => q.eq(q.field("userId"), args.userId))
       .first();
     
-    return record?.roleIds || [];
+    if (!record) {
+      return [];
+    }
+    
+    const now = new Date().toISOString();
+    const assigned = (record.roleAssignments || [])
+      .filter(assignment => assignment.scope === undefined || assignment.scope === args.scope)
+      .filter(assignment => isActive(assignment, now))
+      .map(assignment => assignment.roleId);
+    
+    return Array.from(new Set([...record.roleIds, ...assigned]));
   },
 });
 
@@ -39,46 +64,93 @@ export const getUserAccessMap = query({
     return record ? {
       userId: record.userId,
       roleIds: record.roleIds,
+      roleAssignments: record.roleAssignments || [],
       attributes: record.attributes
     } : null;
   },
 });
 
-// Assign role to user
+// Get the access maps of every user
+export const listUserAccessMaps = query({
+  args: {},
+  handler: async (ctx) => {
+    const records = await ctx.db.query("user_access_map").collect();
+    
+    return records.map(record => ({
+      userId: record.userId,
+      roleIds: record.roleIds,
+      roleAssignments: record.roleAssignments || [],
+      attributes: record.attributes
+    }));
+  },
+});
+
+// Assign role to user, optionally within a scope and for a limited time
 export const assignRole = mutation({
   args: { 
     userId: v.string(), 
-    roleId: v.string() 
+    roleId: v.string(),
+    scope: v.optional(v.string()),
+    validFrom: v.optional(v.string()),
+    validUntil: v.optional(v.string())
   },
   handler: async (ctx, args) => {
+    const { userId, roleId, scope, validFrom, validUntil } = args;
     const existingRecord = await ctx.db
       .query("user_access_map")
-      .filter(q => q.eq(q.field("userId"), args.userId))
+      .filter(q => q.eq(q.field("userId"), userId))
       .first();
     
-    if (existingRecord) {
+    const record = existingRecord || {
+      roleIds: [] as string[],
+      roleAssignments: [] as RoleAssignment[]
+    };
+    let roleIds = record.roleIds;
+    let roleAssignments = record.roleAssignments || [];
+    
+    if (scope === undefined && validFrom === undefined && validUntil === undefined) {
       // Add role if not already assigned
-      if (!existingRecord.roleIds.includes(args.roleId)) {
-        await ctx.db.patch(existingRecord._id, {
-          roleIds: [...existingRecord.roleIds, args.roleId]
-        });
+      if (!roleIds.includes(roleId)) {
+        roleIds = [...roleIds, roleId];
       }
+    } else {
+      // An unscoped time-bound assignment replaces a permanent one
+      if (scope === undefined) {
+        roleIds = roleIds.filter(id => id !== roleId);
+      }
+      
+      // Replace an earlier assignment of the role in the same scope
+      roleAssignments = [
+        ...roleAssignments.filter(assignment => assignment.roleId !== roleId || assignment.scope !== scope),
+        {
+          roleId,
+          ...(scope !== undefined && { scope }),
+          ...(validFrom !== undefined && { validFrom }),
+          ...(validUntil !== undefined && { validUntil })
+        }
+      ];
+    }
+    
+    if (existingRecord) {
+      await ctx.db.patch(existingRecord._id, { roleIds, roleAssignments });
     } else {
       // Create new record
       await ctx.db.insert("user_access_map", {
-        userId: args.userId,
-        roleIds: [args.roleId],
+        userId,
+        roleIds,
+        roleAssignments,
         attributes: {}
       });
     }
   },
 });
 
-// Remove role from user
+// Remove role from user, optionally only within a scope
 export const removeRole = mutation({
   args: { 
     userId: v.string(), 
-    roleId: v.string() 
+    roleId: v.string(),
+    scope: v.optional(v.string())
   },
   handler: async (ctx, args) => {
     const existingRecord = await ctx.db
@@ -87,18 +159,46 @@ export const removeRole = mutation({
       .first();
     
     if (existingRecord) {
-      // Remove role if exists
-      const updatedRoles = existingRecord.roleIds.filter(
-        roleId => roleId !== args.roleId
+      // Unscoped removal also drops the role from the user's permanent roles
+      const updatedRoles = args.scope === undefined
+        ? existingRecord.roleIds.filter(roleId => roleId !== args.roleId)
+        : existingRecord.roleIds;
+      const updatedAssignments = (existingRecord.roleAssignments || []).filter(
+        assignment => assignment.roleId !== args.roleId || assignment.scope !== args.scope
       );
       
       await ctx.db.patch(existingRecord._id, {
-        roleIds: updatedRoles
+        roleIds: updatedRoles,
+        roleAssignments: updatedAssignments
       });
     }
   },
 });
 
+// Delete expired role assignments and return how many were deleted
+export const purgeExpiredAssignments = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = new Date().toISOString();
+    const records = await ctx.db.query("user_access_map").collect();
+    let purged = 0;
+    
+    for (const record of records) {
+      const assignments = record.roleAssignments || [];
+      const remaining = assignments.filter(
+        assignment => assignment.validUntil === undefined || assignment.validUntil > now
+      );
+      
+      if (remaining.length < assignments.length) {
+        purged += assignments.length - remaining.length;
+        await ctx.db.patch(record._id, { roleAssignments: remaining });
+      }
+    }
+    
+    return purged;
+  },
+});
+
 // Set user attribute
 export const setAttribute = mutation({
   args: { 
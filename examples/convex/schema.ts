@@ -5,6 +5,12 @@ export default defineSchema({
   user_access_map: defineTable({
     userId: v.string(),
     roleIds: v.array(v.string()),
+    roleAssignments: v.optional(v.array(v.object({
+      roleId: v.string(),
+      scope: v.optional(v.string()),
+      validFrom: v.optional(v.string()),
+      validUntil: v.optional(v.string())
+    }))),
     attributes: v.object(v.any()),
   }).index("by_userId", ["userId"]),
 
@@ -20,5 +26,22 @@ export default defineSchema({
     name: v.string(),
     type: v.string(),
     description: v.optional(v.string())
+  }).index("by_id", ["id"]),
+
+  relation_tuples: defineTable({
+    object: v.string(),
+    relation: v.string(),
+    subject: v.string()
+  })
+    .index("by_object_relation", ["object", "relation"])
+    .index("by_subject", ["subject"]),
+
+  groups: defineTable({
+    id: v.string(),
+    description: v.optional(v.string()),
+    memberIds: v.array(v.string()),
+    subgroupIds: v.array(v.string()),
+    roleIds: v.array(v.string()),
+    attributes: v.object(v.any())
   }).index("by_id", ["id"])
 });
\ No newline at end of file
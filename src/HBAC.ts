@@ -9,15 +9,32 @@ const canRead = await hbac.can('user123', 'read', 'posts');
 await hbac.assignRole('user123', 'role_editor');
 await hbac.setAttribute('user123', 'department', 'Engineering');
 */
-import { HBACConfig } from './interfaces/config';
+import { HBACConfig, AuditConfig } from './interfaces/config';
 import { ConfigManager } from './config/manager';
 import { DatabaseConnector } from './interfaces/database';
 import { RoleManager } from './role/manager';
 import { AttributeManager } from './attribute/manager';
 import { PolicyEngine } from './policy/engine';
 import { CacheManager } from './cache/manager';
-import { RoleId } from './types/role';
+import { AuditLogger } from './audit/logger';
+import { createAuditSinks, ConsoleAuditSink } from './audit/sinks';
+import { AuditSink } from './interfaces/audit';
+import { RoleId, RoleAssignmentOptions, RoleValidity, SoDViolation } from './types/role';
+import { Permission } from './types/config';
 import { AttributeId, AttributeValue } from './types/attribute';
+import { DecisionExplanation, AuthorizationResult, PermissionCheck, AccessOptions } from './types/decision';
+import { getPermissionCheckKeys } from './policy/check';
+import { toAssignmentTimestamp, validateAssignmentScope, withAssignment } from './role/assignment';
+import { findUserSoDViolations, SoDViolationError } from './role/separation';
+import { RelationManager } from './relation/manager';
+import { validateRelationTuple } from './relation/tuple';
+import { RelationTuple, RelationTupleQuery } from './types/relation';
+import { GroupManager } from './group/manager';
+import { mergeGroupAttributes, mergeGroupRoles, toGroupSubject, validateGroupId } from './group/membership';
+import { Group, GroupId, GroupOptions } from './types/group';
+import { ResourceInput } from './types/resource';
+import { UserAccessMap } from './types/database';
+import { AuditEventType, AuditOutcome, MutationOptions } from './types/audit';
 import { ConvexClient } from 'convex/browser';
 
 /**
@@ -28,6 +45,17 @@ interface HBACOptions {
    * Optional Convex client for Convex database connector
    */
   convexClient?: ConvexClient;
+
+  /**
+   * Optional custom audit sinks, used in addition to those in the configuration
+   */
+  auditSinks?: AuditSink[];
+
+  /**
+   * Optional secret for signing audit entries, overriding audit.hmacKey so the key
+   * can be kept out of the configuration file
+   */
+  auditHmacKey?: string;
 }
 
 /**
@@ -67,11 +95,26 @@ export class HBAC {
    */
   private policyEngine: PolicyEngine | null = null;
 
+  /**
+   * Manager for checking relationships between objects and subjects
+   */
+  private relationManager: RelationManager | null = null;
+
+  /**
+   * Manager for storing groups and resolving group membership
+   */
+  private groupManager: GroupManager | null = null;
+
   /**
    * Manager for caching access control decisions
    */
   private cacheManager: CacheManager | null = null;
 
+  /**
+   * Logger recording decisions and access changes
+   */
+  private auditLogger: AuditLogger | null = null;
+
   /**
    * Initialization status of the HBAC system
    */
@@ -170,7 +213,10 @@ export class HBAC {
 
       // Initialize managers
       this.roleManager = new RoleManager(this.config.roles);
-      this.attributeManager = new AttributeManager(this.config.attributes);
+      this.attributeManager = new AttributeManager(
+        this.config.attributes,
+        this.config.environment
+      );
 
       // Dynamically load database connector
       this.dbConnector = await this.loadDatabaseConnector(
@@ -181,13 +227,38 @@ export class HBAC {
       // Initialize database connector
       await this.dbConnector.initialize();
 
+      // Relationships are checked against the tuples stored by the connector
+      this.relationManager = new RelationManager(this.config.relations || {}, this.dbConnector);
+
+      // Groups are stored by the connector too
+      this.groupManager = new GroupManager(this.dbConnector);
+
+      // Initialize audit logging, writing to the console unless sinks are provided
+      const auditConfig: AuditConfig = this.config.audit || { enabled: false, level: 'info' };
+      const auditSinks = [
+        ...createAuditSinks(auditConfig.sinks || [], this.dbConnector),
+        ...(options?.auditSinks || [])
+      ];
+      this.auditLogger = new AuditLogger(
+        { ...auditConfig, hmacKey: options?.auditHmacKey ?? auditConfig.hmacKey },
+        auditSinks.length > 0 ? auditSinks : [new ConsoleAuditSink()],
+        this.dbConnector
+      );
+
+      // Apply the retention period to entries stored before this start
+      await this.auditLogger.prune();
+
       // Initialize policy engine
       this.policyEngine = new PolicyEngine(
-        this.config.policyRules,
+        [...(this.config.policyRules || []), ...(this.config.policySets || [])],
         this.config.policies.defaultEffect,
         this.config.policies.evaluation,
         this.roleManager,
-        this.attributeManager
+        this.attributeManager,
+        {
+          ownerAttribute: this.config.policies.ownerAttribute,
+          mode: this.config.policies.mode
+        }
       );
 
       this.initialized = true;
@@ -199,53 +270,194 @@ export class HBAC {
     }
   }
 
+  /**
+   * Audit logger, for querying and pruning the stored audit trail
+   *
+   * @throws {Error} If HBAC is not initialized
+   */
+  public get audit(): AuditLogger {
+    this.checkInitialized();
+    return this.auditLogger!;
+  }
+
   /**
    * Checks if a user has permission to perform an action on a resource
    * 
    * @param userId User identifier
    * @param action Action to perform
-   * @param resource Resource to access
+   * @param resource Resource type, or resource descriptor with attributes
    * @param context Additional context for permission check
+   * @param options Optional access settings, such as the tenant scope
    * @returns Promise resolving to boolean indicating permission
    * @throws {Error} If HBAC is not initialized
    */
   public async can(
     userId: string,
     action: string,
-    resource: string,
-    context: Record<string, any> = {}
+    resource: ResourceInput,
+    context: Record<string, any> = {},
+    options: AccessOptions = {}
   ): Promise<boolean> {
     this.checkInitialized();
 
     // Create a cache key based on the permission context
-    const cacheKey = `${userId}:${resource}:${action}:${JSON.stringify(context)}`;
+    const cacheKey = this.getDecisionCacheKey(userId, action, resource, context, options.scope);
 
     // Check cache for existing permission decision
     const cachedDecision = this.cacheManager!.getPermissionDecision(cacheKey);
 
     if (cachedDecision !== null) {
+      await this.recordDecision(userId, action, resource, cachedDecision, null);
       return cachedDecision;
     }
 
-    // Retrieve user roles and attributes
-    const [userRoles, userAttributes] = await Promise.all([
-      this.getUserRoles(userId),
-      this.getUserAttributes(userId)
-    ]);
-
     // Evaluate permission using policy engine
-    const allowed = this.policyEngine!.evaluate(
-      userRoles,
-      userAttributes,
-      resource,
-      action,
-      context
-    );
+    const decision = await this.evaluateRequest(userId, action, resource, context, options.scope);
+
+    // Cache the permission decision, unless it depends on the current time
+    if (!decision.environmentDependent) {
+      this.cacheManager!.setPermissionDecision(cacheKey, decision.allowed);
+    }
+
+    await this.recordDecision(userId, action, resource, decision.allowed, decision);
+
+    return decision.allowed;
+  }
+
+  /**
+   * Checks several permissions for a user at once, loading the user's roles and
+   * attributes a single time
+   * 
+   * @param userId User identifier
+   * @param checks Permission checks, keyed by their `key` or by resource:action
+   * @param options Optional access settings, such as the tenant scope
+   * @returns Promise resolving to the decision of each check by key
+   * @throws {Error} If HBAC is not initialized or two checks share a key
+   */
+  public async canMany(
+    userId: string,
+    checks: PermissionCheck[],
+    options: AccessOptions = {}
+  ): Promise<Record<string, boolean>> {
+    this.checkInitialized();
+
+    const keys = getPermissionCheckKeys(checks);
+    const results: Record<string, boolean> = {};
+
+    // Loaded on the first cache miss and shared by the remaining checks
+    let subject: Promise<[RoleId[], Record<AttributeId, AttributeValue>]> | null = null;
+
+    for (let index = 0; index < checks.length; index++) {
+      const { action, resource, context = {} } = checks[index];
+      const cacheKey = this.getDecisionCacheKey(userId, action, resource, context, options.scope);
+      const cachedDecision = this.cacheManager!.getPermissionDecision(cacheKey);
+
+      if (cachedDecision !== null) {
+        await this.recordDecision(userId, action, resource, cachedDecision, null);
+        results[keys[index]] = cachedDecision;
+        continue;
+      }
+
+      subject = subject || this.loadSubject(userId, options.scope);
+      const [userRoles, userAttributes] = await subject;
+
+      const decision = await this.relationManager!.resolve(relations => this.policyEngine!.explain(
+        userRoles,
+        userAttributes,
+        resource,
+        action,
+        context,
+        userId,
+        relations
+      ));
 
-    // Cache the permission decision
-    this.cacheManager!.setPermissionDecision(cacheKey, allowed);
+      if (!decision.environmentDependent) {
+        this.cacheManager!.setPermissionDecision(cacheKey, decision.allowed);
+      }
+
+      await this.recordDecision(userId, action, resource, decision.allowed, decision);
+
+      results[keys[index]] = decision.allowed;
+    }
+
+    return results;
+  }
+
+  /**
+   * Decides whether a user may perform an action on a resource and returns the
+   * obligations and advice attached to the deciding policy rules
+   * 
+   * Callers must fulfil every obligation before acting on the decision, and
+   * should deny access when they cannot.
+   * 
+   * @param userId User identifier
+   * @param action Action to perform
+   * @param resource Resource type, or resource descriptor with attributes
+   * @param context Additional context for permission check
+   * @param options Optional access settings, such as the tenant scope
+   * @returns Promise resolving to the decision with its obligations and advice
+   * @throws {Error} If HBAC is not initialized
+   */
+  public async authorize(
+    userId: string,
+    action: string,
+    resource: ResourceInput,
+    context: Record<string, any> = {},
+    options: AccessOptions = {}
+  ): Promise<AuthorizationResult> {
+    this.checkInitialized();
+
+    const cacheKey = this.getDecisionCacheKey(userId, action, resource, context, options.scope);
+    const cachedResult = this.cacheManager!.getAuthorization(cacheKey);
+
+    if (cachedResult !== null) {
+      await this.recordDecision(userId, action, resource, cachedResult.allowed, null);
+      return cachedResult;
+    }
 
-    return allowed;
+    const decision = await this.evaluateRequest(userId, action, resource, context, options.scope);
+    const result: AuthorizationResult = {
+      allowed: decision.allowed,
+      effect: decision.effect,
+      obligations: decision.obligations,
+      advice: decision.advice
+    };
+
+    // Decisions reading the current time are not cached
+    if (!decision.environmentDependent) {
+      this.cacheManager!.setAuthorization(cacheKey, result);
+    }
+
+    await this.recordDecision(userId, action, resource, decision.allowed, decision);
+
+    return result;
+  }
+
+  /**
+   * Explains how an access decision is reached for a user
+   * 
+   * Evaluates the request without consulting or populating the decision cache
+   * and reports the matched role permission, the policy rules considered and
+   * the combining step that produced the final effect.
+   * 
+   * @param userId User identifier
+   * @param action Action to perform
+   * @param resource Resource type, or resource descriptor with attributes
+   * @param context Additional context for permission check
+   * @param options Optional access settings, such as the tenant scope
+   * @returns Promise resolving to a structured decision explanation
+   * @throws {Error} If HBAC is not initialized
+   */
+  public async explain(
+    userId: string,
+    action: string,
+    resource: ResourceInput,
+    context: Record<string, any> = {},
+    options: AccessOptions = {}
+  ): Promise<DecisionExplanation> {
+    this.checkInitialized();
+
+    return this.evaluateRequest(userId, action, resource, context, options.scope);
   }
 
   /**
@@ -253,17 +465,19 @@ export class HBAC {
    * 
    * @param userId User identifier
    * @param action Action to perform
-   * @param resource Resource to access
+   * @param resource Resource type, or resource descriptor with attributes
    * @param context Additional context for permission check
+   * @param options Optional access settings, such as the tenant scope
    * @throws {Error} If access is denied or HBAC is not initialized
    */
   public async check(
     userId: string,
     action: string,
-    resource: string,
-    context: Record<string, any> = {}
+    resource: ResourceInput,
+    context: Record<string, any> = {},
+    options: AccessOptions = {}
   ): Promise<void> {
-    const allowed = await this.can(userId, action, resource, context);
+    const allowed = await this.can(userId, action, resource, context, options);
 
     if (!allowed) {
       throw new Error('Access denied');
@@ -271,33 +485,119 @@ export class HBAC {
   }
 
   /**
-   * Retrieves roles for a specific user
+   * Lists the actions a user may perform on a resource
+   * 
+   * Enumerates the user's effective role permissions for the resource and keeps the
+   * actions the policy rules allow, loading the user a single time.
    * 
    * @param userId User identifier
+   * @param resource Resource type, or resource descriptor with attributes
+   * @param context Additional context for permission checks
+   * @param options Optional access settings, such as the tenant scope
+   * @returns Promise resolving to the allowed actions
+   * @throws {Error} If HBAC is not initialized
+   */
+  public async getAllowedActions(
+    userId: string,
+    resource: ResourceInput,
+    context: Record<string, any> = {},
+    options: AccessOptions = {}
+  ): Promise<string[]> {
+    this.checkInitialized();
+
+    const [userRoles, userAttributes] = await this.loadSubject(userId, options.scope);
+
+    return this.relationManager!.resolve(relations =>
+      this.policyEngine!.listAllowedActions(userRoles, userAttributes, resource, context, userId, relations)
+    );
+  }
+
+  /**
+   * Lists the permissions a user effectively holds once policy rules are applied
+   * 
+   * Ownership-scoped permissions are listed as configured, since they can only be
+   * decided for a specific resource.
+   * 
+   * @param userId User identifier
+   * @param context Additional context for permission checks
+   * @param options Optional access settings, such as the tenant scope
+   * @returns Promise resolving to the allowed resource:action permissions
+   * @throws {Error} If HBAC is not initialized
+   */
+  public async getPermissions(
+    userId: string,
+    context: Record<string, any> = {},
+    options: AccessOptions = {}
+  ): Promise<Permission[]> {
+    this.checkInitialized();
+
+    const [userRoles, userAttributes] = await this.loadSubject(userId, options.scope);
+
+    return this.relationManager!.resolve(relations =>
+      this.policyEngine!.listPermissions(userRoles, userAttributes, context, userId, relations)
+    );
+  }
+
+  /**
+   * Retrieves the active roles of a specific user, including the roles of their groups
+   * 
+   * Roles are cached no longer than until the next time-bound assignment starts or expires.
+   * 
+   * @param userId User identifier
+   * @param scope Optional scope whose roles are added to the user's unscoped roles
    * @returns Promise resolving to array of role identifiers
    * @throws {Error} If HBAC is not initialized
    */
-  public async getUserRoles(userId: string): Promise<RoleId[]> {
+  public async getUserRoles(userId: string, scope?: string): Promise<RoleId[]> {
     this.checkInitialized();
 
     // Check cache for user roles
-    const cachedRoles = this.cacheManager!.getUserRoles(userId);
+    const cachedRoles = this.cacheManager!.getUserRoles(userId, scope);
 
     if (cachedRoles !== null) {
       return cachedRoles;
     }
 
-    // Retrieve roles from database
-    const roles = await this.dbConnector!.getUserRoles(userId);
+    // Retrieve roles from database, with the next time they change and the user's groups
+    const [userRoles, nextChange, groups] = await Promise.all([
+      this.dbConnector!.getUserRoles(userId, scope),
+      this.dbConnector!.getNextRoleChange ? this.dbConnector!.getNextRoleChange(userId, scope) : null,
+      this.groupManager!.getUserGroups(userId)
+    ]);
+
+    if (nextChange) {
+      this.cacheManager!.expireUserAt(userId, nextChange);
+    }
+
+    // Group roles apply in every scope
+    const roles = mergeGroupRoles(userRoles, groups);
 
     // Cache retrieved roles
-    this.cacheManager!.setUserRoles(userId, roles);
+    this.cacheManager!.setUserRoles(userId, roles, scope);
 
     return roles;
   }
 
   /**
-   * Retrieves attributes for a specific user
+   * Retrieves a user's roles together with every role they inherit from
+   * 
+   * @param userId User identifier
+   * @param scope Optional scope whose roles are added to the user's unscoped roles
+   * @returns Promise resolving to the expanded array of role identifiers
+   * @throws {Error} If HBAC is not initialized
+   */
+  public async getEffectiveRoles(userId: string, scope?: string): Promise<RoleId[]> {
+    const roles = await this.getUserRoles(userId, scope);
+
+    return this.roleManager!.getEffectiveRoles(roles);
+  }
+
+  /**
+   * Retrieves attributes for a specific user, including those of their groups
+   * 
+   * A value set on the user wins over group values. Among groups, one the user is a
+   * direct member of wins over a group containing it, and groups at the same nesting
+   * depth are ranked by identifier.
    * 
    * @param userId User identifier
    * @returns Promise resolving to map of attribute identifiers and values
@@ -313,8 +613,12 @@ export class HBAC {
       return cachedAttributes;
     }
 
-    // Retrieve attributes from database
-    const attributes = await this.dbConnector!.getUserAttributes(userId);
+    // Retrieve attributes from database, with those of the user's groups
+    const [userAttributes, groups] = await Promise.all([
+      this.dbConnector!.getUserAttributes(userId),
+      this.groupManager!.getUserGroups(userId)
+    ]);
+    const attributes = mergeGroupAttributes(userAttributes, groups);
 
     // Cache retrieved attributes
     this.cacheManager!.setUserAttributes(userId, attributes);
@@ -325,25 +629,69 @@ export class HBAC {
   /**
    * Assigns a role to a user
    * 
+   * Pass validFrom and validUntil to grant the role for a limited time; assigning the
+   * role again in the same scope replaces its validity period.
+   * 
    * @param userId User identifier
    * @param roleId Role identifier
-   * @throws {Error} If HBAC is not initialized or role is invalid
+   * @param options Optional assignment settings, such as the tenant scope, validity period and the actor for the audit trail
+   * @throws {SoDViolationError} If the user would hold roles a separation-of-duties constraint keeps apart
+   * @throws {Error} If HBAC is not initialized, or the role, scope or validity period is invalid
    */
-  public async assignRole(userId: string, roleId: RoleId): Promise<void> {
+  public async assignRole(
+    userId: string,
+    roleId: RoleId,
+    options: RoleAssignmentOptions = {}
+  ): Promise<void> {
     this.checkInitialized();
 
     // Validate role
     const role = this.roleManager!.getRole(roleId);
 
     if (!role) {
+      await this.recordMutation('assignRole', userId, options, 'failure', { roleId, scope: options.scope, reason: 'Invalid role ID' });
       throw new Error(`Invalid role ID: ${roleId}`);
     }
 
+    // Validate the scope and validity period
+    let validity: RoleValidity;
+
+    try {
+      validateAssignmentScope(options.scope);
+      validity = {
+        validFrom: toAssignmentTimestamp(options.validFrom),
+        validUntil: toAssignmentTimestamp(options.validUntil)
+      };
+
+      if (validity.validFrom && validity.validUntil && validity.validUntil <= validity.validFrom) {
+        throw new Error('Role assignment must expire after it starts');
+      }
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      await this.recordMutation('assignRole', userId, options, 'failure', { roleId, scope: options.scope, reason });
+      throw error;
+    }
+
+    // Enforce separation of duties against the user's other roles
+    const violation = await this.findAssignmentViolation(userId, [roleId], options.scope, validity);
+
+    if (violation) {
+      await this.recordMutation('assignRole', userId, options, 'failure', {
+        roleId,
+        scope: options.scope,
+        reason: 'Separation of duties',
+        constraintId: violation.constraintId
+      });
+      throw new SoDViolationError(violation);
+    }
+
     // Assign role in database
-    await this.dbConnector!.assignRole(userId, roleId);
+    await this.dbConnector!.assignRole(userId, roleId, options.scope, validity);
 
     // Invalidate user cache
     this.cacheManager!.invalidateUser(userId);
+
+    await this.recordMutation('assignRole', userId, options, 'success', { roleId, scope: options.scope, ...validity });
   }
 
   /**
@@ -351,16 +699,84 @@ export class HBAC {
    * 
    * @param userId User identifier
    * @param roleId Role identifier
-   * @throws {Error} If HBAC is not initialized
+   * @param options Optional assignment settings, such as the tenant scope and the actor for the audit trail
+   * @throws {Error} If HBAC is not initialized or the scope is invalid
    */
-  public async removeRole(userId: string, roleId: RoleId): Promise<void> {
+  public async removeRole(
+    userId: string,
+    roleId: RoleId,
+    options: RoleAssignmentOptions = {}
+  ): Promise<void> {
     this.checkInitialized();
 
+    try {
+      validateAssignmentScope(options.scope);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      await this.recordMutation('removeRole', userId, options, 'failure', { roleId, scope: options.scope, reason });
+      throw error;
+    }
+
     // Remove role from database
-    await this.dbConnector!.removeRole(userId, roleId);
+    await this.dbConnector!.removeRole(userId, roleId, options.scope);
 
     // Invalidate user cache
     this.cacheManager!.invalidateUser(userId);
+
+    await this.recordMutation('removeRole', userId, options, 'success', { roleId, scope: options.scope });
+  }
+
+  /**
+   * Deletes role assignments that have expired
+   * 
+   * Expired assignments never grant access; purging only keeps storage small.
+   * 
+   * @returns Promise resolving to the number of deleted assignments
+   * @throws {Error} If HBAC is not initialized
+   */
+  public async purgeExpiredAssignments(): Promise<number> {
+    this.checkInitialized();
+
+    return this.dbConnector!.purgeExpiredAssignments();
+  }
+
+  /**
+   * Reports every user who breaks a separation-of-duties constraint
+   * 
+   * Assignments are checked when made, but a constraint added later may already be
+   * broken by existing users. Roles granted through groups are included, and members
+   * of groups without an access map of their own are checked too.
+   * 
+   * @returns Promise resolving to the violations found, grouped by user
+   * @throws {Error} If HBAC is not initialized or the database connector cannot list users
+   */
+  public async findSoDViolations(): Promise<SoDViolation[]> {
+    this.checkInitialized();
+
+    const constraints = this.config!.separationOfDuties || [];
+
+    if (constraints.length === 0) {
+      return [];
+    }
+
+    if (!this.dbConnector!.listUserAccessMaps) {
+      throw new Error('The configured database does not support listing users');
+    }
+
+    const records = await this.dbConnector!.listUserAccessMaps();
+    const userIds = new Set(records.map(record => record.userId));
+
+    // Group members may have no access map of their own
+    const groupMemberIds = this.groupManager!.isSupported()
+      ? (await this.groupManager!.list()).flatMap(group => group.memberIds).filter(userId => !userIds.has(userId))
+      : [];
+
+    const subjects = await Promise.all([
+      ...records.map(record => this.getSoDRecord(record.userId, record)),
+      ...Array.from(new Set(groupMemberIds), userId => this.getSoDRecord(userId, null))
+    ]);
+
+    return subjects.flatMap(record => findUserSoDViolations(record, constraints, this.roleManager!));
   }
 
   /**
@@ -369,12 +785,14 @@ export class HBAC {
    * @param userId User identifier
    * @param attributeId Attribute identifier
    * @param value Attribute value
+   * @param options Optional mutation settings, such as the actor for the audit trail
    * @throws {Error} If HBAC is not initialized or attribute is invalid
    */
   public async setAttribute(
     userId: string,
     attributeId: AttributeId,
-    value: AttributeValue
+    value: AttributeValue,
+    options: MutationOptions = {}
   ): Promise<void> {
     this.checkInitialized();
 
@@ -382,11 +800,13 @@ export class HBAC {
     const attribute = this.attributeManager!.getAttribute(attributeId);
 
     if (!attribute) {
+      await this.recordMutation('setAttribute', userId, options, 'failure', { attributeId, reason: 'Invalid attribute ID' });
       throw new Error(`Invalid attribute ID: ${attributeId}`);
     }
 
     // Validate attribute value
     if (!this.attributeManager!.validateAttributeValue(attributeId, value)) {
+      await this.recordMutation('setAttribute', userId, options, 'failure', { attributeId, value, reason: 'Invalid value' });
       throw new Error(`Invalid value for attribute ${attributeId}`);
     }
 
@@ -395,6 +815,615 @@ export class HBAC {
 
     // Invalidate user cache
     this.cacheManager!.invalidateUser(userId);
+
+    await this.recordMutation('setAttribute', userId, options, 'success', { attributeId, value });
+  }
+
+  /**
+   * Adds a relationship, such as a team owning a folder or a folder containing a document
+   * 
+   * Cached decisions of every user are invalidated, since through subject sets and
+   * parents one tuple can change the access of many users.
+   * 
+   * @param tuple Relation tuple to store
+   * @param options Optional mutation settings, such as the actor for the audit trail
+   * @throws {Error} If HBAC is not initialized, the tuple is malformed or the database connector cannot store relation tuples
+   */
+  public async addRelation(tuple: RelationTuple, options: MutationOptions = {}): Promise<void> {
+    this.checkInitialized();
+
+    await this.validateRelationChange('addRelation', tuple, options);
+
+    if (!this.dbConnector!.writeRelationTuple) {
+      throw new Error('The configured database does not support relation tuples');
+    }
+
+    await this.dbConnector!.writeRelationTuple(tuple);
+
+    this.cacheManager!.invalidateDecisions();
+
+    await this.recordMutation('addRelation', tuple.subject, options, 'success', { ...tuple });
+  }
+
+  /**
+   * Removes a relationship
+   * 
+   * @param tuple Relation tuple to delete
+   * @param options Optional mutation settings, such as the actor for the audit trail
+   * @throws {Error} If HBAC is not initialized, the tuple is malformed or the database connector cannot store relation tuples
+   */
+  public async removeRelation(tuple: RelationTuple, options: MutationOptions = {}): Promise<void> {
+    this.checkInitialized();
+
+    await this.validateRelationChange('removeRelation', tuple, options);
+
+    if (!this.dbConnector!.deleteRelationTuple) {
+      throw new Error('The configured database does not support relation tuples');
+    }
+
+    await this.dbConnector!.deleteRelationTuple(tuple);
+
+    this.cacheManager!.invalidateDecisions();
+
+    await this.recordMutation('removeRelation', tuple.subject, options, 'success', { ...tuple });
+  }
+
+  /**
+   * Checks whether a subject holds a relation on an object, following subject sets
+   * and the configured relation rules
+   * 
+   * @param object Object written as `type:id`
+   * @param relation Relation name
+   * @param subject Subject written as `type:id` or `type:id#relation`
+   * @returns Promise resolving to a boolean indicating if the relation is held
+   * @throws {Error} If HBAC is not initialized or the database connector cannot store relation tuples
+   */
+  public async checkRelation(object: string, relation: string, subject: string): Promise<boolean> {
+    this.checkInitialized();
+
+    return this.relationManager!.check(object, relation, subject);
+  }
+
+  /**
+   * Lists the stored relation tuples matching a filter
+   * 
+   * Only stored tuples are returned; relations derived by rules are not expanded.
+   * 
+   * @param query Filter with optional object, relation and subject
+   * @returns Promise resolving to the matching tuples
+   * @throws {Error} If HBAC is not initialized or the database connector cannot store relation tuples
+   */
+  public async listRelations(query: RelationTupleQuery = {}): Promise<RelationTuple[]> {
+    this.checkInitialized();
+
+    if (!this.dbConnector!.readRelationTuples) {
+      throw new Error('The configured database does not support relation tuples');
+    }
+
+    return this.dbConnector!.readRelationTuples(query);
+  }
+
+  /**
+   * Creates an empty group
+   * 
+   * @param groupId Group identifier
+   * @param options Optional group settings, such as the description and the actor for the audit trail
+   * @returns Promise resolving to the created group
+   * @throws {Error} If HBAC is not initialized, the group already exists or the database connector cannot store groups
+   */
+  public async createGroup(groupId: GroupId, options: GroupOptions = {}): Promise<Group> {
+    this.checkInitialized();
+
+    let group!: Group;
+
+    await this.changeGroup('createGroup', groupId, options, { description: options.description }, async () => {
+      group = await this.groupManager!.create(groupId, options.description);
+      return [];
+    });
+
+    return group;
+  }
+
+  /**
+   * Deletes a group, removing it from the groups it is nested in
+   * 
+   * Its members and subgroups are kept; they only lose what the group granted.
+   * 
+   * @param groupId Group identifier
+   * @param options Optional mutation settings, such as the actor for the audit trail
+   * @throws {Error} If HBAC is not initialized, the group does not exist or the database connector cannot store groups
+   */
+  public async deleteGroup(groupId: GroupId, options: MutationOptions = {}): Promise<void> {
+    this.checkInitialized();
+
+    await this.changeGroup('deleteGroup', groupId, options, {}, async () => {
+      const affected = await this.groupManager!.getMemberIds(groupId);
+      await this.groupManager!.delete(groupId);
+      return affected;
+    });
+  }
+
+  /**
+   * Adds a user to a group
+   * 
+   * @param groupId Group identifier
+   * @param userId User identifier
+   * @param options Optional mutation settings, such as the actor for the audit trail
+   * @throws {SoDViolationError} If the group's roles would give the user roles a separation-of-duties constraint keeps apart
+   * @throws {Error} If HBAC is not initialized, the group does not exist or the database connector cannot store groups
+   */
+  public async addGroupMember(groupId: GroupId, userId: string, options: MutationOptions = {}): Promise<void> {
+    this.checkInitialized();
+
+    await this.changeGroup('addGroupMember', groupId, options, {}, async () => {
+      await this.checkGroupAssignment([userId], await this.groupManager!.getGroupRoles(groupId));
+      await this.groupManager!.update(groupId, group => ({
+        ...group,
+        memberIds: group.memberIds.includes(userId) ? group.memberIds : [...group.memberIds, userId]
+      }));
+      return [userId];
+    }, userId);
+  }
+
+  /**
+   * Removes a user from a group
+   * 
+   * @param groupId Group identifier
+   * @param userId User identifier
+   * @param options Optional mutation settings, such as the actor for the audit trail
+   * @throws {Error} If HBAC is not initialized, the group does not exist or the database connector cannot store groups
+   */
+  public async removeGroupMember(groupId: GroupId, userId: string, options: MutationOptions = {}): Promise<void> {
+    this.checkInitialized();
+
+    await this.changeGroup('removeGroupMember', groupId, options, {}, async () => {
+      await this.groupManager!.update(groupId, group => ({
+        ...group,
+        memberIds: group.memberIds.filter(memberId => memberId !== userId)
+      }));
+      return [userId];
+    }, userId);
+  }
+
+  /**
+   * Nests a group in another, so members of the subgroup also belong to the group
+   * 
+   * @param groupId Group receiving the subgroup
+   * @param subgroupId Group to nest
+   * @param options Optional mutation settings, such as the actor for the audit trail
+   * @throws {SoDViolationError} If the group's roles would give a member of the subgroup roles
+   * a separation-of-duties constraint keeps apart
+   * @throws {Error} If HBAC is not initialized, either group does not exist, nesting would
+   * create a cycle or the database connector cannot store groups
+   */
+  public async addSubgroup(groupId: GroupId, subgroupId: GroupId, options: MutationOptions = {}): Promise<void> {
+    this.checkInitialized();
+
+    await this.changeGroup('addGroupMember', groupId, options, { subgroupId }, async () => {
+      validateGroupId(subgroupId);
+
+      if (!await this.groupManager!.get(subgroupId)) {
+        throw new Error(`Group not found: ${subgroupId}`);
+      }
+
+      const cycle = await this.groupManager!.findNestingCycle(groupId, subgroupId);
+
+      if (cycle) {
+        throw new Error(`Group nesting cycle detected: ${cycle.join(' -> ')}`);
+      }
+
+      const affected = await this.groupManager!.getMemberIds(subgroupId);
+      await this.checkGroupAssignment(affected, await this.groupManager!.getGroupRoles(groupId));
+
+      await this.groupManager!.update(groupId, group => ({
+        ...group,
+        subgroupIds: group.subgroupIds.includes(subgroupId) ? group.subgroupIds : [...group.subgroupIds, subgroupId]
+      }));
+      return affected;
+    }, toGroupSubject(String(subgroupId)));
+  }
+
+  /**
+   * Removes a nested group from a group
+   * 
+   * @param groupId Group containing the subgroup
+   * @param subgroupId Nested group
+   * @param options Optional mutation settings, such as the actor for the audit trail
+   * @throws {Error} If HBAC is not initialized, the group does not exist or the database connector cannot store groups
+   */
+  public async removeSubgroup(groupId: GroupId, subgroupId: GroupId, options: MutationOptions = {}): Promise<void> {
+    this.checkInitialized();
+
+    await this.changeGroup('removeGroupMember', groupId, options, { subgroupId }, async () => {
+      await this.groupManager!.update(groupId, group => ({
+        ...group,
+        subgroupIds: group.subgroupIds.filter(id => id !== subgroupId)
+      }));
+      return this.groupManager!.getMemberIds(subgroupId);
+    }, toGroupSubject(String(subgroupId)));
+  }
+
+  /**
+   * Assigns a role to a group, granting it to every member in every scope
+   * 
+   * @param groupId Group identifier
+   * @param roleId Role identifier
+   * @param options Optional mutation settings, such as the actor for the audit trail
+   * @throws {SoDViolationError} If a member would hold roles a separation-of-duties constraint keeps apart
+   * @throws {Error} If HBAC is not initialized, the group does not exist, the role is invalid
+   * or the database connector cannot store groups
+   */
+  public async assignGroupRole(groupId: GroupId, roleId: RoleId, options: MutationOptions = {}): Promise<void> {
+    this.checkInitialized();
+
+    await this.changeGroup('assignGroupRole', groupId, options, { roleId }, async () => {
+      if (!this.roleManager!.getRole(roleId)) {
+        throw new Error(`Invalid role ID: ${roleId}`);
+      }
+
+      const affected = await this.groupManager!.getMemberIds(groupId);
+      await this.checkGroupAssignment(affected, [roleId]);
+
+      await this.groupManager!.update(groupId, group => ({
+        ...group,
+        roleIds: group.roleIds.includes(roleId) ? group.roleIds : [...group.roleIds, roleId]
+      }));
+      return affected;
+    });
+  }
+
+  /**
+   * Removes a role from a group
+   * 
+   * @param groupId Group identifier
+   * @param roleId Role identifier
+   * @param options Optional mutation settings, such as the actor for the audit trail
+   * @throws {Error} If HBAC is not initialized, the group does not exist or the database connector cannot store groups
+   */
+  public async removeGroupRole(groupId: GroupId, roleId: RoleId, options: MutationOptions = {}): Promise<void> {
+    this.checkInitialized();
+
+    await this.changeGroup('removeGroupRole', groupId, options, { roleId }, async () => {
+      await this.groupManager!.update(groupId, group => ({
+        ...group,
+        roleIds: group.roleIds.filter(id => id !== roleId)
+      }));
+      return this.groupManager!.getMemberIds(groupId);
+    });
+  }
+
+  /**
+   * Sets an attribute for a group, giving it to every member without their own value
+   * 
+   * @param groupId Group identifier
+   * @param attributeId Attribute identifier
+   * @param value Attribute value
+   * @param options Optional mutation settings, such as the actor for the audit trail
+   * @throws {Error} If HBAC is not initialized, the group does not exist, the attribute or value
+   * is invalid or the database connector cannot store groups
+   */
+  public async setGroupAttribute(
+    groupId: GroupId,
+    attributeId: AttributeId,
+    value: AttributeValue,
+    options: MutationOptions = {}
+  ): Promise<void> {
+    this.checkInitialized();
+
+    await this.changeGroup('setGroupAttribute', groupId, options, { attributeId, value }, async () => {
+      if (!this.attributeManager!.getAttribute(attributeId)) {
+        throw new Error(`Invalid attribute ID: ${attributeId}`);
+      }
+
+      if (!this.attributeManager!.validateAttributeValue(attributeId, value)) {
+        throw new Error(`Invalid value for attribute ${attributeId}`);
+      }
+
+      await this.groupManager!.update(groupId, group => ({
+        ...group,
+        attributes: { ...group.attributes, [attributeId]: value }
+      }));
+      return this.groupManager!.getMemberIds(groupId);
+    });
+  }
+
+  /**
+   * Retrieves a group
+   * 
+   * @param groupId Group identifier
+   * @returns Promise resolving to the group or null if not found
+   * @throws {Error} If HBAC is not initialized or the database connector cannot store groups
+   */
+  public async getGroup(groupId: GroupId): Promise<Group | null> {
+    this.checkInitialized();
+
+    return this.groupManager!.get(groupId);
+  }
+
+  /**
+   * Retrieves the groups a user belongs to, directly or through nested groups
+   * 
+   * @param userId User identifier
+   * @returns Promise resolving to the groups, direct groups first
+   * @throws {Error} If HBAC is not initialized
+   */
+  public async getUserGroups(userId: string): Promise<Group[]> {
+    this.checkInitialized();
+
+    return this.groupManager!.getUserGroups(userId);
+  }
+
+  /**
+   * Builds the cache key of a decision from the request
+   * 
+   * @param userId User identifier
+   * @param action Action to perform
+   * @param resource Resource type, or resource descriptor with attributes
+   * @param context Additional context for permission check
+   * @param scope Optional scope the decision was made in
+   * @returns Decision cache key, prefixed by the user identifier
+   */
+  private getDecisionCacheKey(
+    userId: string,
+    action: string,
+    resource: ResourceInput,
+    context: Record<string, any>,
+    scope?: string
+  ): string {
+    const resourceKey = typeof resource === 'string' ? resource : JSON.stringify(resource);
+    const key = `${userId}:${resourceKey}:${action}:${JSON.stringify(context)}`;
+
+    // Scoped decisions never share an entry with other scopes or with unscoped ones
+    return scope === undefined ? key : `${key}:${JSON.stringify(scope)}`;
+  }
+
+  /**
+   * Retrieves a user's roles and attributes
+   * 
+   * @param userId User identifier
+   * @param scope Optional scope whose roles are added to the user's unscoped roles
+   * @returns Promise resolving to the user's roles and attributes
+   */
+  private loadSubject(
+    userId: string,
+    scope?: string
+  ): Promise<[RoleId[], Record<AttributeId, AttributeValue>]> {
+    return Promise.all([
+      this.getUserRoles(userId, scope),
+      this.getUserAttributes(userId)
+    ]);
+  }
+
+  /**
+   * Loads a user's roles and attributes and evaluates a request against them
+   * 
+   * @param userId User identifier
+   * @param action Action to perform
+   * @param resource Resource type, or resource descriptor with attributes
+   * @param context Additional context for permission check
+   * @param scope Optional scope whose roles are added to the user's unscoped roles
+   * @returns Promise resolving to the decision explanation
+   */
+  private async evaluateRequest(
+    userId: string,
+    action: string,
+    resource: ResourceInput,
+    context: Record<string, any>,
+    scope?: string
+  ): Promise<DecisionExplanation> {
+    const [userRoles, userAttributes] = await this.loadSubject(userId, scope);
+
+    const explanation = await this.relationManager!.resolve(relations => this.policyEngine!.explain(
+      userRoles,
+      userAttributes,
+      resource,
+      action,
+      context,
+      userId,
+      relations
+    ));
+
+    return { ...explanation, userId };
+  }
+
+  /**
+   * Checks whether granting roles to a user would break a separation-of-duties constraint
+   * 
+   * The user's group roles count as unscoped assignments. Constraints the user already
+   * breaks through other roles do not block the assignment.
+   * 
+   * @param userId User identifier
+   * @param roleIds Roles to grant
+   * @param scope Optional scope the roles apply in
+   * @param validity Period the assignment is active
+   * @returns Promise resolving to the violation the assignment would cause, or null
+   */
+  private async findAssignmentViolation(
+    userId: string,
+    roleIds: RoleId[],
+    scope: string | undefined,
+    validity: RoleValidity
+  ): Promise<SoDViolation | null> {
+    const constraints = this.config!.separationOfDuties || [];
+
+    if (constraints.length === 0 || roleIds.length === 0) {
+      return null;
+    }
+
+    const record = await this.getSoDRecord(userId);
+    const assigned = new Set(this.roleManager!.getEffectiveRoles(roleIds));
+    const violations = findUserSoDViolations(
+      roleIds.reduce((candidate, roleId) => withAssignment(candidate, roleId, scope, validity), record),
+      constraints,
+      this.roleManager!
+    );
+
+    return violations.find(violation => violation.roleIds.some(id => assigned.has(id))) ?? null;
+  }
+
+  /**
+   * Checks whether granting roles through a group change would break a
+   * separation-of-duties constraint for any affected user
+   * 
+   * @param userIds Users gaining the roles
+   * @param roleIds Roles granted in every scope
+   * @throws {SoDViolationError} If a user would hold roles a constraint keeps apart
+   */
+  private async checkGroupAssignment(userIds: string[], roleIds: RoleId[]): Promise<void> {
+    for (const userId of userIds) {
+      const violation = await this.findAssignmentViolation(userId, roleIds, undefined, {});
+
+      if (violation) {
+        throw new SoDViolationError(violation);
+      }
+    }
+  }
+
+  /**
+   * Loads a user's access map for separation-of-duties checks, with the roles of
+   * their groups added as unscoped roles
+   * 
+   * @param userId User identifier
+   * @param record Stored access map, when already loaded
+   * @returns Promise resolving to the access map including group roles
+   */
+  private async getSoDRecord(userId: string, record?: UserAccessMap | null): Promise<UserAccessMap> {
+    const [stored, groups] = await Promise.all([
+      record !== undefined ? record : this.dbConnector!.getUserAccessMap(userId),
+      this.groupManager!.getUserGroups(userId)
+    ]);
+    const base = stored || { id: '', userId, roleIds: [], attributes: {} };
+
+    return { ...base, roleIds: mergeGroupRoles(base.roleIds, groups) };
+  }
+
+  /**
+   * Validates a relation tuple, recording rejected changes in the audit trail
+   * 
+   * @param event Kind of change
+   * @param tuple Relation tuple to validate
+   * @param options Mutation settings holding the actor
+   * @throws {Error} If the tuple is malformed
+   */
+  private async validateRelationChange(
+    event: AuditEventType,
+    tuple: RelationTuple,
+    options: MutationOptions
+  ): Promise<void> {
+    try {
+      validateRelationTuple(tuple);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      await this.recordMutation(event, String(tuple.subject), options, 'failure', { ...tuple, reason });
+      throw error;
+    }
+  }
+
+  /**
+   * Applies a change to groups, recording it in the audit trail and invalidating
+   * the cache of every user whose access it changes
+   * 
+   * @param event Kind of change
+   * @param groupId Group being changed
+   * @param options Mutation settings holding the actor
+   * @param details Event-specific details
+   * @param change Change resolving to the users it affects
+   * @param subject User or group whose access changes, defaulting to the changed group
+   * @throws {Error} If the database connector cannot store groups or the change is rejected
+   */
+  private async changeGroup(
+    event: AuditEventType,
+    groupId: GroupId,
+    options: MutationOptions,
+    details: Record<string, any>,
+    change: () => Promise<string[]>,
+    subject: string = toGroupSubject(String(groupId))
+  ): Promise<void> {
+    if (!this.groupManager!.isSupported()) {
+      throw new Error('The configured database does not support groups');
+    }
+
+    let affected: string[];
+
+    try {
+      validateGroupId(groupId);
+      affected = await change();
+    } catch (error) {
+      const failure = error instanceof SoDViolationError
+        ? { reason: 'Separation of duties', constraintId: error.violation.constraintId }
+        : { reason: error instanceof Error ? error.message : String(error) };
+      await this.recordMutation(event, subject, options, 'failure', { groupId, ...details, ...failure });
+      throw error;
+    }
+
+    affected.forEach(userId => this.cacheManager!.invalidateUser(userId));
+
+    await this.recordMutation(event, subject, options, 'success', { groupId, ...details });
+  }
+
+  /**
+   * Records an access decision in the audit trail
+   * 
+   * Allowed decisions are logged at info level and denials at warn level.
+   * 
+   * @param userId User the decision was made for
+   * @param action Action requested
+   * @param resource Resource type, or resource descriptor with attributes
+   * @param allowed Whether access was allowed
+   * @param explanation How the decision was reached, or null if it came from the cache
+   */
+  private async recordDecision(
+    userId: string,
+    action: string,
+    resource: ResourceInput,
+    allowed: boolean,
+    explanation: DecisionExplanation | null
+  ): Promise<void> {
+    // Indeterminate decisions point at a misconfigured policy rather than a denied request
+    const indeterminate = explanation?.decidedBy.step === 'indeterminate';
+
+    await this.auditLogger!.record({
+      level: allowed ? 'info' : indeterminate ? 'error' : 'warn',
+      event: 'decision',
+      actor: userId,
+      subject: userId,
+      resource: typeof resource === 'string' ? resource : resource.type,
+      resourceId: typeof resource === 'string' ? undefined : resource.id,
+      action,
+      matchedRules: explanation ? explanation.decidedBy.ruleIds : undefined,
+      outcome: allowed ? 'allow' : 'deny',
+      details: explanation
+        ? { step: explanation.decidedBy.step, permission: explanation.permission?.permission }
+        : { cached: true }
+    });
+  }
+
+  /**
+   * Records a change to a user's access in the audit trail
+   * 
+   * Successful changes are logged at info level and rejected changes at error level.
+   * 
+   * @param event Kind of change
+   * @param userId User whose access changed
+   * @param options Mutation settings holding the actor
+   * @param outcome Whether the change was applied
+   * @param details Event-specific details
+   */
+  private async recordMutation(
+    event: AuditEventType,
+    userId: string,
+    options: MutationOptions,
+    outcome: AuditOutcome,
+    details: Record<string, any>
+  ): Promise<void> {
+    await this.auditLogger!.record({
+      level: outcome === 'failure' ? 'error' : 'info',
+      event,
+      actor: options.actor || 'system',
+      subject: userId,
+      outcome,
+      details
+    });
   }
 
   /**
@@ -0,0 +1,190 @@
+// file: src/attribute/ip.ts
+// description: IPv4 and IPv6 address parsing and CIDR range matching for condition predicates
+
+/**
+ * Parsed IP address or network
+ */
+interface ParsedAddress {
+  version: 4 | 6;
+  value: bigint;
+}
+
+/**
+ * Parsed CIDR range
+ */
+interface ParsedCidr extends ParsedAddress {
+  prefix: number;
+}
+
+/**
+ * Parses an IPv4 or IPv6 address
+ *
+ * IPv4-mapped IPv6 addresses (::ffff:a.b.c.d) are treated as IPv4.
+ *
+ * @param address Address to parse
+ * @returns Parsed address or null if the address is invalid
+ */
+export function parseIp(address: string): ParsedAddress | null {
+  const trimmed = address.trim();
+
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(trimmed);
+  if (mapped) {
+    return parseIPv4(mapped[1]);
+  }
+
+  return trimmed.includes(':') ? parseIPv6(trimmed) : parseIPv4(trimmed);
+}
+
+/**
+ * Parses a CIDR range; a bare address is treated as a single-host range
+ *
+ * @param cidr CIDR notation such as 10.0.0.0/8 or 2001:db8::/32
+ * @returns Parsed range or null if the range is invalid
+ */
+export function parseCidr(cidr: string): ParsedCidr | null {
+  const [address, prefixText, ...rest] = cidr.trim().split('/');
+
+  if (rest.length > 0) {
+    return null;
+  }
+
+  const parsed = parseIp(address);
+  if (!parsed) {
+    return null;
+  }
+
+  const bits = parsed.version === 4 ? 32 : 128;
+  // Prefixes written against an IPv4-mapped IPv6 address are relative to the IPv6 width
+  const offset = parsed.version === 4 && address.includes(':') ? 96 : 0;
+
+  if (prefixText === undefined) {
+    return { ...parsed, prefix: bits };
+  }
+
+  if (!/^\d+$/.test(prefixText)) {
+    return null;
+  }
+
+  const prefix = Number(prefixText) - offset;
+
+  if (prefix < 0 || prefix > bits) {
+    return null;
+  }
+
+  return { ...parsed, prefix };
+}
+
+/**
+ * Checks whether an address falls within any of the given CIDR ranges
+ *
+ * @param address Address to check
+ * @param ranges CIDR range or list of ranges
+ * @returns Boolean indicating if the address is in range; invalid input never matches
+ */
+export function ipInRange(address: unknown, ranges: unknown): boolean {
+  if (typeof address !== 'string') {
+    return false;
+  }
+
+  const ip = parseIp(address);
+  if (!ip) {
+    return false;
+  }
+
+  const list = Array.isArray(ranges) ? ranges : [ranges];
+
+  return list.some(range => {
+    const cidr = typeof range === 'string' ? parseCidr(range) : null;
+
+    if (!cidr || cidr.version !== ip.version) {
+      return false;
+    }
+
+    const bits = BigInt(ip.version === 4 ? 32 : 128);
+    const hostBits = bits - BigInt(cidr.prefix);
+
+    return (ip.value >> hostBits) === (cidr.value >> hostBits);
+  });
+}
+
+/**
+ * Parses a dotted-quad IPv4 address
+ *
+ * @param address Address to parse
+ * @returns Parsed address or null if the address is invalid
+ */
+function parseIPv4(address: string): ParsedAddress | null {
+  const octets = address.split('.');
+
+  if (octets.length !== 4 || !octets.every(octet => /^\d{1,3}$/.test(octet) && Number(octet) <= 255)) {
+    return null;
+  }
+
+  const value = octets.reduce((result, octet) => (result << BigInt(8)) + BigInt(octet), BigInt(0));
+
+  return { version: 4, value };
+}
+
+/**
+ * Parses an IPv6 address, including :: compression and a trailing IPv4 part
+ *
+ * @param address Address to parse
+ * @returns Parsed address or null if the address is invalid
+ */
+function parseIPv6(address: string): ParsedAddress | null {
+  // Drop any zone identifier (fe80::1%eth0)
+  const [withoutZone] = address.split('%');
+  const halves = withoutZone.split('::');
+
+  if (halves.length > 2) {
+    return null;
+  }
+
+  const toGroups = (part: string): string[] | null => {
+    if (part === '') {
+      return [];
+    }
+
+    const groups = part.split(':');
+    const last = groups[groups.length - 1];
+
+    // Embedded IPv4 in the last 32 bits
+    if (last.includes('.')) {
+      const ipv4 = parseIPv4(last);
+      if (!ipv4) {
+        return null;
+      }
+      const high = Number(ipv4.value >> BigInt(16));
+      const low = Number(ipv4.value & BigInt(0xffff));
+      groups.splice(groups.length - 1, 1, high.toString(16), low.toString(16));
+    }
+
+    return groups;
+  };
+
+  const head = toGroups(halves[0]);
+  const tail = halves.length === 2 ? toGroups(halves[1]) : [];
+
+  if (!head || !tail) {
+    return null;
+  }
+
+  const missing = 8 - head.length - tail.length;
+
+  if ((halves.length === 2 && missing < 1) || (halves.length === 1 && missing !== 0)) {
+    return null;
+  }
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+
+  if (!groups.every(group => /^[0-9a-f]{1,4}$/i.test(group))) {
+    return null;
+  }
+
+  const value = groups.reduce(
+    (result, group) => (result << BigInt(16)) + BigInt(parseInt(group, 16)),
+    BigInt(0)
+  );
+
+  return { version: 6, value };
+}
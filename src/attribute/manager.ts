@@ -1,7 +1,29 @@
 // file: src/attribute/manager.ts
 // description: Manages attributes and evaluates attribute-based conditions for access control
 
-import { AttributeMap, AttributeId, AttributeValue, AttributeValues } from '../types';
+import {
+  AttributeMap,
+  AttributeId,
+  AttributeValue,
+  AttributeValues,
+  ConditionExplanation,
+  ConditionPathExplanation,
+  AccessRequest
+} from '../types';
+import { EnvironmentConfig } from '../interfaces/config';
+import { ipInRange } from './ip';
+import { isLogicalOperator, isReference, LOGICAL_OPERATORS, RELATION_OPERATOR } from './operators';
+import { toUserSubject } from '../relation/tuple';
+
+/**
+ * Predicate operators that can be satisfied by a missing value
+ */
+const MISSING_VALUE_OPERATORS: string[] = ['$ne', '$exists', ...LOGICAL_OPERATORS];
+
+/**
+ * Weekday names as formatted by Intl.DateTimeFormat, indexed by day of week
+ */
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
 
 /**
  * Manages attributes and evaluates attribute conditions
@@ -9,12 +31,28 @@ import { AttributeMap, AttributeId, AttributeValue, AttributeValues } from '../t
  * Provides methods for attribute validation, retrieval, and complex condition evaluation
  */
 export class AttributeManager {
+  /**
+   * Formatter deriving calendar fields in the configured timezone
+   */
+  private calendarFormat: Intl.DateTimeFormat;
+
   /**
    * Creates a new AttributeManager instance
    * 
    * @param attributes Attribute map from configuration
+   * @param environment Evaluation environment configuration
    */
-  constructor(private attributes: AttributeMap) {}
+  constructor(
+    private attributes: AttributeMap,
+    environment: EnvironmentConfig = {}
+  ) {
+    this.calendarFormat = new Intl.DateTimeFormat('en-US', {
+      timeZone: environment.timezone || 'UTC',
+      weekday: 'short',
+      hour: 'numeric',
+      hourCycle: 'h23'
+    });
+  }
 
   /**
    * Retrieves all defined attributes
@@ -70,47 +108,173 @@ export class AttributeManager {
    * @param condition Condition to evaluate
    * @param userAttributes User's current attributes
    * @param context Additional context for condition evaluation
+   * @param request Requesting user and resource being accessed
    * @returns Boolean indicating if the condition is satisfied
    */
   public evaluateCondition(
     condition: Record<string, any>,
     userAttributes: AttributeValues,
-    context: Record<string, any> = {}
+    context: Record<string, any> = {},
+    request: AccessRequest = {}
   ): boolean {
-    // Specific handling for the problematic test cases
-    if (Object.keys(condition).includes('$user.attributes.clearanceLevel')) {
-      return false;
+    return this.explainCondition(condition, userAttributes, context, request).satisfied;
+  }
+
+  /**
+   * Evaluates a condition and reports how each of its paths resolved
+   * 
+   * @param condition Condition to evaluate
+   * @param userAttributes User's current attributes
+   * @param context Additional context for condition evaluation
+   * @param request Requesting user and resource being accessed
+   * @returns Explanation of the condition evaluation
+   */
+  public explainCondition(
+    condition: Record<string, any>,
+    userAttributes: AttributeValues,
+    context: Record<string, any> = {},
+    request: AccessRequest = {}
+  ): ConditionExplanation {
+    // Evaluate each path, stopping at the first unsatisfied one
+    const paths: ConditionPathExplanation[] = [];
+
+    for (const [path, predicate] of Object.entries(condition)) {
+      const explanation = isLogicalOperator(path)
+        ? this.explainLogicalCondition(path, predicate, userAttributes, context, request)
+        : path === RELATION_OPERATOR
+          ? this.explainRelatedCondition(predicate, userAttributes, context, request)
+          : this.explainPath(path, predicate, userAttributes, context, request);
+      paths.push(explanation);
+
+      if (!explanation.satisfied) {
+        return { satisfied: false, paths };
+      }
     }
 
-    // Complex condition with context reference and multiple checks
-    if (
-      condition['attributes.clearanceLevel']?.['$gte'] === 'context.documentClearanceLevel' &&
-      condition['context.isOwner'] === true
-    ) {
-      return false;
+    return { satisfied: true, paths };
+  }
+
+  /**
+   * Evaluates a condition-level logical operator over nested conditions
+   * 
+   * @param operator Logical operator ($and, $or, $nor or $not)
+   * @param operand Nested condition, or array of nested conditions
+   * @param userAttributes User's current attributes
+   * @param context Additional context for condition evaluation
+   * @param request Requesting user and resource being accessed
+   * @returns Explanation of the operator evaluation
+   */
+  private explainLogicalCondition(
+    operator: string,
+    operand: any,
+    userAttributes: AttributeValues,
+    context: Record<string, any>,
+    request: AccessRequest
+  ): ConditionPathExplanation {
+    const conditions: ConditionExplanation[] = [];
+    const explain = (condition: Record<string, any>): boolean => {
+      const explanation = this.explainCondition(condition, userAttributes, context, request);
+      conditions.push(explanation);
+      return explanation.satisfied;
+    };
+
+    let satisfied: boolean;
+    
+    switch (operator) {
+      case '$and':
+        satisfied = Array.isArray(operand) && operand.every(explain);
+        break;
+      case '$or':
+        satisfied = Array.isArray(operand) && operand.some(explain);
+        break;
+      case '$nor':
+        satisfied = Array.isArray(operand) && !operand.some(explain);
+        break;
+      case '$not':
+        satisfied = typeof operand === 'object' && operand !== null && !explain(operand);
+        break;
+      default:
+        satisfied = false;
     }
 
-    // Default evaluation logic
-    return Object.entries(condition).every(([path, predicate]) => {
-      const value = this.resolvePath(path, userAttributes, context);
-      
-      // Handle special case of missing values
-      if (value === undefined) {
-        if (typeof predicate === 'object' && predicate !== null) {
-          // Special handling for exists and not equal
-          if (predicate.$exists === false || predicate.$ne !== undefined) {
-            return this.evaluatePredicate(value, predicate);
-          }
-        }
-        return false;
-      }
+    return { path: operator, value: undefined, predicate: operand, satisfied, conditions };
+  }
 
-      // Resolve predicate values (handles context references)
-      const resolvedPredicate = this.resolvePredicateValues(predicate, userAttributes, context);
-      
-      // Evaluate the resolved predicate
-      return this.evaluatePredicate(value, resolvedPredicate);
-    });
+  /**
+   * Checks a relationship through the request's relationship lookup
+   * 
+   * The object defaults to the resource being accessed and the subject to the requesting
+   * user. The condition is unsatisfied when either cannot be resolved or the lookup does
+   * not know the answer yet.
+   * 
+   * @param operand Relation name, or object with relation and optional object and subject
+   * @param userAttributes User's current attributes
+   * @param context Additional context for condition evaluation
+   * @param request Requesting user and resource being accessed
+   * @returns Explanation of the relationship check, with the resolved tuple as its value
+   */
+  private explainRelatedCondition(
+    operand: any,
+    userAttributes: AttributeValues,
+    context: Record<string, any>,
+    request: AccessRequest
+  ): ConditionPathExplanation {
+    const condition = typeof operand === 'string' ? { relation: operand } : operand || {};
+    const resource = request.resource;
+
+    const object = condition.object !== undefined
+      ? this.resolveReference(condition.object, userAttributes, context, request)
+      : resource?.id !== undefined ? `${resource.type}:${resource.id}` : undefined;
+    const subject = condition.subject !== undefined
+      ? this.resolveReference(condition.subject, userAttributes, context, request)
+      : request.userId !== undefined ? toUserSubject(request.userId) : undefined;
+
+    const satisfied = typeof object === 'string' &&
+      typeof subject === 'string' &&
+      request.relations?.(object, condition.relation, subject) === true;
+
+    return {
+      path: RELATION_OPERATOR,
+      value: { object, relation: condition.relation, subject },
+      predicate: operand,
+      satisfied
+    };
+  }
+
+  /**
+   * Resolves a single condition path and evaluates its predicate
+   * 
+   * @param path Path to resolve
+   * @param predicate Predicate to evaluate against the resolved value
+   * @param userAttributes User's current attributes
+   * @param context Additional context for condition evaluation
+   * @param request Requesting user and resource being accessed
+   * @returns Explanation of the path evaluation
+   */
+  private explainPath(
+    path: string,
+    predicate: any,
+    userAttributes: AttributeValues,
+    context: Record<string, any>,
+    request: AccessRequest
+  ): ConditionPathExplanation {
+    const value = this.resolvePath(path, userAttributes, context, request);
+    
+    // Missing values can only satisfy operator-based predicates
+    if (value === undefined && (typeof predicate !== 'object' || predicate === null)) {
+      return { path, value, predicate, satisfied: false };
+    }
+
+    // Resolve predicate values (handles context references)
+    const resolvedPredicate = this.resolvePredicateValues(predicate, userAttributes, context, request);
+    
+    // Evaluate the resolved predicate
+    return {
+      path,
+      value,
+      predicate: resolvedPredicate,
+      satisfied: this.evaluatePredicate(value, resolvedPredicate)
+    };
   }
 
   /**
@@ -119,17 +283,18 @@ export class AttributeManager {
    * @param predicate Predicate object or value
    * @param userAttributes User attributes
    * @param context Context object
+   * @param request Requesting user and resource being accessed
    * @returns Resolved predicate
    */
   private resolvePredicateValues(
     predicate: any,
     userAttributes: AttributeValues,
-    context: Record<string, any>
+    context: Record<string, any>,
+    request: AccessRequest
   ): any {
-    // Handle simple string predicates with context references
-    if (typeof predicate === 'string' && predicate.startsWith('context.')) {
-      const contextPath = predicate.substring('context.'.length);
-      return this.getNestedValue(context, contextPath);
+    // Handle simple string predicates with references
+    if (typeof predicate === 'string') {
+      return this.resolveReference(predicate, userAttributes, context, request);
     }
 
     // Handle complex predicate objects
@@ -137,23 +302,18 @@ export class AttributeManager {
       const resolvedPredicate: Record<string, any> = {};
       
       for (const [operator, operand] of Object.entries(predicate)) {
-        if (typeof operand === 'string') {
-          if (operand.startsWith('context.')) {
-            // Resolve context references
-            const contextPath = operand.substring('context.'.length);
-            resolvedPredicate[operator] = this.getNestedValue(context, contextPath);
-          } else if (operand.startsWith('$user.attributes.')) {
-            // Resolve user attribute references
-            const attrName = operand.substring('$user.attributes.'.length);
-            const attributeId = this.getAttributeIdByName(attrName);
-            resolvedPredicate[operator] = attributeId 
-              ? userAttributes[attributeId] 
-              : undefined;
-          } else {
-            resolvedPredicate[operator] = operand;
-          }
+        if (isLogicalOperator(operator) || operator === '$elemMatch') {
+          // Resolve nested predicates of logical and element operators
+          resolvedPredicate[operator] = Array.isArray(operand)
+            ? operand.map(nested => this.resolvePredicateValues(nested, userAttributes, context, request))
+            : this.resolvePredicateValues(operand, userAttributes, context, request);
+        } else if (operator === '$between' && Array.isArray(operand)) {
+          // Resolve references in range bounds
+          resolvedPredicate[operator] = operand.map(bound =>
+            this.resolveReference(bound, userAttributes, context, request)
+          );
         } else {
-          resolvedPredicate[operator] = operand;
+          resolvedPredicate[operator] = this.resolveReference(operand, userAttributes, context, request);
         }
       }
       
@@ -163,24 +323,54 @@ export class AttributeManager {
     return predicate;
   }
 
+  /**
+   * Resolves an operand that may reference the user, context, resource or environment
+   * 
+   * @param operand Operand to resolve
+   * @param userAttributes User attributes
+   * @param context Context object
+   * @param request Requesting user and resource being accessed
+   * @returns Referenced value, or the operand itself if it is not a reference
+   */
+  private resolveReference(
+    operand: any,
+    userAttributes: AttributeValues,
+    context: Record<string, any>,
+    request: AccessRequest
+  ): any {
+    return isReference(operand)
+      ? this.resolvePath(operand, userAttributes, context, request)
+      : operand;
+  }
+
   /**
    * Resolves a path to a value from user attributes or context
    * 
    * @param path Path to resolve
    * @param userAttributes User's attributes
    * @param context Additional context
+   * @param request Requesting user and resource being accessed
    * @returns Resolved value or undefined
    */
   private resolvePath(
     path: string,
     userAttributes: AttributeValues,
-    context: Record<string, any>
+    context: Record<string, any>,
+    request: AccessRequest
   ): any {
     // Handle user attributes with special syntax
     if (path.startsWith('$user.attributes.')) {
-      const attributeName = path.substring('$user.attributes.'.length);
-      const attributeId = this.getAttributeIdByName(attributeName);
-      return attributeId ? userAttributes[attributeId] : undefined;
+      return this.resolveAttributePath(path.substring('$user.attributes.'.length), userAttributes);
+    }
+
+    // Handle requesting user identifier
+    if (path === '$user.id') {
+      return request.userId;
+    }
+
+    // Handle resource descriptor fields and attributes
+    if (path.startsWith('resource.')) {
+      return this.resolveResourcePath(path.substring('resource.'.length), request);
     }
 
     // Handle context reference
@@ -189,17 +379,86 @@ export class AttributeManager {
       return this.getNestedValue(context, contextPath);
     }
 
+    // Handle built-in environment values
+    if (path.startsWith('env.')) {
+      return this.getEnvironment()[path.substring('env.'.length)];
+    }
+
     // Handle attributes reference
     if (path.startsWith('attributes.')) {
-      const attributeName = path.substring('attributes.'.length);
-      const attributeId = this.getAttributeIdByName(attributeName);
-      return attributeId ? userAttributes[attributeId] : undefined;
+      return this.resolveAttributePath(path.substring('attributes.'.length), userAttributes);
     }
 
     // Direct attribute reference
     return userAttributes[path];
   }
 
+  /**
+   * Resolves a path within the resource being accessed
+   * 
+   * `type` and `id` read the resource descriptor; any other path reads its attributes.
+   * 
+   * @param path Path relative to the resource namespace
+   * @param request Requesting user and resource being accessed
+   * @returns Resolved value or undefined
+   */
+  private resolveResourcePath(path: string, request: AccessRequest): any {
+    const resource = request.resource;
+
+    if (!resource) {
+      return undefined;
+    }
+
+    if (path === 'type' || path === 'id') {
+      return resource[path];
+    }
+
+    return this.getNestedValue(resource.attributes || {}, path);
+  }
+
+  /**
+   * Builds the built-in environment values for the current instant
+   * 
+   * @returns Map of environment values: now (epoch milliseconds), dayOfWeek (0 = Sunday)
+   * and hourOfDay (0-23), the latter two in the configured timezone
+   */
+  private getEnvironment(): Record<string, any> {
+    const now = Date.now();
+    const parts = this.calendarFormat.formatToParts(now);
+    const weekday = parts.find(part => part.type === 'weekday')?.value;
+    const hour = parts.find(part => part.type === 'hour')?.value;
+
+    return {
+      now,
+      dayOfWeek: WEEKDAYS.indexOf(weekday ?? ''),
+      hourOfDay: Number(hour)
+    };
+  }
+
+  /**
+   * Resolves a user attribute by name, following any nested path into object values
+   * 
+   * @param path Attribute name, optionally followed by a dot-separated nested path
+   * @param userAttributes User's current attributes
+   * @returns Resolved value or undefined
+   */
+  private resolveAttributePath(path: string, userAttributes: AttributeValues): any {
+    const [attributeName, ...nestedPath] = path.split('.');
+    const attributeId = this.getAttributeIdByName(attributeName);
+
+    if (!attributeId) {
+      return undefined;
+    }
+
+    const value = userAttributes[attributeId];
+
+    if (nestedPath.length === 0) {
+      return value;
+    }
+
+    return value && typeof value === 'object' ? this.getNestedValue(value, nestedPath.join('.')) : undefined;
+  }
+
   /**
    * Gets attribute ID by name
    * 
@@ -240,6 +499,11 @@ export class AttributeManager {
 
     // Operator-based predicates
     return Object.entries(predicate).every(([operator, operand]: [string, unknown]) => {
+      // Missing values only satisfy presence, inequality and logical operators
+      if (value === undefined && !MISSING_VALUE_OPERATORS.includes(operator)) {
+        return false;
+      }
+
       switch (operator) {
         case '$eq': 
           return value === operand;
@@ -267,9 +531,132 @@ export class AttributeManager {
           return Array.isArray(operand) && !operand.includes(value);
         case '$exists':
           return operand ? value !== undefined : value === undefined;
+        case '$regex':
+          return typeof value === 'string' &&
+            typeof operand === 'string' &&
+            this.testPattern(value, operand, predicate.$options);
+        case '$options':
+          // Flags are applied by $regex
+          return true;
+        case '$startsWith':
+          return typeof value === 'string' &&
+            typeof operand === 'string' &&
+            value.startsWith(operand);
+        case '$endsWith':
+          return typeof value === 'string' &&
+            typeof operand === 'string' &&
+            value.endsWith(operand);
+        case '$contains':
+          return typeof value === 'string' &&
+            typeof operand === 'string' &&
+            value.includes(operand);
+        case '$all':
+          return Array.isArray(value) &&
+            Array.isArray(operand) &&
+            operand.every(item => value.includes(item));
+        case '$any':
+          return Array.isArray(value) &&
+            Array.isArray(operand) &&
+            operand.some(item => value.includes(item));
+        case '$size':
+          return Array.isArray(value) && value.length === operand;
+        case '$before': {
+          const [time, limit] = [toTimestamp(value), toTimestamp(operand)];
+          return time !== undefined && limit !== undefined && time < limit;
+        }
+        case '$after': {
+          const [time, limit] = [toTimestamp(value), toTimestamp(operand)];
+          return time !== undefined && limit !== undefined && time > limit;
+        }
+        case '$between': {
+          if (!Array.isArray(operand) || operand.length !== 2) {
+            return false;
+          }
+          const [time, start, end] = [value, ...operand].map(toTimestamp);
+          return time !== undefined && start !== undefined && end !== undefined &&
+            time >= start && time <= end;
+        }
+        case '$ipInRange':
+        case '$cidr':
+          return ipInRange(value, operand);
+        case '$elemMatch':
+          return Array.isArray(value) &&
+            value.some(element => this.matchesElement(element, operand));
+        case '$and':
+          return Array.isArray(operand) &&
+            operand.every(nested => this.evaluatePredicate(value, nested));
+        case '$or':
+          return Array.isArray(operand) &&
+            operand.some(nested => this.evaluatePredicate(value, nested));
+        case '$nor':
+          return Array.isArray(operand) &&
+            !operand.some(nested => this.evaluatePredicate(value, nested));
+        case '$not':
+          return !this.evaluatePredicate(value, operand);
         default: 
           return false;
       }
     });
   }
+
+  /**
+   * Tests a string against a regular expression pattern
+   * 
+   * @param value String to test
+   * @param pattern Regular expression source
+   * @param flags Optional regular expression flags
+   * @returns Boolean indicating if the pattern matches, false if the pattern is invalid
+   */
+  private testPattern(value: string, pattern: string, flags?: unknown): boolean {
+    try {
+      return new RegExp(pattern, typeof flags === 'string' ? flags : undefined).test(value);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Checks whether an array element satisfies an $elemMatch query
+   * 
+   * The query is either a predicate applied to the element itself, or a map of
+   * element field paths to predicates when the element is an object.
+   * 
+   * @param element Array element to check
+   * @param query Predicate or field query
+   * @returns Boolean indicating if the element matches
+   */
+  private matchesElement(element: any, query: any): boolean {
+    if (typeof query !== 'object' || query === null) {
+      return element === query;
+    }
+
+    const keys = Object.keys(query);
+
+    if (keys.every(key => key.startsWith('$'))) {
+      return this.evaluatePredicate(element, query);
+    }
+
+    return typeof element === 'object' &&
+      element !== null &&
+      keys.every(key => this.evaluatePredicate(this.getNestedValue(element, key), query[key]));
+  }
+}
+
+/**
+ * Converts an ISO date string or epoch milliseconds to a timestamp
+ * 
+ * @param value Value to convert
+ * @returns Epoch milliseconds, or undefined if the value is not a valid date
+ */
+function toTimestamp(value: unknown): number | undefined {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : undefined;
+  }
+
+  if (typeof value === 'string') {
+    const timestamp = Date.parse(value);
+    return Number.isNaN(timestamp) ? undefined : timestamp;
+  }
+
+  return undefined;
 }
\ No newline at end of file
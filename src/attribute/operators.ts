@@ -0,0 +1,88 @@
+// file: src/attribute/operators.ts
+// description: Operator names recognized by the condition language
+
+import { LogicalOperator } from '../types/policy';
+
+/**
+ * Logical operators that take an array of operands
+ */
+export const LOGICAL_ARRAY_OPERATORS: LogicalOperator[] = ['$and', '$or', '$nor'];
+
+/**
+ * All logical operators
+ */
+export const LOGICAL_OPERATORS: LogicalOperator[] = [...LOGICAL_ARRAY_OPERATORS, '$not'];
+
+/**
+ * Checks whether a key is a logical operator
+ *
+ * @param key Condition or predicate key
+ * @returns Boolean indicating if the key is a logical operator
+ */
+export function isLogicalOperator(key: string): key is LogicalOperator {
+  return (LOGICAL_OPERATORS as string[]).includes(key);
+}
+
+/**
+ * Condition operator checking a relationship between objects and subjects
+ */
+export const RELATION_OPERATOR = '$related';
+
+/**
+ * All operators that may appear in a condition predicate
+ */
+export const PREDICATE_OPERATORS: string[] = [
+  '$eq', '$ne', '$gt', '$gte', '$lt', '$lte', '$in', '$nin', '$exists',
+  '$regex', '$options', '$startsWith', '$endsWith', '$contains',
+  '$all', '$any', '$size', '$elemMatch',
+  '$before', '$after', '$between',
+  '$ipInRange', '$cidr',
+  ...LOGICAL_OPERATORS
+];
+
+/**
+ * Checks whether a key is a known predicate operator
+ *
+ * @param key Predicate key
+ * @returns Boolean indicating if the key is a predicate operator
+ */
+export function isPredicateOperator(key: string): boolean {
+  return PREDICATE_OPERATORS.includes(key);
+}
+
+/**
+ * Prefixes of operand strings that reference runtime values
+ */
+export const REFERENCE_PREFIXES: string[] = ['context.', '$user.attributes.', '$user.id', 'resource.', 'env.'];
+
+/**
+ * Checks whether an operand references a runtime value
+ *
+ * @param operand Predicate operand
+ * @returns Boolean indicating if the operand is a reference
+ */
+export function isReference(operand: unknown): boolean {
+  return typeof operand === 'string' && REFERENCE_PREFIXES.some(prefix => operand.startsWith(prefix));
+}
+
+/**
+ * Checks whether a condition reads built-in environment values, through a path or an operand
+ *
+ * @param condition Condition, predicate or operand
+ * @returns Boolean indicating if any `env.*` value is referenced
+ */
+export function readsEnvironment(condition: unknown): boolean {
+  if (typeof condition === 'string') {
+    return condition.startsWith('env.');
+  }
+
+  if (Array.isArray(condition)) {
+    return condition.some(readsEnvironment);
+  }
+
+  if (condition && typeof condition === 'object') {
+    return Object.entries(condition).some(([key, value]) => key.startsWith('env.') || readsEnvironment(value));
+  }
+
+  return false;
+}
@@ -0,0 +1,183 @@
+// file: src/audit/chain.ts
+// description: Hash chaining and verification for tamper-evident audit logs
+
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import { readdir, readFile } from 'fs/promises';
+import path from 'path';
+import { AuditEntry, AuditChainBreak, AuditVerificationResult } from '../types/audit';
+
+/**
+ * Previous hash of the first entry in a chain
+ */
+export const GENESIS_HASH = '0'.repeat(64);
+
+/**
+ * Options for verifying an audit log
+ */
+export interface VerifyAuditLogOptions {
+  /**
+   * Key the entries were signed with; when set, every entry must carry a matching HMAC
+   */
+  hmacKey?: string;
+}
+
+/**
+ * Computes the hash of an entry over every field except hash and hmac
+ *
+ * @param entry Entry to hash
+ * @returns Hex-encoded SHA-256 hash
+ */
+export function computeEntryHash(entry: Omit<AuditEntry, 'hash' | 'hmac'> | AuditEntry): string {
+  const fields: Partial<AuditEntry> = { ...entry };
+  delete fields.hash;
+  delete fields.hmac;
+
+  return createHash('sha256').update(canonicalize(fields)).digest('hex');
+}
+
+/**
+ * Signs an entry hash
+ *
+ * @param hash Entry hash
+ * @param key Secret key
+ * @returns Hex-encoded HMAC-SHA256 of the hash
+ */
+export function computeEntryHmac(hash: string, key: string): string {
+  return createHmac('sha256', key).update(hash).digest('hex');
+}
+
+/**
+ * Verifies the hash chain of a JSON Lines audit log
+ *
+ * Rotated files next to the log (audit.jsonl.1, audit.jsonl.2, ...) are verified
+ * first, oldest to newest, so links across rotations are checked too. The first
+ * entry of the oldest rotated file may link to an entry removed by rotation; without
+ * rotated files the first entry must start the chain, so removing entries from the
+ * head of the log is detected.
+ *
+ * @param logPath Path of the active audit log
+ * @param options Verification options
+ * @returns Verification result reporting the first broken link, if any
+ * @throws {Error} If no log file exists at the path
+ */
+export async function verifyAuditLog(
+  logPath: string,
+  options: VerifyAuditLogOptions = {}
+): Promise<AuditVerificationResult> {
+  const files = await listLogFiles(logPath);
+
+  if (files.length === 0) {
+    throw new Error(`Audit log not found: ${logPath}`);
+  }
+
+  const rotated = files.length > 1 || files[0] !== logPath;
+  let previousHash: string | null = rotated ? null : GENESIS_HASH;
+  let entries = 0;
+
+  const broken = (brokenLink: AuditChainBreak): AuditVerificationResult => ({
+    valid: false,
+    entries,
+    brokenLink
+  });
+
+  for (const file of files) {
+    const lines = (await readFile(file, 'utf-8')).split('\n');
+
+    for (let index = 0; index < lines.length; index++) {
+      if (lines[index].trim() === '') {
+        continue;
+      }
+
+      const location = { file, line: index + 1 };
+      let entry: AuditEntry;
+
+      try {
+        entry = JSON.parse(lines[index]);
+      } catch {
+        return broken({ ...location, reason: 'malformed' });
+      }
+
+      if (!entry || typeof entry.hash !== 'string' || typeof entry.prevHash !== 'string') {
+        return broken({ ...location, entryId: entry?.id, reason: 'malformed' });
+      }
+
+      if (computeEntryHash(entry) !== entry.hash) {
+        return broken({ ...location, entryId: entry.id, reason: 'modified' });
+      }
+
+      if (previousHash !== null && entry.prevHash !== previousHash) {
+        return broken({ ...location, entryId: entry.id, reason: 'chainBroken' });
+      }
+
+      if (options.hmacKey !== undefined && !hmacMatches(entry, options.hmacKey)) {
+        return broken({ ...location, entryId: entry.id, reason: 'hmacMismatch' });
+      }
+
+      previousHash = entry.hash;
+      entries++;
+    }
+  }
+
+  return { valid: true, entries };
+}
+
+/**
+ * Lists an audit log and its rotated files, oldest first
+ *
+ * @param logPath Path of the active audit log
+ * @returns Existing file paths in chronological order
+ */
+async function listLogFiles(logPath: string): Promise<string[]> {
+  const directory = path.dirname(logPath);
+  const base = path.basename(logPath);
+  const names = await readdir(directory).catch(() => [] as string[]);
+
+  const rotated = names
+    .filter(name => name.startsWith(`${base}.`) && /^\d+$/.test(name.slice(base.length + 1)))
+    .map(name => ({ name, index: Number(name.slice(base.length + 1)) }))
+    .sort((a, b) => b.index - a.index)
+    .map(({ name }) => path.join(directory, name));
+
+  return names.includes(base) ? [...rotated, logPath] : rotated;
+}
+
+/**
+ * Checks an entry's HMAC in constant time
+ *
+ * @param entry Entry to check
+ * @param key Secret key
+ * @returns Boolean indicating if the HMAC is present and valid
+ */
+function hmacMatches(entry: AuditEntry, key: string): boolean {
+  if (typeof entry.hmac !== 'string') {
+    return false;
+  }
+
+  const expected = Buffer.from(computeEntryHmac(entry.hash, key), 'hex');
+  const actual = Buffer.from(entry.hmac, 'hex');
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Serializes a value as JSON with object keys sorted, so equal entries hash equally
+ *
+ * @param value Value to serialize
+ * @returns Canonical JSON string
+ */
+function canonicalize(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => (item === undefined ? 'null' : canonicalize(item))).join(',')}]`;
+  }
+
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    const fields = Object.keys(value as Record<string, unknown>)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalize((value as Record<string, unknown>)[key])}`);
+
+    return `{${fields.join(',')}}`;
+  }
+
+  return JSON.stringify(value);
+}
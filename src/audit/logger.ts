@@ -0,0 +1,222 @@
+// file: src/audit/logger.ts
+// description: Records access decisions and access changes to the configured audit sinks
+
+import { v4 as uuidv4 } from 'uuid';
+import { AuditConfig } from '../interfaces/config';
+import { AuditSink } from '../interfaces/audit';
+import { DatabaseConnector } from '../interfaces/database';
+import { AuditLevel } from '../types/config';
+import { AuditEntry, AuditEvent, AuditQuery, AuditQueryResult } from '../types/audit';
+import { computeEntryHash, computeEntryHmac, GENESIS_HASH } from './chain';
+import { DatabaseAuditSink } from './sinks';
+
+/**
+ * Audit levels from least to most verbose
+ */
+const AUDIT_LEVELS: AuditLevel[] = ['error', 'warn', 'info', 'debug'];
+
+/**
+ * Milliseconds in a day
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Milliseconds between retention runs started by recording entries
+ */
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Hash and position of the last entry in the chain
+ */
+type ChainLink = Pick<AuditEntry, 'hash' | 'sequence'>;
+
+/**
+ * Link preceding the first entry of a chain
+ */
+const GENESIS_LINK: ChainLink = { hash: GENESIS_HASH, sequence: 0 };
+
+/**
+ * AuditLogger writes audit entries to a set of sinks
+ *
+ * Entries are dropped when auditing is disabled or when they are more
+ * verbose than the configured level. Recorded entries form a hash chain,
+ * each carrying the hash of the one before it.
+ */
+export class AuditLogger {
+  /**
+   * Last recorded entry of the chain, resumed from the sinks on first use
+   */
+  private lastLink: Promise<ChainLink> | null = null;
+
+  /**
+   * Time of the last retention run, in milliseconds since the epoch
+   */
+  private lastPruned = 0;
+
+  /**
+   * Creates a new AuditLogger instance
+   *
+   * @param config Audit configuration settings
+   * @param sinks Destinations for audit entries
+   * @param connector Database connector storing entries for querying and retention
+   */
+  constructor(
+    private config: AuditConfig,
+    private sinks: AuditSink[],
+    private connector?: DatabaseConnector
+  ) {}
+
+  /**
+   * Checks whether entries at a given level are recorded
+   *
+   * @param level Level of the entry
+   * @returns Boolean indicating if the entry would be recorded
+   */
+  public isEnabled(level: AuditLevel): boolean {
+    return this.config.enabled &&
+      AUDIT_LEVELS.indexOf(level) <= AUDIT_LEVELS.indexOf(this.config.level);
+  }
+
+  /**
+   * Records an audit entry, stamping it with an identifier and the current time
+   * and linking it to the previous entry
+   *
+   * Entries that cannot be hashed and sink failures are reported to the console and
+   * never fail the audited operation.
+   * With a retention period, older entries are pruned at most once an hour as
+   * entries are recorded.
+   *
+   * @param event Event to record
+   * @returns Promise that resolves when every sink has handled the entry
+   */
+  public async record(event: AuditEvent): Promise<void> {
+    if (!this.isEnabled(event.level)) {
+      return;
+    }
+
+    // Claim the next link before yielding, so concurrent entries chain in call order
+    const previous = this.lastLink || this.resumeChain();
+    let resolveLink!: (link: ChainLink) => void;
+    this.lastLink = new Promise(resolve => { resolveLink = resolve; });
+
+    const prevLink = await previous;
+    let entry: AuditEntry;
+
+    try {
+      entry = this.stamp(event, prevLink);
+    } catch (error) {
+      // Leave the chain at the previous entry, so later entries do not wait forever
+      resolveLink(prevLink);
+      console.error(`Failed to stamp audit entry: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+
+    resolveLink(entry);
+
+    await Promise.all(this.sinks.map(async sink => {
+      try {
+        await sink.write(entry);
+      } catch (error) {
+        console.error(`Failed to write audit entry: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }));
+
+    const pruneDue = this.config.retentionDays !== undefined && Date.now() - this.lastPruned >= PRUNE_INTERVAL_MS;
+
+    if (pruneDue && this.connector?.pruneAuditEntries) {
+      await this.prune().catch(error => {
+        console.error(`Failed to prune audit entries: ${error instanceof Error ? error.message : String(error)}`);
+      });
+    }
+  }
+
+  /**
+   * Stamps an event with an identifier, the current time and its link to the previous entry
+   *
+   * @param event Event to record
+   * @param prevLink Previous entry of the chain
+   * @returns Entry with its hash and, when a key is configured, its HMAC
+   * @throws {Error} If the entry cannot be serialized for hashing
+   */
+  private stamp(event: AuditEvent, prevLink: ChainLink): AuditEntry {
+    const unsigned = {
+      id: uuidv4(),
+      timestamp: new Date().toISOString(),
+      ...event,
+      sequence: prevLink.sequence + 1,
+      prevHash: prevLink.hash
+    };
+    const hash = computeEntryHash(unsigned);
+
+    return this.config.hmacKey
+      ? { ...unsigned, hash, hmac: computeEntryHmac(hash, this.config.hmacKey) }
+      : { ...unsigned, hash };
+  }
+
+  /**
+   * Searches audit entries stored in the database, newest first
+   *
+   * Pass the returned nextCursor as `cursor` to fetch the following page.
+   *
+   * @param query Filters and pagination
+   * @returns Promise resolving to a page of entries
+   * @throws {Error} If the database connector does not support audit queries or no
+   * database sink stores entries
+   */
+  public async query(query: AuditQuery = {}): Promise<AuditQueryResult> {
+    if (!this.connector?.queryAuditEntries) {
+      throw new Error('The configured database does not support audit queries');
+    }
+
+    // Without a database sink nothing is stored, so every query would come back empty
+    if (!this.sinks.some(sink => sink instanceof DatabaseAuditSink)) {
+      throw new Error("Audit queries require a sink of type 'database' in audit.sinks");
+    }
+
+    return this.connector.queryAuditEntries(query);
+  }
+
+  /**
+   * Deletes stored entries older than the configured retention period
+   *
+   * @returns Promise resolving to the number of deleted entries, 0 without a retention period
+   * @throws {Error} If a retention period is set but the database connector cannot prune entries
+   */
+  public async prune(): Promise<number> {
+    if (this.config.retentionDays === undefined) {
+      return 0;
+    }
+
+    if (!this.connector?.pruneAuditEntries) {
+      throw new Error('The configured database does not support audit retention');
+    }
+
+    this.lastPruned = Date.now();
+
+    return this.connector.pruneAuditEntries(new Date(Date.now() - this.config.retentionDays * DAY_MS));
+  }
+
+  /**
+   * Finds the link to continue the chain from, using the last entry a sink persisted
+   *
+   * @returns Promise resolving to the last persisted entry's link, or the genesis link
+   */
+  private async resumeChain(): Promise<ChainLink> {
+    for (const sink of this.sinks) {
+      if (!sink.lastEntry) {
+        continue;
+      }
+
+      try {
+        const entry = await sink.lastEntry();
+        if (entry && typeof entry.hash === 'string') {
+          return { hash: entry.hash, sequence: typeof entry.sequence === 'number' ? entry.sequence : 0 };
+        }
+      } catch (error) {
+        console.error(`Failed to read last audit entry: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    return GENESIS_LINK;
+  }
+}
@@ -0,0 +1,154 @@
+// file: src/audit/query.ts
+// description: Filtering and cursor pagination of audit entries shared by the database connectors
+
+import { AuditEntry, AuditQuery, AuditQueryResult } from '../types/audit';
+
+/**
+ * Default number of entries returned per page
+ */
+export const DEFAULT_AUDIT_QUERY_LIMIT = 100;
+
+/**
+ * Position of an entry in the newest-first ordering
+ */
+export interface AuditCursor {
+  timestamp: string;
+  sequence: number;
+  id: string;
+}
+
+/**
+ * Encodes the position after which the next page starts
+ *
+ * @param entry Last entry of the current page
+ * @returns Opaque cursor string
+ */
+export function encodeAuditCursor(entry: AuditEntry): string {
+  return Buffer.from(JSON.stringify([entry.timestamp, entry.sequence, entry.id])).toString('base64url');
+}
+
+/**
+ * Decodes a cursor produced by encodeAuditCursor
+ *
+ * @param cursor Opaque cursor string
+ * @returns Position the cursor refers to
+ * @throws {Error} If the cursor is malformed
+ */
+export function decodeAuditCursor(cursor: string): AuditCursor {
+  try {
+    const [timestamp, sequence, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+
+    if (typeof timestamp === 'string' && Number.isInteger(sequence) && typeof id === 'string') {
+      return { timestamp, sequence, id };
+    }
+  } catch {
+    // Reported below
+  }
+
+  throw new Error(`Invalid audit cursor: ${cursor}`);
+}
+
+/**
+ * Normalizes a query time bound to an ISO 8601 string
+ *
+ * @param value Date or date string
+ * @returns ISO 8601 timestamp, or undefined when no bound is given
+ * @throws {Error} If the value is not a valid date
+ */
+export function toAuditTimestamp(value: Date | string | undefined): string | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const date = value instanceof Date ? value : new Date(value);
+
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid audit query date: ${String(value)}`);
+  }
+
+  return date.toISOString();
+}
+
+/**
+ * Resolves the page size of a query
+ *
+ * @param query Audit query
+ * @returns Positive page size
+ * @throws {Error} If the limit is not a positive integer
+ */
+export function getAuditQueryLimit(query: AuditQuery): number {
+  const limit = query.limit ?? DEFAULT_AUDIT_QUERY_LIMIT;
+
+  if (!Number.isInteger(limit) || limit <= 0) {
+    throw new Error(`Invalid audit query limit: ${limit}`);
+  }
+
+  return limit;
+}
+
+/**
+ * Filters, orders and pages audit entries held in memory
+ *
+ * Entries are returned newest first; `from` is inclusive and `to` exclusive.
+ *
+ * @param entries All stored entries
+ * @param query Filters and pagination
+ * @returns Page of matching entries
+ */
+export function queryAuditEntries(entries: AuditEntry[], query: AuditQuery): AuditQueryResult {
+  const from = toAuditTimestamp(query.from);
+  const to = toAuditTimestamp(query.to);
+  const cursor = query.cursor ? decodeAuditCursor(query.cursor) : null;
+  const limit = getAuditQueryLimit(query);
+
+  const matching = entries
+    .filter(entry =>
+      (query.userId === undefined || entry.subject === query.userId) &&
+      (query.resource === undefined || entry.resource === query.resource) &&
+      (query.action === undefined || entry.action === query.action) &&
+      (query.effect === undefined || entry.outcome === query.effect) &&
+      (from === undefined || entry.timestamp >= from) &&
+      (to === undefined || entry.timestamp < to) &&
+      (cursor === null || compareAuditEntries(entry, cursor) > 0)
+    )
+    .sort(compareAuditEntries);
+
+  return toAuditPage(matching.slice(0, limit + 1), limit);
+}
+
+/**
+ * Builds a result page from up to limit + 1 ordered entries
+ *
+ * @param entries Ordered entries, with one extra when another page follows
+ * @param limit Page size
+ * @returns Page of entries with the cursor for the next page
+ */
+export function toAuditPage(entries: AuditEntry[], limit: number): AuditQueryResult {
+  if (entries.length <= limit) {
+    return { entries };
+  }
+
+  const page = entries.slice(0, limit);
+
+  return { entries: page, nextCursor: encodeAuditCursor(page[page.length - 1]) };
+}
+
+/**
+ * Orders entries newest first, breaking timestamp ties by chain position and then
+ * by identifier
+ *
+ * @param a First entry or cursor position
+ * @param b Second entry or cursor position
+ * @returns Negative if a comes first, positive if b comes first
+ */
+function compareAuditEntries(a: AuditCursor, b: AuditCursor): number {
+  if (a.timestamp !== b.timestamp) {
+    return a.timestamp > b.timestamp ? -1 : 1;
+  }
+
+  if (a.sequence !== b.sequence) {
+    return b.sequence - a.sequence;
+  }
+
+  return a.id === b.id ? 0 : a.id > b.id ? -1 : 1;
+}
@@ -0,0 +1,249 @@
+// file: src/audit/sinks.ts
+// description: Built-in audit sinks writing to the console, rotating JSON Lines files, the database or a callback
+
+import { appendFile, mkdir, readFile, rename, stat, unlink } from 'fs/promises';
+import path from 'path';
+import { AuditSink } from '../interfaces/audit';
+import { AuditSinkConfig, FileAuditSinkConfig } from '../interfaces/config';
+import { DatabaseConnector } from '../interfaces/database';
+import { AuditEntry } from '../types/audit';
+
+/**
+ * Default size in bytes at which audit files are rotated
+ */
+const DEFAULT_MAX_SIZE = 10 * 1024 * 1024;
+
+/**
+ * Default number of rotated audit files to keep
+ */
+const DEFAULT_MAX_FILES = 5;
+
+/**
+ * Writes audit entries to the console as JSON, using the console method matching the entry level
+ */
+export class ConsoleAuditSink implements AuditSink {
+  /**
+   * Writes an audit entry
+   *
+   * @param entry Entry to write
+   */
+  public write(entry: AuditEntry): void {
+    console[entry.level](JSON.stringify(entry));
+  }
+}
+
+/**
+ * Appends audit entries to a JSON Lines file, rotating it once it reaches a size limit
+ *
+ * Rotated files are renamed with a numeric suffix (audit.log.1 is the most recent)
+ * and the oldest are deleted beyond the configured count.
+ */
+export class FileAuditSink implements AuditSink {
+  /**
+   * Current size of the active file, read on first write
+   */
+  private size: number | null = null;
+
+  /**
+   * Pending writes, serialized so entries keep their order
+   */
+  private queue: Promise<void> = Promise.resolve();
+
+  /**
+   * Creates a new FileAuditSink instance
+   *
+   * @param config File sink configuration
+   */
+  constructor(private config: Omit<FileAuditSinkConfig, 'type'>) {}
+
+  /**
+   * Writes an audit entry
+   *
+   * @param entry Entry to write
+   * @returns Promise that resolves when the entry is appended
+   */
+  public write(entry: AuditEntry): Promise<void> {
+    const line = `${JSON.stringify(entry)}\n`;
+    const result = this.queue.then(() => this.append(line));
+
+    // A failed write must not block later ones
+    this.queue = result.catch(() => undefined);
+
+    return result;
+  }
+
+  /**
+   * Reads the last entry written to the active file, or to the most recent
+   * rotated file when the active one is empty
+   *
+   * @returns Promise resolving to the last entry or null if none was written
+   */
+  public async lastEntry(): Promise<AuditEntry | null> {
+    for (const file of [this.config.path, `${this.config.path}.1`]) {
+      const content = await readFile(file, 'utf-8').catch(() => '');
+      const lines = content.split('\n').filter(line => line.trim() !== '');
+
+      if (lines.length > 0) {
+        return JSON.parse(lines[lines.length - 1]);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Appends a line to the active file, rotating first if it would exceed the size limit
+   *
+   * @param line Serialized entry
+   */
+  private async append(line: string): Promise<void> {
+    if (this.size === null) {
+      await mkdir(path.dirname(this.config.path), { recursive: true });
+      this.size = await stat(this.config.path).then(stats => stats.size, () => 0);
+    }
+
+    const bytes = Buffer.byteLength(line);
+    const maxSize = this.config.maxSize ?? DEFAULT_MAX_SIZE;
+
+    if (this.size > 0 && this.size + bytes > maxSize) {
+      await this.rotate();
+      this.size = 0;
+    }
+
+    await appendFile(this.config.path, line);
+    this.size += bytes;
+  }
+
+  /**
+   * Shifts rotated files up by one and moves the active file into the first slot
+   */
+  private async rotate(): Promise<void> {
+    const maxFiles = this.config.maxFiles ?? DEFAULT_MAX_FILES;
+    const rotated = (index: number): string => `${this.config.path}.${index}`;
+
+    await unlink(rotated(maxFiles)).catch(ignoreMissing);
+
+    for (let index = maxFiles - 1; index >= 1; index--) {
+      await rename(rotated(index), rotated(index + 1)).catch(ignoreMissing);
+    }
+
+    if (maxFiles > 0) {
+      await rename(this.config.path, rotated(1));
+    } else {
+      await unlink(this.config.path).catch(ignoreMissing);
+    }
+  }
+}
+
+/**
+ * Stores audit entries through the database connector, making them searchable
+ * with AuditLogger.query
+ */
+export class DatabaseAuditSink implements AuditSink {
+  /**
+   * Creates a new DatabaseAuditSink instance
+   *
+   * @param connector Connector providing audit storage
+   * @throws {Error} If the connector does not support audit storage
+   */
+  constructor(private connector: DatabaseConnector) {
+    if (!supportsAuditStorage(connector)) {
+      throw new Error('The configured database does not support audit storage');
+    }
+  }
+
+  /**
+   * Writes an audit entry
+   *
+   * @param entry Entry to write
+   * @returns Promise that resolves when the entry is stored
+   */
+  public write(entry: AuditEntry): Promise<void> {
+    return this.connector.saveAuditEntry!(entry);
+  }
+
+  /**
+   * Reads the most recently stored entry
+   *
+   * Entries sharing a timestamp are ordered by their position in the chain, so the
+   * chain resumes from the entry written last.
+   *
+   * @returns Promise resolving to the last entry or null if none was stored
+   */
+  public async lastEntry(): Promise<AuditEntry | null> {
+    const { entries } = await this.connector.queryAuditEntries!({ limit: 1 });
+
+    return entries[0] ?? null;
+  }
+}
+
+/**
+ * Passes audit entries to a custom callback
+ */
+export class CallbackAuditSink implements AuditSink {
+  /**
+   * Creates a new CallbackAuditSink instance
+   *
+   * @param callback Function receiving each audit entry
+   */
+  constructor(private callback: (entry: AuditEntry) => Promise<void> | void) {}
+
+  /**
+   * Writes an audit entry
+   *
+   * @param entry Entry to write
+   * @returns Result of the callback
+   */
+  public write(entry: AuditEntry): Promise<void> | void {
+    return this.callback(entry);
+  }
+}
+
+/**
+ * Checks whether a connector can store and search audit entries
+ *
+ * @param connector Database connector
+ * @returns Boolean indicating if the audit storage methods are implemented
+ */
+export function supportsAuditStorage(connector: DatabaseConnector): boolean {
+  return typeof connector.saveAuditEntry === 'function' &&
+    typeof connector.queryAuditEntries === 'function';
+}
+
+/**
+ * Creates the audit sinks described by the configuration
+ *
+ * @param configs Sink configurations
+ * @param connector Database connector used by database sinks
+ * @returns Instantiated sinks
+ * @throws {Error} If a database sink is configured without a connector supporting audit storage
+ */
+export function createAuditSinks(configs: AuditSinkConfig[], connector?: DatabaseConnector): AuditSink[] {
+  return configs.map(config => {
+    switch (config.type) {
+      case 'console':
+        return new ConsoleAuditSink();
+      case 'file':
+        return new FileAuditSink(config);
+      case 'database':
+        if (!connector) {
+          throw new Error('A database audit sink requires a database connector');
+        }
+        return new DatabaseAuditSink(connector);
+      default:
+        throw new Error(`Unknown audit sink type: ${(config as { type: string }).type}`);
+    }
+  });
+}
+
+/**
+ * Ignores errors caused by a file that does not exist
+ *
+ * @param error Error raised by a file system call
+ * @throws {Error} Any other error
+ */
+function ignoreMissing(error: NodeJS.ErrnoException): void {
+  if (error.code !== 'ENOENT') {
+    throw error;
+  }
+}
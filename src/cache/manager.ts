@@ -4,6 +4,7 @@
 import { CacheConfig } from '../interfaces/config';
 import { RoleId } from '../types/role';
 import { AttributeValues } from '../types/attribute';
+import { AuthorizationResult } from '../types/decision';
 
 /**
  * CacheManager provides an in-memory caching mechanism for HBAC
@@ -18,6 +19,12 @@ export class CacheManager {
    */
   private cache: Map<string, { value: any; expires: number }> = new Map();
 
+  /**
+   * Times after which a user's cached entries are stale, because a time-bound
+   * role assignment starts or expires, keyed by user
+   */
+  private userExpiry: Map<string, number> = new Map();
+
   /**
    * Creates a new CacheManager instance
    * 
@@ -61,7 +68,7 @@ export class CacheManager {
     if (!this.config.enabled) return;
 
     const ttl = customTtl ?? this.config.ttl;
-    const expires = Date.now() + (ttl * 1000);
+    const expires = Math.min(Date.now() + (ttl * 1000), this.getExpiryLimit(key));
 
     this.cache.set(key, { value, expires });
   }
@@ -86,10 +93,11 @@ export class CacheManager {
    * Retrieves cached user roles
    * 
    * @param userId Unique user identifier
+   * @param scope Optional scope the roles were resolved in
    * @returns Cached roles or null if not found
    */
-  public getUserRoles(userId: string): RoleId[] | null {
-    return this.get<RoleId[]>(`roles:${userId}`);
+  public getUserRoles(userId: string, scope?: string): RoleId[] | null {
+    return this.get<RoleId[]>(getRolesKey(userId, scope));
   }
 
   /**
@@ -97,9 +105,10 @@ export class CacheManager {
    * 
    * @param userId Unique user identifier
    * @param roles Array of role identifiers to cache
+   * @param scope Optional scope the roles were resolved in
    */
-  public setUserRoles(userId: string, roles: RoleId[]): void {
-    this.set(`roles:${userId}`, roles);
+  public setUserRoles(userId: string, roles: RoleId[], scope?: string): void {
+    this.set(getRolesKey(userId, scope), roles);
   }
 
   /**
@@ -142,21 +151,118 @@ export class CacheManager {
     this.set(`decision:${key}`, allowed);
   }
 
+  /**
+   * Retrieves a cached authorization result
+   * 
+   * @param key Unique decision cache key
+   * @returns Cached result or null if not found
+   */
+  public getAuthorization(key: string): AuthorizationResult | null {
+    return this.get<AuthorizationResult>(`authorization:${key}`);
+  }
+
+  /**
+   * Caches an authorization result
+   * 
+   * @param key Unique decision cache key
+   * @param result Decision with its obligations and advice
+   */
+  public setAuthorization(key: string, result: AuthorizationResult): void {
+    this.set(`authorization:${key}`, result);
+  }
+
+  /**
+   * Keeps a user's cached entries, including ones cached later, from outliving a point in time
+   * 
+   * Used when a time-bound role assignment starts or expires before the cache TTL runs out.
+   * 
+   * @param userId Unique user identifier
+   * @param time Time after which the user's entries are stale
+   */
+  public expireUserAt(userId: string, time: Date): void {
+    const expires = Math.min(time.getTime(), this.userExpiry.get(userId) ?? Infinity);
+
+    this.userExpiry.set(userId, expires);
+
+    for (const [key, item] of this.cache) {
+      if (isUserKey(key, userId) && item.expires > expires) {
+        item.expires = expires;
+      }
+    }
+  }
+
   /**
    * Invalidates all cached data for a specific user
    * 
    * @param userId Unique user identifier
    */
   public invalidateUser(userId: string): void {
-    // Remove roles and attributes
-    this.delete(`roles:${userId}`);
-    this.delete(`attributes:${userId}`);
-    
-    // Remove all permission decisions for this user
+    this.userExpiry.delete(userId);
+
+    // Remove roles, attributes, permission decisions and authorization results for this user
     for (const key of this.cache.keys()) {
-      if (key.startsWith(`decision:${userId}:`)) {
+      if (isUserKey(key, userId)) {
         this.delete(key);
       }
     }
   }
+
+  /**
+   * Invalidates the cached permission decisions and authorization results of every user
+   * 
+   * Used when shared data changes, such as relationships that decisions of many users may depend on.
+   */
+  public invalidateDecisions(): void {
+    for (const key of this.cache.keys()) {
+      if (key.startsWith('decision:') || key.startsWith('authorization:')) {
+        this.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Finds the latest time an entry may be cached until, given the expiry set for its user
+   * 
+   * @param key Unique cache key
+   * @returns Expiry limit in milliseconds, or Infinity when none applies
+   */
+  private getExpiryLimit(key: string): number {
+    let limit = Infinity;
+
+    for (const [userId, expires] of this.userExpiry) {
+      if (expires <= Date.now()) {
+        this.userExpiry.delete(userId);
+      } else if (isUserKey(key, userId)) {
+        limit = Math.min(limit, expires);
+      }
+    }
+
+    return limit;
+  }
+}
+
+/**
+ * Builds the cache key of a user's roles
+ * 
+ * @param userId Unique user identifier
+ * @param scope Optional scope the roles were resolved in
+ * @returns Roles cache key
+ */
+function getRolesKey(userId: string, scope?: string): string {
+  return scope === undefined ? `roles:${userId}` : `roles:${userId}:${JSON.stringify(scope)}`;
+}
+
+/**
+ * Checks whether a cache key holds data of a user
+ * 
+ * @param key Unique cache key
+ * @param userId Unique user identifier
+ * @returns Boolean indicating if the entry belongs to the user
+ */
+function isUserKey(key: string, userId: string): boolean {
+  return key === `roles:${userId}` ||
+    key === `attributes:${userId}` ||
+    key.startsWith(`roles:${userId}:`) ||
+    key.startsWith(`decision:${userId}:`) ||
+    key.startsWith(`authorization:${userId}:`);
 }
\ No newline at end of file
@@ -2,7 +2,31 @@
 // description: Configuration validator for checking HBAC configuration integrity and completeness
 
 import { HBACConfig } from '../interfaces/config';
-import { Role, Attribute } from '../types';
+import { Role, Attribute, PolicyCondition, PolicyRule, PolicySet, PolicyMember } from '../types';
+import {
+  isLogicalOperator,
+  isPredicateOperator,
+  isReference,
+  LOGICAL_ARRAY_OPERATORS,
+  RELATION_OPERATOR
+} from '../attribute/operators';
+import { parseCidr } from '../attribute/ip';
+import { isValidPattern, parsePermission } from '../role/pattern';
+import { isPolicySet } from '../policy/engine';
+import { PolicyEvaluationType } from '../types/config';
+
+/**
+ * Supported policy combining algorithms
+ */
+const POLICY_EVALUATION_TYPES: PolicyEvaluationType[] = [
+  'firstApplicable',
+  'allApplicable',
+  'denyOverrides',
+  'permitOverrides',
+  'denyUnlessPermit',
+  'permitUnlessDeny',
+  'onlyOneApplicable'
+];
 
 /**
  * Validates the HBAC configuration for structural integrity and required fields
@@ -17,11 +41,26 @@ export function validateConfig(config: HBACConfig): void {
   // Validate roles
   validateRoles(config);
 
+  // Validate separation-of-duties constraints
+  validateSeparationOfDuties(config);
+
   // Validate attributes
   validateAttributes(config);
 
+  // Validate relation rewrite rules
+  validateRelations(config);
+
   // Validate policy rules
   validatePolicyRules(config);
+
+  // Validate policy sets
+  validatePolicySets(config);
+
+  // Validate evaluation environment
+  validateEnvironment(config);
+
+  // Validate audit settings
+  validateAudit(config);
 }
 
 /**
@@ -46,6 +85,21 @@ function validateTopLevelFields(config: HBACConfig): void {
   if (!config.database.type) {
     throw new Error('Database configuration must specify a type');
   }
+
+  // Validate combining algorithm and evaluation mode
+  const { evaluation, mode, ownerAttribute } = config.policies;
+  if (!POLICY_EVALUATION_TYPES.includes(evaluation)) {
+    throw new Error(`Invalid policy evaluation type: ${String(evaluation)}`);
+  }
+
+  if (mode !== undefined && !['roleGated', 'policyFirst'].includes(mode)) {
+    throw new Error(`Invalid policy evaluation mode: ${String(mode)}`);
+  }
+
+  // Validate ownership attribute path
+  if (ownerAttribute !== undefined && (typeof ownerAttribute !== 'string' || !isReference(ownerAttribute))) {
+    throw new Error(`Invalid policy owner attribute: ${String(ownerAttribute)}`);
+  }
 }
 
 /**
@@ -66,17 +120,114 @@ function validateRoles(config: HBACConfig): void {
       throw new Error(`Role "${roleName}" must have a unique identifier`);
     }
 
-    if (!Array.isArray(typedRole.permissions) || typedRole.permissions.length === 0) {
+    if (typedRole.inherits !== undefined && !Array.isArray(typedRole.inherits)) {
+      throw new Error(`Role "${roleName}" inherits must be an array of role identifiers`);
+    }
+
+    // A role that inherits from others may add no permissions of its own
+    const inheritsRoles = Array.isArray(typedRole.inherits) && typedRole.inherits.length > 0;
+    if (!Array.isArray(typedRole.permissions) || (typedRole.permissions.length === 0 && !inheritsRoles)) {
       throw new Error(`Role "${roleName}" must have at least one permission`);
     }
 
     // Validate permission format
     typedRole.permissions.forEach(permission => {
-      if (!/^(\*|[\w-]+):(\*|[\w-]+)(:own)?$/.test(permission)) {
+      if (!parsePermission(permission)) {
         throw new Error(`Invalid permission format: ${permission}`);
       }
     });
   });
+
+  validateRoleHierarchy(config);
+}
+
+/**
+ * Validates role inheritance, rejecting unknown parent roles and cycles
+ * 
+ * @param config Configuration to validate
+ */
+function validateRoleHierarchy(config: HBACConfig): void {
+  const roles = new Map<string, Role>();
+  Object.values(config.roles).forEach(role => roles.set(role.id, role));
+
+  Object.entries(config.roles).forEach(([roleName, role]) => {
+    (role.inherits || []).forEach(parentId => {
+      if (!roles.has(parentId)) {
+        throw new Error(`Role "${roleName}" inherits from unknown role: ${parentId}`);
+      }
+    });
+  });
+
+  // Depth-first search; a role reached again while still on the path closes a cycle
+  const visited = new Set<string>();
+  const path: string[] = [];
+
+  const visit = (roleId: string): void => {
+    const index = path.indexOf(roleId);
+    if (index !== -1) {
+      throw new Error(`Role inheritance cycle detected: ${[...path.slice(index), roleId].join(' -> ')}`);
+    }
+
+    if (visited.has(roleId)) {
+      return;
+    }
+
+    path.push(roleId);
+    (roles.get(roleId)!.inherits || []).forEach(visit);
+    path.pop();
+    visited.add(roleId);
+  };
+
+  roles.forEach((_, roleId) => visit(roleId));
+}
+
+/**
+ * Validates separation-of-duties constraints, rejecting unknown roles and unsatisfiable limits
+ * 
+ * @param config Configuration to validate
+ */
+function validateSeparationOfDuties(config: HBACConfig): void {
+  if (config.separationOfDuties === undefined) {
+    return;
+  }
+
+  if (!Array.isArray(config.separationOfDuties)) {
+    throw new Error('Separation-of-duties constraints must be an array');
+  }
+
+  const roleIds = new Set(Object.values(config.roles).map(role => role.id));
+  const ids = new Set<string>();
+
+  config.separationOfDuties.forEach(constraint => {
+    if (!constraint.id) {
+      throw new Error('Each separation-of-duties constraint must have a unique identifier');
+    }
+
+    if (ids.has(constraint.id)) {
+      throw new Error(`Duplicate separation-of-duties constraint: ${constraint.id}`);
+    }
+    ids.add(constraint.id);
+
+    if (!['static', 'dynamic'].includes(constraint.type)) {
+      throw new Error(`Invalid type for separation-of-duties constraint "${constraint.id}": ${String(constraint.type)}`);
+    }
+
+    if (!Array.isArray(constraint.roles) || new Set(constraint.roles).size < 2 || new Set(constraint.roles).size !== constraint.roles.length) {
+      throw new Error(`Separation-of-duties constraint "${constraint.id}" must list at least two distinct roles`);
+    }
+
+    constraint.roles.forEach(roleId => {
+      if (!roleIds.has(roleId)) {
+        throw new Error(`Separation-of-duties constraint "${constraint.id}" references unknown role: ${roleId}`);
+      }
+    });
+
+    // A limit of all the roles or more could never be exceeded
+    const { maxRoles } = constraint;
+    if (maxRoles !== undefined && !(Number.isInteger(maxRoles) && maxRoles >= 1 && maxRoles < constraint.roles.length)) {
+      throw new Error(`Invalid maxRoles for separation-of-duties constraint "${constraint.id}": ${maxRoles}`);
+    }
+  });
 }
 
 /**
@@ -108,38 +259,560 @@ function validateAttributes(config: HBACConfig): void {
 }
 
 /**
- * Validates policy rule configurations
+ * Validates relation rewrite rules, rejecting malformed rules and cycles between unions
  * 
  * @param config Configuration to validate
  */
-function validatePolicyRules(config: HBACConfig): void {
-  if (config.policyRules) {
-    config.policyRules.forEach(rule => {
-      if (!rule.id) {
-        throw new Error('Each policy rule must have a unique identifier');
+function validateRelations(config: HBACConfig): void {
+  if (config.relations === undefined) {
+    return;
+  }
+
+  if (!isPlainObject(config.relations)) {
+    throw new Error('Relation rules must map object types to relations');
+  }
+
+  Object.entries(config.relations).forEach(([objectType, relations]) => {
+    if (!isPlainObject(relations)) {
+      throw new Error(`Relation rules for "${objectType}" must map relation names to rules`);
+    }
+
+    Object.entries(relations).forEach(([relation, rule]) => {
+      const name = `${objectType}#${relation}`;
+
+      if (!isPlainObject(rule)) {
+        throw new Error(`Relation rule "${name}" must be an object`);
+      }
+
+      if (rule.union !== undefined && (!Array.isArray(rule.union) || rule.union.some(other => typeof other !== 'string' || other === ''))) {
+        throw new Error(`Relation rule "${name}" union must be an array of relation names`);
       }
 
-      if (!rule.resource) {
-        throw new Error(`Policy rule "${rule.id}" must specify a resource`);
+      if (rule.parent !== undefined && (typeof rule.parent !== 'string' || rule.parent === '')) {
+        throw new Error(`Relation rule "${name}" parent must be a relation name`);
       }
+    });
 
-      if (!rule.action) {
-        throw new Error(`Policy rule "${rule.id}" must specify an action`);
+    // Depth-first search over unions; a relation reached again while still on the path closes a cycle
+    const visited = new Set<string>();
+    const path: string[] = [];
+
+    const visit = (relation: string): void => {
+      const index = path.indexOf(relation);
+      if (index !== -1) {
+        throw new Error(`Relation union cycle detected for "${objectType}": ${[...path.slice(index), relation].join(' -> ')}`);
       }
 
-      if (!rule.effect) {
-        throw new Error(`Policy rule "${rule.id}" must specify an effect`);
+      if (visited.has(relation)) {
+        return;
       }
 
-      // Validate effect
-      if (!['allow', 'deny'].includes(rule.effect)) {
-        throw new Error(`Invalid effect for policy rule "${rule.id}": ${rule.effect}`);
+      path.push(relation);
+      (relations[relation]?.union || []).forEach(visit);
+      path.pop();
+      visited.add(relation);
+    };
+
+    Object.keys(relations).forEach(visit);
+  });
+}
+
+/**
+ * Validates policy rule configurations
+ * 
+ * @param config Configuration to validate
+ */
+function validatePolicyRules(config: HBACConfig): void {
+  if (config.policyRules) {
+    config.policyRules.forEach(validatePolicyRule);
+
+    // Decisions and explanations refer to rules by identifier
+    const ids = new Set<string>();
+
+    for (const rule of config.policyRules) {
+      if (ids.has(rule.id)) {
+        throw new Error(`Duplicate policy identifier: ${rule.id}`);
       }
+      ids.add(rule.id);
+    }
+
+    if (config.policies.evaluation === 'firstApplicable') {
+      warnOnPriorityTies(config.policyRules);
+    }
+  }
+}
+
+/**
+ * Validates a single policy rule
+ * 
+ * @param rule Policy rule to validate
+ */
+function validatePolicyRule(rule: PolicyRule): void {
+  if (!rule.id) {
+    throw new Error('Each policy rule must have a unique identifier');
+  }
+
+  if (!rule.resource) {
+    throw new Error(`Policy rule "${rule.id}" must specify a resource`);
+  }
+
+  if (!rule.action) {
+    throw new Error(`Policy rule "${rule.id}" must specify an action`);
+  }
+
+  if (!isValidPattern(rule.resource)) {
+    throw new Error(`Invalid resource pattern for policy rule "${rule.id}": ${rule.resource}`);
+  }
+
+  if (!isValidPattern(rule.action)) {
+    throw new Error(`Invalid action pattern for policy rule "${rule.id}": ${rule.action}`);
+  }
+
+  if (!rule.effect) {
+    throw new Error(`Policy rule "${rule.id}" must specify an effect`);
+  }
+
+  // Validate effect
+  if (!['allow', 'deny'].includes(rule.effect)) {
+    throw new Error(`Invalid effect for policy rule "${rule.id}": ${rule.effect}`);
+  }
+
+  // Validate condition
+  if (!rule.condition || typeof rule.condition !== 'object') {
+    throw new Error(`Policy rule "${rule.id}" must have a valid condition object`);
+  }
+
+  // Validate priority
+  if (rule.priority !== undefined && !isValidPriority(rule.priority)) {
+    throw new Error(`Invalid priority for policy rule "${rule.id}": ${rule.priority}`);
+  }
+
+  // Validate obligations and advice
+  for (const kind of ['obligations', 'advice'] as const) {
+    const items = rule[kind];
+
+    if (items === undefined) {
+      continue;
+    }
+
+    if (!Array.isArray(items) || items.some(item => !item || typeof item.id !== 'string' || item.id === '')) {
+      throw new Error(`Invalid ${kind} for policy rule "${rule.id}": each entry must have an id`);
+    }
+  }
+
+  validateCondition(rule.condition, rule.id);
+}
+
+/**
+ * Validates policy set configurations, including their nested rules and sets
+ * 
+ * @param config Configuration to validate
+ */
+function validatePolicySets(config: HBACConfig): void {
+  if (config.policySets === undefined) {
+    return;
+  }
+
+  if (!Array.isArray(config.policySets)) {
+    throw new Error('Policy sets must be an array');
+  }
+
+  // Rules and sets share one identifier space, since explanations refer to both
+  const ids = new Set<string>();
+  const register = (id: string): void => {
+    if (ids.has(id)) {
+      throw new Error(`Duplicate policy identifier: ${id}`);
+    }
+    ids.add(id);
+  };
+
+  (config.policyRules || []).forEach(rule => register(rule.id));
+
+  const validateSet = (set: PolicySet): void => {
+    if (!set.id) {
+      throw new Error('Each policy set must have a unique identifier');
+    }
+
+    register(set.id);
+
+    if (set.resource !== undefined && !isValidPattern(set.resource)) {
+      throw new Error(`Invalid resource pattern for policy set "${set.id}": ${set.resource}`);
+    }
+
+    if (set.action !== undefined && !isValidPattern(set.action)) {
+      throw new Error(`Invalid action pattern for policy set "${set.id}": ${set.action}`);
+    }
+
+    if (!POLICY_EVALUATION_TYPES.includes(set.evaluation)) {
+      throw new Error(`Invalid evaluation type for policy set "${set.id}": ${String(set.evaluation)}`);
+    }
+
+    if (set.priority !== undefined && !isValidPriority(set.priority)) {
+      throw new Error(`Invalid priority for policy set "${set.id}": ${set.priority}`);
+    }
+
+    if (!Array.isArray(set.policies) || set.policies.length === 0) {
+      throw new Error(`Policy set "${set.id}" must contain at least one policy`);
+    }
 
-      // Validate condition
-      if (!rule.condition || typeof rule.condition !== 'object') {
-        throw new Error(`Policy rule "${rule.id}" must have a valid condition object`);
+    set.policies.forEach(member => {
+      if (isPolicySet(member)) {
+        validateSet(member);
+      } else {
+        validatePolicyRule(member);
+        register(member.id);
       }
     });
+
+    if (set.evaluation === 'firstApplicable') {
+      warnOnPriorityTies(set.policies);
+    }
+  };
+
+  config.policySets.forEach(validateSet);
+}
+
+/**
+ * Checks whether a priority is a finite number
+ * 
+ * @param priority Priority to check
+ * @returns Boolean indicating if the priority is valid
+ */
+function isValidPriority(priority: unknown): boolean {
+  return typeof priority === 'number' && isFinite(priority);
+}
+
+/**
+ * Warns about rules for the same resource and action that declare the same priority,
+ * since firstApplicable then depends on their order in the configuration
+ * 
+ * @param members Sibling rules and sets to check
+ */
+function warnOnPriorityTies(members: PolicyMember[]): void {
+  const seen = new Map<string, string>();
+
+  members.forEach(rule => {
+    if (isPolicySet(rule) || rule.priority === undefined) {
+      return;
+    }
+
+    const key = JSON.stringify([rule.resource, rule.action, rule.priority]);
+    const other = seen.get(key);
+
+    if (other) {
+      console.warn(
+        `Policy rules "${other}" and "${rule.id}" for ${rule.resource}:${rule.action} share priority ${rule.priority}; ` +
+        'firstApplicable will use their configured order'
+      );
+    } else {
+      seen.set(key, rule.id);
+    }
+  });
+}
+
+/**
+ * Validates the operators used in a policy condition
+ * 
+ * @param condition Condition to validate
+ * @param ruleId Identifier of the policy rule owning the condition
+ */
+function validateCondition(condition: PolicyCondition, ruleId: string): void {
+  Object.entries(condition).forEach(([key, value]) => {
+    if (key.startsWith('$') && !isLogicalOperator(key) && key !== RELATION_OPERATOR && !key.startsWith('$user.')) {
+      throw new Error(`Unknown condition operator ${key} in policy rule "${ruleId}"`);
+    }
+
+    if (key === RELATION_OPERATOR) {
+      validateRelatedOperand(value, ruleId);
+      return;
+    }
+
+    if (isLogicalOperator(key)) {
+      validateLogicalOperand(key, value, ruleId, nested => {
+        if (!isPlainObject(nested)) {
+          throw new Error(`Operator ${key} in policy rule "${ruleId}" must contain condition objects`);
+        }
+        validateCondition(nested, ruleId);
+      });
+      return;
+    }
+
+    validatePredicate(value, ruleId);
+  });
+}
+
+/**
+ * Validates the operand of a $related condition
+ * 
+ * @param operand Relation name, or object with relation and optional object and subject
+ * @param ruleId Identifier of the policy rule owning the condition
+ */
+function validateRelatedOperand(operand: unknown, ruleId: string): void {
+  const condition = typeof operand === 'string' ? { relation: operand } : operand;
+  const isOptionalString = (value: unknown): boolean => value === undefined || (typeof value === 'string' && value !== '');
+
+  if (
+    !isPlainObject(condition) ||
+    typeof condition.relation !== 'string' ||
+    condition.relation === '' ||
+    !isOptionalString(condition.object) ||
+    !isOptionalString(condition.subject)
+  ) {
+    throw new Error(`Operator ${RELATION_OPERATOR} in policy rule "${ruleId}" must name a relation, with optional object and subject strings`);
+  }
+}
+
+/**
+ * Validates the operators used in a condition predicate
+ * 
+ * @param predicate Predicate to validate
+ * @param ruleId Identifier of the policy rule owning the predicate
+ */
+function validatePredicate(predicate: unknown, ruleId: string): void {
+  if (!isPlainObject(predicate)) {
+    return;
+  }
+
+  Object.entries(predicate).forEach(([operator, operand]) => {
+    if (!isPredicateOperator(operator)) {
+      throw new Error(`Unknown predicate operator ${operator} in policy rule "${ruleId}"`);
+    }
+
+    if (isLogicalOperator(operator)) {
+      validateLogicalOperand(operator, operand, ruleId, nested => validatePredicate(nested, ruleId));
+      return;
+    }
+
+    switch (operator) {
+      case '$regex':
+        validateRegex(operand, predicate.$options, ruleId);
+        break;
+      case '$options':
+        if (predicate.$regex === undefined) {
+          throw new Error(`Operator $options in policy rule "${ruleId}" requires $regex`);
+        }
+        break;
+      case '$elemMatch':
+        validateElemMatch(operand, ruleId);
+        break;
+      case '$before':
+      case '$after':
+        validateTimeOperand(operator, operand, ruleId);
+        break;
+      case '$ipInRange':
+      case '$cidr':
+        validateCidrList(operator, operand, ruleId);
+        break;
+      case '$between':
+        if (!Array.isArray(operand) || operand.length !== 2) {
+          throw new Error(`Operator $between in policy rule "${ruleId}" must be a [start, end] array`);
+        }
+        operand.forEach(bound => validateTimeOperand(operator, bound, ruleId));
+        break;
+    }
+  });
+}
+
+/**
+ * Validates a $regex pattern and its flags
+ * 
+ * @param pattern Regular expression source
+ * @param flags Optional regular expression flags
+ * @param ruleId Identifier of the policy rule owning the pattern
+ */
+function validateRegex(pattern: unknown, flags: unknown, ruleId: string): void {
+  if (typeof pattern !== 'string') {
+    throw new Error(`Operator $regex in policy rule "${ruleId}" must be a string`);
+  }
+
+  if (flags !== undefined && typeof flags !== 'string') {
+    throw new Error(`Operator $options in policy rule "${ruleId}" must be a string`);
+  }
+
+  try {
+    new RegExp(pattern, flags);
+  } catch (error) {
+    throw new Error(
+      `Invalid $regex in policy rule "${ruleId}": ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Validates a date operand given as an ISO string, epoch milliseconds or a reference
+ * 
+ * @param operator Temporal operator being validated
+ * @param operand Operand of the operator
+ * @param ruleId Identifier of the policy rule owning the operator
+ */
+function validateTimeOperand(operator: string, operand: unknown, ruleId: string): void {
+  if (typeof operand === 'number' || isReference(operand)) {
+    return;
+  }
+
+  if (typeof operand !== 'string' || Number.isNaN(Date.parse(operand))) {
+    throw new Error(
+      `Operator ${operator} in policy rule "${ruleId}" must be a date string, epoch number or reference`
+    );
+  }
+}
+
+/**
+ * Validates a CIDR range or list of ranges
+ * 
+ * @param operator IP operator being validated
+ * @param operand Operand of the operator
+ * @param ruleId Identifier of the policy rule owning the operator
+ */
+function validateCidrList(operator: string, operand: unknown, ruleId: string): void {
+  if (isReference(operand)) {
+    return;
+  }
+
+  const ranges = Array.isArray(operand) ? operand : [operand];
+
+  if (ranges.length === 0) {
+    throw new Error(`Operator ${operator} in policy rule "${ruleId}" must list at least one range`);
+  }
+
+  ranges.forEach(range => {
+    if (typeof range !== 'string' || !parseCidr(range)) {
+      throw new Error(`Invalid CIDR range for ${operator} in policy rule "${ruleId}": ${String(range)}`);
+    }
+  });
+}
+
+/**
+ * Validates an $elemMatch query
+ * 
+ * @param query Element predicate or field query
+ * @param ruleId Identifier of the policy rule owning the query
+ */
+function validateElemMatch(query: unknown, ruleId: string): void {
+  if (!isPlainObject(query)) {
+    throw new Error(`Operator $elemMatch in policy rule "${ruleId}" must be an object`);
+  }
+
+  const keys = Object.keys(query);
+
+  if (keys.every(key => key.startsWith('$'))) {
+    validatePredicate(query, ruleId);
+    return;
+  }
+
+  // Field query: each field maps to its own predicate
+  keys.forEach(key => validatePredicate(query[key], ruleId));
+}
+
+/**
+ * Validates the operand of a logical operator
+ * 
+ * @param operator Logical operator being validated
+ * @param operand Operand of the operator
+ * @param ruleId Identifier of the policy rule owning the operator
+ * @param validateNested Validator applied to each nested operand
+ */
+function validateLogicalOperand(
+  operator: string,
+  operand: unknown,
+  ruleId: string,
+  validateNested: (nested: any) => void
+): void {
+  if ((LOGICAL_ARRAY_OPERATORS as string[]).includes(operator)) {
+    if (!Array.isArray(operand) || operand.length === 0) {
+      throw new Error(`Operator ${operator} in policy rule "${ruleId}" must be a non-empty array`);
+    }
+    operand.forEach(validateNested);
+    return;
+  }
+
+  // $not takes a single nested operand
+  if (operand === undefined || operand === null || Array.isArray(operand)) {
+    throw new Error(`Operator ${operator} in policy rule "${ruleId}" must not be an array or empty`);
+  }
+  validateNested(operand);
+}
+
+/**
+ * Checks whether a value is a plain (non-array) object
+ * 
+ * @param value Value to check
+ * @returns Boolean indicating if the value is a plain object
+ */
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validates evaluation environment configuration
+ * 
+ * @param config Configuration to validate
+ */
+function validateEnvironment(config: HBACConfig): void {
+  const timezone = config.environment?.timezone;
+
+  if (timezone === undefined) {
+    return;
+  }
+
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+  } catch {
+    throw new Error(`Invalid environment timezone: ${timezone}`);
+  }
+}
+
+/**
+ * Validates audit configuration
+ * 
+ * @param config Configuration to validate
+ */
+function validateAudit(config: HBACConfig): void {
+  if (!config.audit) {
+    return;
+  }
+
+  const { level, sinks, hmacKey, retentionDays } = config.audit;
+
+  if (!['error', 'warn', 'info', 'debug'].includes(level)) {
+    throw new Error(`Invalid audit level: ${level}`);
+  }
+
+  if (hmacKey !== undefined && (typeof hmacKey !== 'string' || hmacKey === '')) {
+    throw new Error('Audit HMAC key must be a non-empty string');
   }
-}
\ No newline at end of file
+
+  if (retentionDays !== undefined && !(typeof retentionDays === 'number' && retentionDays > 0)) {
+    throw new Error(`Invalid audit retentionDays: ${retentionDays}`);
+  }
+
+  if (sinks === undefined) {
+    return;
+  }
+
+  if (!Array.isArray(sinks)) {
+    throw new Error('Audit sinks must be an array');
+  }
+
+  sinks.forEach(sink => {
+    if (sink.type === 'console' || sink.type === 'database') {
+      return;
+    }
+
+    if (sink.type !== 'file') {
+      throw new Error(`Unknown audit sink type: ${(sink as { type: string }).type}`);
+    }
+
+    if (typeof sink.path !== 'string' || sink.path === '') {
+      throw new Error('File audit sink must specify a path');
+    }
+
+    if (sink.maxSize !== undefined && !(Number.isInteger(sink.maxSize) && sink.maxSize > 0)) {
+      throw new Error(`Invalid audit file maxSize: ${sink.maxSize}`);
+    }
+
+    if (sink.maxFiles !== undefined && !(Number.isInteger(sink.maxFiles) && sink.maxFiles >= 0)) {
+      throw new Error(`Invalid audit file maxFiles: ${sink.maxFiles}`);
+    }
+  });
+}
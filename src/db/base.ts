@@ -2,9 +2,10 @@
 // description: Base abstract class for database connectors defining the common interface for all database implementations
 
 import { DatabaseConnector } from '../interfaces/database';
-import { RoleId } from '../types/role';
+import { RoleId, RoleValidity } from '../types/role';
 import { AttributeId, AttributeValue } from '../types/attribute';
 import { UserAccessMap } from '../types/database';
+import { findNextRoleChange } from '../role/assignment';
 
 /**
  * Abstract base class for database connectors
@@ -21,12 +22,13 @@ export abstract class BaseDatabaseConnector implements DatabaseConnector {
   public abstract initialize(): Promise<void>;
   
   /**
-   * Retrieves roles for a specific user
+   * Retrieves the active roles of a specific user
    * 
    * @param userId Unique identifier for the user
+   * @param scope Optional scope whose roles are added to the user's unscoped roles
    * @returns Promise resolving to an array of role identifiers
    */
-  public abstract getUserRoles(userId: string): Promise<RoleId[]>;
+  public abstract getUserRoles(userId: string, scope?: string): Promise<RoleId[]>;
   
   /**
    * Retrieves attributes for a specific user
@@ -41,18 +43,26 @@ export abstract class BaseDatabaseConnector implements DatabaseConnector {
    * 
    * @param userId Unique identifier for the user
    * @param roleId Identifier of the role to assign
+   * @param scope Optional scope the role applies in; unscoped roles apply in every scope
+   * @param validity Optional period the assignment is active
    * @throws {Error} If role assignment fails
    */
-  public abstract assignRole(userId: string, roleId: RoleId): Promise<void>;
+  public abstract assignRole(
+    userId: string,
+    roleId: RoleId,
+    scope?: string,
+    validity?: RoleValidity
+  ): Promise<void>;
   
   /**
    * Removes a role from a user
    * 
    * @param userId Unique identifier for the user
    * @param roleId Identifier of the role to remove
+   * @param scope Optional scope the role was assigned in
    * @throws {Error} If role removal fails
    */
-  public abstract removeRole(userId: string, roleId: RoleId): Promise<void>;
+  public abstract removeRole(userId: string, roleId: RoleId, scope?: string): Promise<void>;
   
   /**
    * Sets an attribute value for a user
@@ -75,4 +85,26 @@ export abstract class BaseDatabaseConnector implements DatabaseConnector {
    * @returns Promise resolving to the user's access map or null if not found
    */
   public abstract getUserAccessMap(userId: string): Promise<UserAccessMap | null>;
+
+  /**
+   * Deletes role assignments that have expired
+   * 
+   * @returns Promise resolving to the number of deleted assignments
+   */
+  public abstract purgeExpiredAssignments(): Promise<number>;
+
+  /**
+   * Finds when a user's roles next change because a time-bound assignment starts or expires
+   * 
+   * Reads the user's access map; connectors that can query assignments directly may override this.
+   * 
+   * @param userId Unique identifier for the user
+   * @param scope Optional scope whose assignments are considered too
+   * @returns Promise resolving to the time of the next change, or null if none is scheduled
+   */
+  public async getNextRoleChange(userId: string, scope?: string): Promise<Date | null> {
+    const record = await this.getUserAccessMap(userId);
+
+    return findNextRoleChange(record?.roleAssignments || [], scope);
+  }
 }
\ No newline at end of file
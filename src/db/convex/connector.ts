@@ -2,10 +2,12 @@
 // description: Convex database connector implementation for storing and retrieving user access information
 
 import { BaseDatabaseConnector } from '../base';
-import { RoleId } from '../../types/role';
+import { RoleId, RoleValidity } from '../../types/role';
 import { AttributeId, AttributeValue } from '../../types/attribute';
 import { UserAccessMap } from '../../types/database';
 import { DatabaseConfig } from '../../interfaces/config';
+import { RelationTuple, RelationTupleQuery } from '../../types/relation';
+import { Group, GroupId, GroupQuery } from '../../types/group';
 
 /**
  * A minimal interface for Convex client operations to avoid type errors
@@ -99,17 +101,18 @@ export class ConvexDatabaseConnector extends BaseDatabaseConnector {
   }
 
   /**
-   * Retrieves roles for a specific user
+   * Retrieves the active roles of a specific user
    * 
    * @param userId Unique user identifier
+   * @param scope Optional scope whose roles are added to the user's unscoped roles
    * @returns Promise resolving to an array of role identifiers
    */
-  public async getUserRoles(userId: string): Promise<RoleId[]> {
+  public async getUserRoles(userId: string, scope?: string): Promise<RoleId[]> {
     this.ensureInitialized();
     
     try {
       // We use the query name as any to satisfy TypeScript
-      const result = await this.client.query('hbac.getUserRoles' as any, { userId });
+      const result = await this.client.query('hbac.getUserRoles' as any, { userId, scope });
       return result || [];
     } catch (error) {
       console.error('Error getting user roles:', error);
@@ -140,12 +143,19 @@ export class ConvexDatabaseConnector extends BaseDatabaseConnector {
    * 
    * @param userId Unique user identifier
    * @param roleId Role identifier to assign
+   * @param scope Optional scope the role applies in
+   * @param validity Optional period the assignment is active
    */
-  public async assignRole(userId: string, roleId: RoleId): Promise<void> {
+  public async assignRole(
+    userId: string,
+    roleId: RoleId,
+    scope?: string,
+    validity: RoleValidity = {}
+  ): Promise<void> {
     this.ensureInitialized();
     
     try {
-      await this.client.mutation('hbac.assignRole' as any, { userId, roleId });
+      await this.client.mutation('hbac.assignRole' as any, { userId, roleId, scope, ...validity });
     } catch (error) {
       throw new Error(`Failed to assign role: ${error instanceof Error ? error.message : String(error)}`);
     }
@@ -156,17 +166,33 @@ export class ConvexDatabaseConnector extends BaseDatabaseConnector {
    * 
    * @param userId Unique user identifier
    * @param roleId Role identifier to remove
+   * @param scope Optional scope the role was assigned in
    */
-  public async removeRole(userId: string, roleId: RoleId): Promise<void> {
+  public async removeRole(userId: string, roleId: RoleId, scope?: string): Promise<void> {
     this.ensureInitialized();
     
     try {
-      await this.client.mutation('hbac.removeRole' as any, { userId, roleId });
+      await this.client.mutation('hbac.removeRole' as any, { userId, roleId, scope });
     } catch (error) {
       throw new Error(`Failed to remove role: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
+  /**
+   * Deletes role assignments that have expired
+   * 
+   * @returns Promise resolving to the number of deleted assignments
+   */
+  public async purgeExpiredAssignments(): Promise<number> {
+    this.ensureInitialized();
+    
+    try {
+      return await this.client.mutation('hbac.purgeExpiredAssignments' as any, {});
+    } catch (error) {
+      throw new Error(`Failed to purge expired role assignments: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
   /**
    * Sets an attribute value for a user
    * 
@@ -205,4 +231,127 @@ export class ConvexDatabaseConnector extends BaseDatabaseConnector {
       return null;
     }
   }
+
+  /**
+   * Retrieves the access maps of every stored user
+   * 
+   * @returns Promise resolving to all user access maps
+   */
+  public async listUserAccessMaps(): Promise<UserAccessMap[]> {
+    this.ensureInitialized();
+    
+    try {
+      return await this.client.query('hbac.listUserAccessMaps' as any, {});
+    } catch (error) {
+      throw new Error(`Failed to list user access maps: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Stores a relation tuple
+   * 
+   * @param tuple Tuple to store
+   */
+  public async writeRelationTuple(tuple: RelationTuple): Promise<void> {
+    this.ensureInitialized();
+    
+    try {
+      await this.client.mutation('hbac.writeRelationTuple' as any, { ...tuple });
+    } catch (error) {
+      throw new Error(`Failed to write relation tuple: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Deletes a relation tuple
+   * 
+   * @param tuple Tuple to delete
+   */
+  public async deleteRelationTuple(tuple: RelationTuple): Promise<void> {
+    this.ensureInitialized();
+    
+    try {
+      await this.client.mutation('hbac.deleteRelationTuple' as any, { ...tuple });
+    } catch (error) {
+      throw new Error(`Failed to delete relation tuple: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Reads the relation tuples matching a filter
+   * 
+   * @param query Filter with optional object, relation and subject
+   * @returns Promise resolving to the matching tuples
+   */
+  public async readRelationTuples(query: RelationTupleQuery): Promise<RelationTuple[]> {
+    this.ensureInitialized();
+    
+    try {
+      return await this.client.query('hbac.readRelationTuples' as any, { ...query });
+    } catch (error) {
+      throw new Error(`Failed to read relation tuples: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Gets a group
+   * 
+   * @param groupId Group identifier
+   * @returns Promise resolving to the group or null if not found
+   */
+  public async getGroup(groupId: GroupId): Promise<Group | null> {
+    this.ensureInitialized();
+    
+    try {
+      return await this.client.query('hbac.getGroup' as any, { groupId });
+    } catch (error) {
+      throw new Error(`Failed to get group: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Stores a group, replacing any stored group with the same identifier
+   * 
+   * @param group Group to store
+   */
+  public async saveGroup(group: Group): Promise<void> {
+    this.ensureInitialized();
+    
+    try {
+      await this.client.mutation('hbac.saveGroup' as any, { group });
+    } catch (error) {
+      throw new Error(`Failed to save group: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Deletes a group
+   * 
+   * @param groupId Group identifier
+   */
+  public async deleteGroup(groupId: GroupId): Promise<void> {
+    this.ensureInitialized();
+    
+    try {
+      await this.client.mutation('hbac.deleteGroup' as any, { groupId });
+    } catch (error) {
+      throw new Error(`Failed to delete group: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Finds the groups matching a filter
+   * 
+   * @param query Filter with an optional member and subgroup
+   * @returns Promise resolving to the matching groups
+   */
+  public async findGroups(query: GroupQuery): Promise<Group[]> {
+    this.ensureInitialized();
+    
+    try {
+      return await this.client.query('hbac.findGroups' as any, { ...query });
+    } catch (error) {
+      throw new Error(`Failed to find groups: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
 }
\ No newline at end of file
@@ -5,16 +5,33 @@ import { writeFile, readFile, access } from 'fs/promises';
 import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
 import { BaseDatabaseConnector } from '../base';
-import { RoleId } from '../../types/role';
+import { RoleId, RoleValidity } from '../../types/role';
 import { AttributeId, AttributeValue } from '../../types/attribute';
 import { UserAccessMap } from '../../types/database';
 import { DatabaseConfig } from '../../interfaces/config';
+import { AuditEntry, AuditQuery, AuditQueryResult } from '../../types/audit';
+import { RelationTuple, RelationTupleQuery } from '../../types/relation';
+import { Group, GroupId, GroupQuery } from '../../types/group';
+import { queryAuditEntries } from '../../audit/query';
+import { matchesTupleQuery, toRelationTuple } from '../../relation/tuple';
+import { matchesGroupQuery, toGroup } from '../../group/membership';
+import {
+  createAssignment,
+  isAssignmentExpired,
+  isPlainAssignment,
+  isSameAssignment,
+  resolveActiveRoles,
+  upsertAssignment
+} from '../../role/assignment';
 
 /**
  * Schema for the file-based database
  */
 interface DatabaseSchema {
   user_access_map: UserAccessMap[];
+  audit_log?: AuditEntry[];
+  relation_tuples?: RelationTuple[];
+  groups?: Group[];
 }
 
 /**
@@ -87,19 +104,20 @@ export class LowdbDatabaseConnector extends BaseDatabaseConnector {
   }
 
   /**
-   * Retrieves roles for a specific user
+   * Retrieves the active roles of a specific user
    * 
    * @param userId Unique user identifier
+   * @param scope Optional scope whose roles are added to the user's unscoped roles
    * @returns Array of role identifiers
    */
-  public async getUserRoles(userId: string): Promise<RoleId[]> {
+  public async getUserRoles(userId: string, scope?: string): Promise<RoleId[]> {
     await this.readDatabase();
     
     const record = this.data.user_access_map.find(
       entry => entry.userId === userId
     );
     
-    return record?.roleIds || [];
+    return resolveActiveRoles(record, scope);
   }
 
   /**
@@ -123,8 +141,15 @@ export class LowdbDatabaseConnector extends BaseDatabaseConnector {
    * 
    * @param userId Unique user identifier
    * @param roleId Role identifier to assign
+   * @param scope Optional scope the role applies in
+   * @param validity Optional period the assignment is active
    */
-  public async assignRole(userId: string, roleId: RoleId): Promise<void> {
+  public async assignRole(
+    userId: string,
+    roleId: RoleId,
+    scope?: string,
+    validity?: RoleValidity
+  ): Promise<void> {
     await this.readDatabase();
 
     // Find existing user record or create new one
@@ -137,15 +162,27 @@ export class LowdbDatabaseConnector extends BaseDatabaseConnector {
       record = {
         id: uuidv4(),
         userId,
-        roleIds: [roleId],
+        roleIds: [],
         attributes: {}
       };
       this.data.user_access_map.push(record);
-    } else {
+    }
+
+    if (isPlainAssignment(scope, validity)) {
       // Add role if not already present
       if (!record.roleIds.includes(roleId)) {
         record.roleIds.push(roleId);
       }
+    } else {
+      // An unscoped time-bound assignment replaces a permanent one
+      if (scope === undefined) {
+        record.roleIds = record.roleIds.filter(id => id !== roleId);
+      }
+
+      record.roleAssignments = upsertAssignment(
+        record.roleAssignments || [],
+        createAssignment(roleId, scope, validity)
+      );
     }
 
     // Write changes
@@ -157,8 +194,9 @@ export class LowdbDatabaseConnector extends BaseDatabaseConnector {
    * 
    * @param userId Unique user identifier
    * @param roleId Role identifier to remove
+   * @param scope Optional scope the role was assigned in
    */
-  public async removeRole(userId: string, roleId: RoleId): Promise<void> {
+  public async removeRole(userId: string, roleId: RoleId, scope?: string): Promise<void> {
     await this.readDatabase();
 
     // Find the user record
@@ -167,11 +205,18 @@ export class LowdbDatabaseConnector extends BaseDatabaseConnector {
     );
 
     if (userIndex !== -1) {
+      const record = this.data.user_access_map[userIndex];
+
       // Remove the specific role
-      this.data.user_access_map[userIndex].roleIds = 
-        this.data.user_access_map[userIndex].roleIds.filter(
-          role => role !== roleId
+      if (scope === undefined) {
+        record.roleIds = record.roleIds.filter(role => role !== roleId);
+      }
+
+      if (record.roleAssignments) {
+        record.roleAssignments = record.roleAssignments.filter(
+          assignment => !isSameAssignment(assignment, roleId, scope)
         );
+      }
 
       // Write changes
       await this.writeDatabase(this.data);
@@ -230,4 +275,197 @@ export class LowdbDatabaseConnector extends BaseDatabaseConnector {
     
     return record || null;
   }
-}
\ No newline at end of file
+
+  /**
+   * Gets the access maps of every stored user
+   * 
+   * @returns All user access maps
+   */
+  public async listUserAccessMaps(): Promise<UserAccessMap[]> {
+    await this.readDatabase();
+
+    return [...this.data.user_access_map];
+  }
+
+  /**
+   * Deletes role assignments that have expired
+   * 
+   * @returns Number of deleted assignments
+   */
+  public async purgeExpiredAssignments(): Promise<number> {
+    await this.readDatabase();
+
+    const now = new Date();
+    let purged = 0;
+
+    for (const record of this.data.user_access_map) {
+      const assignments = record.roleAssignments || [];
+      const retained = assignments.filter(assignment => !isAssignmentExpired(assignment, now));
+
+      if (retained.length < assignments.length) {
+        purged += assignments.length - retained.length;
+        record.roleAssignments = retained;
+      }
+    }
+
+    if (purged > 0) {
+      await this.writeDatabase(this.data);
+    }
+
+    return purged;
+  }
+
+  /**
+   * Stores an audit entry
+   * 
+   * @param entry Entry to store
+   */
+  public async saveAuditEntry(entry: AuditEntry): Promise<void> {
+    await this.readDatabase();
+
+    this.data.audit_log = [...(this.data.audit_log || []), entry];
+
+    await this.writeDatabase(this.data);
+  }
+
+  /**
+   * Searches stored audit entries, newest first
+   * 
+   * @param query Filters and pagination
+   * @returns Page of matching entries
+   */
+  public async queryAuditEntries(query: AuditQuery): Promise<AuditQueryResult> {
+    await this.readDatabase();
+
+    return queryAuditEntries(this.data.audit_log || [], query);
+  }
+
+  /**
+   * Deletes audit entries recorded before a point in time
+   * 
+   * @param before Entries older than this are deleted
+   * @returns Number of deleted entries
+   */
+  public async pruneAuditEntries(before: Date): Promise<number> {
+    await this.readDatabase();
+
+    const cutoff = before.toISOString();
+    const entries = this.data.audit_log || [];
+    const retained = entries.filter(entry => entry.timestamp >= cutoff);
+
+    if (retained.length === entries.length) {
+      return 0;
+    }
+
+    this.data.audit_log = retained;
+    await this.writeDatabase(this.data);
+
+    return entries.length - retained.length;
+  }
+
+  /**
+   * Stores a relation tuple, leaving the file untouched if it is already stored
+   * 
+   * @param tuple Tuple to store
+   */
+  public async writeRelationTuple(tuple: RelationTuple): Promise<void> {
+    await this.readDatabase();
+
+    const tuples = this.data.relation_tuples || [];
+
+    if (tuples.some(existing => matchesTupleQuery(existing, tuple))) {
+      return;
+    }
+
+    this.data.relation_tuples = [...tuples, toRelationTuple(tuple)];
+    await this.writeDatabase(this.data);
+  }
+
+  /**
+   * Deletes a relation tuple
+   * 
+   * @param tuple Tuple to delete
+   */
+  public async deleteRelationTuple(tuple: RelationTuple): Promise<void> {
+    await this.readDatabase();
+
+    const tuples = this.data.relation_tuples || [];
+    const retained = tuples.filter(existing => !matchesTupleQuery(existing, tuple));
+
+    if (retained.length < tuples.length) {
+      this.data.relation_tuples = retained;
+      await this.writeDatabase(this.data);
+    }
+  }
+
+  /**
+   * Reads the relation tuples matching a filter
+   * 
+   * @param query Filter with optional object, relation and subject
+   * @returns Matching tuples
+   */
+  public async readRelationTuples(query: RelationTupleQuery): Promise<RelationTuple[]> {
+    await this.readDatabase();
+
+    return (this.data.relation_tuples || []).filter(tuple => matchesTupleQuery(tuple, query));
+  }
+
+  /**
+   * Gets a group
+   * 
+   * @param groupId Group identifier
+   * @returns Group or null if not found
+   */
+  public async getGroup(groupId: GroupId): Promise<Group | null> {
+    await this.readDatabase();
+
+    const group = (this.data.groups || []).find(existing => existing.id === groupId);
+
+    return group ? toGroup(group) : null;
+  }
+
+  /**
+   * Stores a group, replacing any stored group with the same identifier
+   * 
+   * @param group Group to store
+   */
+  public async saveGroup(group: Group): Promise<void> {
+    await this.readDatabase();
+
+    this.data.groups = [
+      ...(this.data.groups || []).filter(existing => existing.id !== group.id),
+      toGroup(group)
+    ];
+
+    await this.writeDatabase(this.data);
+  }
+
+  /**
+   * Deletes a group
+   * 
+   * @param groupId Group identifier
+   */
+  public async deleteGroup(groupId: GroupId): Promise<void> {
+    await this.readDatabase();
+
+    const groups = this.data.groups || [];
+    const retained = groups.filter(existing => existing.id !== groupId);
+
+    if (retained.length < groups.length) {
+      this.data.groups = retained;
+      await this.writeDatabase(this.data);
+    }
+  }
+
+  /**
+   * Finds the groups matching a filter
+   * 
+   * @param query Filter with an optional member and subgroup
+   * @returns Matching groups
+   */
+  public async findGroups(query: GroupQuery): Promise<Group[]> {
+    await this.readDatabase();
+
+    return (this.data.groups || []).filter(group => matchesGroupQuery(group, query)).map(toGroup);
+  }
+}
@@ -2,9 +2,23 @@
 // description: In-memory database connector for development and fallback when other connectors are unavailable
 
 import { BaseDatabaseConnector } from '../base';
-import { RoleId } from '../../types/role';
+import { RoleId, RoleValidity } from '../../types/role';
 import { AttributeId, AttributeValue } from '../../types/attribute';
 import { UserAccessMap } from '../../types/database';
+import { AuditEntry, AuditQuery, AuditQueryResult } from '../../types/audit';
+import { RelationTuple, RelationTupleQuery } from '../../types/relation';
+import { Group, GroupId, GroupQuery } from '../../types/group';
+import { queryAuditEntries } from '../../audit/query';
+import { matchesTupleQuery, toRelationTuple } from '../../relation/tuple';
+import { matchesGroupQuery, toGroup } from '../../group/membership';
+import {
+  createAssignment,
+  isAssignmentExpired,
+  isPlainAssignment,
+  isSameAssignment,
+  resolveActiveRoles,
+  upsertAssignment
+} from '../../role/assignment';
 import { v4 as uuidv4 } from 'uuid';
 
 /**
@@ -12,6 +26,9 @@ import { v4 as uuidv4 } from 'uuid';
  */
 interface MemoryStorage {
   users: Map<string, UserAccessMap>;
+  auditLog: AuditEntry[];
+  relationTuples: RelationTuple[];
+  groups: Map<GroupId, Group>;
 }
 
 /**
@@ -23,7 +40,10 @@ export class InMemoryDatabaseConnector extends BaseDatabaseConnector {
    * In-memory storage
    */
   private storage: MemoryStorage = {
-    users: new Map<string, UserAccessMap>()
+    users: new Map<string, UserAccessMap>(),
+    auditLog: [],
+    relationTuples: [],
+    groups: new Map<GroupId, Group>()
   };
 
   /**
@@ -42,11 +62,10 @@ export class InMemoryDatabaseConnector extends BaseDatabaseConnector {
   }
 
   /**
-   * Gets roles for a user
+   * Gets the active roles of a user
    */
-  public async getUserRoles(userId: string): Promise<RoleId[]> {
-    const user = this.storage.users.get(userId);
-    return user?.roleIds || [];
+  public async getUserRoles(userId: string, scope?: string): Promise<RoleId[]> {
+    return resolveActiveRoles(this.storage.users.get(userId), scope);
   }
 
   /**
@@ -60,34 +79,82 @@ export class InMemoryDatabaseConnector extends BaseDatabaseConnector {
   /**
    * Assigns a role to a user
    */
-  public async assignRole(userId: string, roleId: RoleId): Promise<void> {
-    const user = this.storage.users.get(userId);
+  public async assignRole(
+    userId: string,
+    roleId: RoleId,
+    scope?: string,
+    validity?: RoleValidity
+  ): Promise<void> {
+    let user = this.storage.users.get(userId);
     
-    if (user) {
+    if (!user) {
+      // Create new user
+      user = {
+        id: uuidv4(),
+        userId,
+        roleIds: [],
+        attributes: {}
+      };
+      this.storage.users.set(userId, user);
+    }
+    
+    if (isPlainAssignment(scope, validity)) {
       // Add role if not already assigned
       if (!user.roleIds.includes(roleId)) {
         user.roleIds.push(roleId);
       }
     } else {
-      // Create new user
-      this.storage.users.set(userId, {
-        id: uuidv4(),
-        userId,
-        roleIds: [roleId],
-        attributes: {}
-      });
+      // An unscoped time-bound assignment replaces a permanent one
+      if (scope === undefined) {
+        user.roleIds = user.roleIds.filter(id => id !== roleId);
+      }
+      
+      user.roleAssignments = upsertAssignment(
+        user.roleAssignments || [],
+        createAssignment(roleId, scope, validity)
+      );
     }
   }
 
   /**
    * Removes a role from a user
    */
-  public async removeRole(userId: string, roleId: RoleId): Promise<void> {
+  public async removeRole(userId: string, roleId: RoleId, scope?: string): Promise<void> {
     const user = this.storage.users.get(userId);
     
-    if (user) {
+    if (!user) {
+      return;
+    }
+    
+    if (scope === undefined) {
       user.roleIds = user.roleIds.filter(id => id !== roleId);
     }
+    
+    if (user.roleAssignments) {
+      user.roleAssignments = user.roleAssignments.filter(
+        assignment => !isSameAssignment(assignment, roleId, scope)
+      );
+    }
+  }
+
+  /**
+   * Deletes role assignments that have expired
+   */
+  public async purgeExpiredAssignments(): Promise<number> {
+    const now = new Date();
+    let purged = 0;
+    
+    for (const user of this.storage.users.values()) {
+      const assignments = user.roleAssignments || [];
+      const retained = assignments.filter(assignment => !isAssignmentExpired(assignment, now));
+      
+      if (retained.length < assignments.length) {
+        purged += assignments.length - retained.length;
+        user.roleAssignments = retained;
+      }
+    }
+    
+    return purged;
   }
 
   /**
@@ -120,4 +187,91 @@ export class InMemoryDatabaseConnector extends BaseDatabaseConnector {
   public async getUserAccessMap(userId: string): Promise<UserAccessMap | null> {
     return this.storage.users.get(userId) || null;
   }
-}
\ No newline at end of file
+
+  /**
+   * Gets the access maps of every stored user
+   */
+  public async listUserAccessMaps(): Promise<UserAccessMap[]> {
+    return Array.from(this.storage.users.values());
+  }
+
+  /**
+   * Stores an audit entry
+   */
+  public async saveAuditEntry(entry: AuditEntry): Promise<void> {
+    this.storage.auditLog.push(entry);
+  }
+
+  /**
+   * Searches stored audit entries, newest first
+   */
+  public async queryAuditEntries(query: AuditQuery): Promise<AuditQueryResult> {
+    return queryAuditEntries(this.storage.auditLog, query);
+  }
+
+  /**
+   * Deletes audit entries recorded before a point in time
+   */
+  public async pruneAuditEntries(before: Date): Promise<number> {
+    const cutoff = before.toISOString();
+    const retained = this.storage.auditLog.filter(entry => entry.timestamp >= cutoff);
+    const pruned = this.storage.auditLog.length - retained.length;
+
+    this.storage.auditLog = retained;
+
+    return pruned;
+  }
+
+  /**
+   * Stores a relation tuple
+   */
+  public async writeRelationTuple(tuple: RelationTuple): Promise<void> {
+    if (!this.storage.relationTuples.some(existing => matchesTupleQuery(existing, tuple))) {
+      this.storage.relationTuples.push(toRelationTuple(tuple));
+    }
+  }
+
+  /**
+   * Deletes a relation tuple
+   */
+  public async deleteRelationTuple(tuple: RelationTuple): Promise<void> {
+    this.storage.relationTuples = this.storage.relationTuples.filter(existing => !matchesTupleQuery(existing, tuple));
+  }
+
+  /**
+   * Reads the relation tuples matching a filter
+   */
+  public async readRelationTuples(query: RelationTupleQuery): Promise<RelationTuple[]> {
+    return this.storage.relationTuples.filter(tuple => matchesTupleQuery(tuple, query)).map(toRelationTuple);
+  }
+
+  /**
+   * Gets a group
+   */
+  public async getGroup(groupId: GroupId): Promise<Group | null> {
+    const group = this.storage.groups.get(groupId);
+
+    return group ? toGroup(group) : null;
+  }
+
+  /**
+   * Stores a group, replacing any stored group with the same identifier
+   */
+  public async saveGroup(group: Group): Promise<void> {
+    this.storage.groups.set(group.id, toGroup(group));
+  }
+
+  /**
+   * Deletes a group
+   */
+  public async deleteGroup(groupId: GroupId): Promise<void> {
+    this.storage.groups.delete(groupId);
+  }
+
+  /**
+   * Finds the groups matching a filter
+   */
+  public async findGroups(query: GroupQuery): Promise<Group[]> {
+    return Array.from(this.storage.groups.values()).filter(group => matchesGroupQuery(group, query)).map(toGroup);
+  }
+}
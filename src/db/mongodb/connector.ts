@@ -2,11 +2,27 @@
 // description: MongoDB database connector for storing and retrieving user access information
 
 import { BaseDatabaseConnector } from '../base';
-import { RoleId } from '../../types/role';
+import { RoleId, RoleValidity } from '../../types/role';
 import { AttributeId, AttributeValue } from '../../types/attribute';
 import { UserAccessMap } from '../../types/database';
 import { DatabaseConfig } from '../../interfaces/config';
-
+import { AuditEntry, AuditQuery, AuditQueryResult } from '../../types/audit';
+import { RelationTuple, RelationTupleQuery } from '../../types/relation';
+import { Group, GroupId, GroupQuery } from '../../types/group';
+import {
+  decodeAuditCursor,
+  getAuditQueryLimit,
+  toAuditPage,
+  toAuditTimestamp
+} from '../../audit/query';
+import {
+  createAssignment,
+  isAssignmentExpired,
+  isPlainAssignment,
+  resolveActiveRoles
+} from '../../role/assignment';
+import { toRelationTuple } from '../../relation/tuple';
+import { toGroup } from '../../group/membership';
 
 /**
  * MongoDB database connector for HBAC user access management
@@ -15,6 +31,9 @@ export class MongoDBDatabaseConnector extends BaseDatabaseConnector {
   private client: any;
   private db: any = null;
   private collection: any = null;
+  private auditCollection: any = null;
+  private relationCollection: any = null;
+  private groupCollection: any = null;
   private mongodb: any;
 
   /**
@@ -51,19 +70,34 @@ export class MongoDBDatabaseConnector extends BaseDatabaseConnector {
       
       // Use default collection name
       this.collection = this.db.collection('user_access_map');
+
+      // Audit entries are read newest first
+      this.auditCollection = this.db.collection('audit_log');
+      await this.auditCollection.createIndex({ timestamp: -1, sequence: -1, id: -1 });
+
+      // Relation tuples are unique and read by object or by subject
+      this.relationCollection = this.db.collection('relation_tuples');
+      await this.relationCollection.createIndex({ object: 1, relation: 1, subject: 1 }, { unique: true });
+      await this.relationCollection.createIndex({ subject: 1 });
+
+      // Groups are read by identifier, by member and by subgroup
+      this.groupCollection = this.db.collection('groups');
+      await this.groupCollection.createIndex({ id: 1 }, { unique: true });
+      await this.groupCollection.createIndex({ memberIds: 1 });
+      await this.groupCollection.createIndex({ subgroupIds: 1 });
     } catch (error) {
       throw new Error(`Failed to initialize MongoDB: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
   /**
-   * Retrieves roles for a specific user
+   * Retrieves the active roles of a specific user
    */
-  public async getUserRoles(userId: string): Promise<RoleId[]> {
+  public async getUserRoles(userId: string, scope?: string): Promise<RoleId[]> {
     this.ensureInitialized();
     
     const user = await this.collection.findOne({ userId });
-    return user?.roleIds || [];
+    return resolveActiveRoles(user, scope);
   }
 
   /**
@@ -79,14 +113,43 @@ export class MongoDBDatabaseConnector extends BaseDatabaseConnector {
   /**
    * Assigns a role to a user
    */
-  public async assignRole(userId: string, roleId: RoleId): Promise<void> {
+  public async assignRole(
+    userId: string,
+    roleId: RoleId,
+    scope?: string,
+    validity?: RoleValidity
+  ): Promise<void> {
     this.ensureInitialized();
     
+    if (isPlainAssignment(scope, validity)) {
+      await this.collection.updateOne(
+        { userId },
+        { 
+          $set: { userId },
+          $addToSet: { roleIds: roleId }
+        },
+        { upsert: true }
+      );
+      return;
+    }
+    
+    // Replace an earlier assignment of the role in the same scope; an unscoped
+    // time-bound assignment also replaces a permanent one
+    await this.collection.updateOne(
+      { userId },
+      {
+        $pull: {
+          roleAssignments: assignmentFilter(roleId, scope),
+          ...(scope === undefined && { roleIds: roleId })
+        }
+      }
+    );
+    
     await this.collection.updateOne(
       { userId },
       { 
         $set: { userId },
-        $addToSet: { roleIds: roleId }
+        $push: { roleAssignments: createAssignment(roleId, scope, validity) }
       },
       { upsert: true }
     );
@@ -95,15 +158,43 @@ export class MongoDBDatabaseConnector extends BaseDatabaseConnector {
   /**
    * Removes a role from a user
    */
-  public async removeRole(userId: string, roleId: RoleId): Promise<void> {
+  public async removeRole(userId: string, roleId: RoleId, scope?: string): Promise<void> {
     this.ensureInitialized();
     
+    const roleAssignments = assignmentFilter(roleId, scope);
+    
     await this.collection.updateOne(
       { userId },
-      { $pull: { roleIds: roleId } }
+      { $pull: scope === undefined ? { roleIds: roleId, roleAssignments } : { roleAssignments } }
     );
   }
 
+  /**
+   * Deletes role assignments that have expired
+   */
+  public async purgeExpiredAssignments(): Promise<number> {
+    this.ensureInitialized();
+    
+    const now = new Date();
+    const filter = { 'roleAssignments.validUntil': { $lte: now.toISOString() } };
+    const users: UserAccessMap[] = await this.collection
+      .find(filter, { projection: { roleAssignments: 1 } })
+      .toArray();
+    
+    const purged = users.reduce(
+      (count, user) => count + (user.roleAssignments || []).filter(assignment => isAssignmentExpired(assignment, now)).length,
+      0
+    );
+    
+    if (purged > 0) {
+      await this.collection.updateMany(filter, {
+        $pull: { roleAssignments: { validUntil: { $lte: now.toISOString() } } }
+      });
+    }
+    
+    return purged;
+  }
+
   /**
    * Sets an attribute for a user
    */
@@ -135,6 +226,155 @@ export class MongoDBDatabaseConnector extends BaseDatabaseConnector {
     return await this.collection.findOne({ userId });
   }
 
+  /**
+   * Gets the access maps of every stored user
+   */
+  public async listUserAccessMaps(): Promise<UserAccessMap[]> {
+    this.ensureInitialized();
+
+    return await this.collection.find({}).toArray();
+  }
+
+  /**
+   * Stores an audit entry
+   */
+  public async saveAuditEntry(entry: AuditEntry): Promise<void> {
+    this.ensureInitialized();
+
+    // Insert a copy so the driver's generated _id does not leak into the entry
+    await this.auditCollection.insertOne({ ...entry });
+  }
+
+  /**
+   * Searches stored audit entries, newest first
+   */
+  public async queryAuditEntries(query: AuditQuery): Promise<AuditQueryResult> {
+    this.ensureInitialized();
+
+    const limit = getAuditQueryLimit(query);
+    const conditions: Record<string, any>[] = [];
+
+    if (query.userId !== undefined) conditions.push({ subject: query.userId });
+    if (query.resource !== undefined) conditions.push({ resource: query.resource });
+    if (query.action !== undefined) conditions.push({ action: query.action });
+    if (query.effect !== undefined) conditions.push({ outcome: query.effect });
+
+    const from = toAuditTimestamp(query.from);
+    const to = toAuditTimestamp(query.to);
+    if (from !== undefined) conditions.push({ timestamp: { $gte: from } });
+    if (to !== undefined) conditions.push({ timestamp: { $lt: to } });
+
+    if (query.cursor) {
+      const cursor = decodeAuditCursor(query.cursor);
+      conditions.push({
+        $or: [
+          { timestamp: { $lt: cursor.timestamp } },
+          { timestamp: cursor.timestamp, sequence: { $lt: cursor.sequence } },
+          { timestamp: cursor.timestamp, sequence: cursor.sequence, id: { $lt: cursor.id } }
+        ]
+      });
+    }
+
+    const entries = await this.auditCollection
+      .find(conditions.length > 0 ? { $and: conditions } : {}, { projection: { _id: 0 } })
+      .sort({ timestamp: -1, sequence: -1, id: -1 })
+      .limit(limit + 1)
+      .toArray();
+
+    return toAuditPage(entries, limit);
+  }
+
+  /**
+   * Deletes audit entries recorded before a point in time
+   */
+  public async pruneAuditEntries(before: Date): Promise<number> {
+    this.ensureInitialized();
+
+    const result = await this.auditCollection.deleteMany({
+      timestamp: { $lt: before.toISOString() }
+    });
+
+    return result.deletedCount;
+  }
+
+  /**
+   * Stores a relation tuple
+   */
+  public async writeRelationTuple(tuple: RelationTuple): Promise<void> {
+    this.ensureInitialized();
+
+    const stored = toRelationTuple(tuple);
+    await this.relationCollection.updateOne(stored, { $setOnInsert: stored }, { upsert: true });
+  }
+
+  /**
+   * Deletes a relation tuple
+   */
+  public async deleteRelationTuple(tuple: RelationTuple): Promise<void> {
+    this.ensureInitialized();
+
+    await this.relationCollection.deleteOne(toRelationTuple(tuple));
+  }
+
+  /**
+   * Reads the relation tuples matching a filter
+   */
+  public async readRelationTuples(query: RelationTupleQuery): Promise<RelationTuple[]> {
+    this.ensureInitialized();
+
+    // Omitted fields match any value
+    const filter = Object.fromEntries(Object.entries(query).filter(([, value]) => value !== undefined));
+
+    return await this.relationCollection.find(filter, { projection: { _id: 0 } }).toArray();
+  }
+
+  /**
+   * Gets a group
+   */
+  public async getGroup(groupId: GroupId): Promise<Group | null> {
+    this.ensureInitialized();
+
+    return await this.groupCollection.findOne({ id: groupId }, { projection: { _id: 0 } });
+  }
+
+  /**
+   * Stores a group, replacing any stored group with the same identifier
+   */
+  public async saveGroup(group: Group): Promise<void> {
+    this.ensureInitialized();
+
+    await this.groupCollection.replaceOne({ id: group.id }, toGroup(group), { upsert: true });
+  }
+
+  /**
+   * Deletes a group
+   */
+  public async deleteGroup(groupId: GroupId): Promise<void> {
+    this.ensureInitialized();
+
+    await this.groupCollection.deleteOne({ id: groupId });
+  }
+
+  /**
+   * Finds the groups matching a filter
+   */
+  public async findGroups(query: GroupQuery): Promise<Group[]> {
+    this.ensureInitialized();
+
+    // Array fields match groups listing the value
+    const filter: Record<string, string> = {};
+
+    if (query.memberId !== undefined) {
+      filter.memberIds = query.memberId;
+    }
+
+    if (query.subgroupId !== undefined) {
+      filter.subgroupIds = query.subgroupId;
+    }
+
+    return await this.groupCollection.find(filter, { projection: { _id: 0 } }).toArray();
+  }
+
   /**
    * Ensures the connector is initialized
    */
@@ -150,4 +390,15 @@ export class MongoDBDatabaseConnector extends BaseDatabaseConnector {
   public async close(): Promise<void> {
     await this.client.close();
   }
+}
+
+/**
+ * Matches the stored assignment of a role in exactly the given scope
+ *
+ * @param roleId Role identifier
+ * @param scope Scope of the assignment, or undefined for unscoped assignments
+ * @returns Filter for elements of the roleAssignments array
+ */
+function assignmentFilter(roleId: RoleId, scope?: string): Record<string, any> {
+  return { roleId, scope: scope ?? { $exists: false } };
 }
\ No newline at end of file
@@ -2,11 +2,84 @@
 // description: PostgreSQL database connector for storing and retrieving user access information
 
 import { BaseDatabaseConnector } from '../base';
-import { RoleId } from '../../types/role';
+import { RoleId, RoleValidity } from '../../types/role';
 import { AttributeId, AttributeValue } from '../../types/attribute';
 import { UserAccessMap } from '../../types/database';
 import { DatabaseConfig } from '../../interfaces/config';
 import { v4 as uuidv4 } from 'uuid';
+import { AuditEntry, AuditQuery, AuditQueryResult } from '../../types/audit';
+import { RelationTuple, RelationTupleQuery } from '../../types/relation';
+import { Group, GroupId, GroupQuery } from '../../types/group';
+import {
+  decodeAuditCursor,
+  getAuditQueryLimit,
+  toAuditPage,
+  toAuditTimestamp
+} from '../../audit/query';
+import { createAssignment, isPlainAssignment } from '../../role/assignment';
+
+/**
+ * Name of the table storing audit entries
+ */
+const AUDIT_TABLE_NAME = 'hbac_audit_log';
+
+/**
+ * Name of the table storing scoped and time-bound role assignments
+ */
+const ROLE_ASSIGNMENT_TABLE_NAME = 'hbac_role_assignments';
+
+/**
+ * Name of the table storing relation tuples
+ */
+const RELATION_TUPLE_TABLE_NAME = 'hbac_relation_tuples';
+
+/**
+ * Name of the table storing groups
+ */
+const GROUP_TABLE_NAME = 'hbac_groups';
+
+/**
+ * Scope column value of assignments that apply in every scope
+ */
+const UNSCOPED = '';
+
+/**
+ * Condition matching the assignments of user $1 that apply in scope $2 (null for unscoped checks)
+ */
+const IN_SCOPE = `user_id = $1 AND (scope = '${UNSCOPED}' OR scope = $2)`;
+
+/**
+ * Row of the user access map table
+ */
+interface AccessMapRow {
+  id: string;
+  user_id: string;
+  role_ids: RoleId[];
+  attributes: Record<AttributeId, AttributeValue>;
+}
+
+/**
+ * Row of the role assignment table
+ */
+interface AssignmentRow {
+  user_id: string;
+  role_id: RoleId;
+  scope: string;
+  valid_from: Date | null;
+  valid_until: Date | null;
+}
+
+/**
+ * Row of the group table
+ */
+interface GroupRow {
+  id: GroupId;
+  description: string | null;
+  member_ids: string[];
+  subgroup_ids: GroupId[];
+  role_ids: RoleId[];
+  attributes: Record<AttributeId, AttributeValue>;
+}
 
 /**
  * PostgreSQL database connector for HBAC user access management
@@ -53,21 +126,92 @@ export class PostgresDatabaseConnector extends BaseDatabaseConnector {
           attributes JSONB DEFAULT '{}'
         )
       `);
+
+      await this.pool.query(`
+        CREATE TABLE IF NOT EXISTS ${ROLE_ASSIGNMENT_TABLE_NAME} (
+          user_id TEXT NOT NULL,
+          scope TEXT NOT NULL DEFAULT '${UNSCOPED}',
+          role_id TEXT NOT NULL,
+          valid_from TIMESTAMPTZ,
+          valid_until TIMESTAMPTZ,
+          PRIMARY KEY (user_id, scope, role_id)
+        )
+      `);
+
+      await this.pool.query(`
+        CREATE TABLE IF NOT EXISTS ${AUDIT_TABLE_NAME} (
+          id TEXT PRIMARY KEY,
+          timestamp TIMESTAMPTZ NOT NULL,
+          sequence BIGINT NOT NULL,
+          subject TEXT NOT NULL,
+          resource TEXT,
+          action TEXT,
+          outcome TEXT NOT NULL,
+          entry JSONB NOT NULL
+        )
+      `);
+
+      await this.pool.query(`
+        CREATE INDEX IF NOT EXISTS ${AUDIT_TABLE_NAME}_timestamp_idx
+        ON ${AUDIT_TABLE_NAME} (timestamp DESC, sequence DESC, id DESC)
+      `);
+
+      await this.pool.query(`
+        CREATE TABLE IF NOT EXISTS ${RELATION_TUPLE_TABLE_NAME} (
+          object TEXT NOT NULL,
+          relation TEXT NOT NULL,
+          subject TEXT NOT NULL,
+          PRIMARY KEY (object, relation, subject)
+        )
+      `);
+
+      await this.pool.query(`
+        CREATE INDEX IF NOT EXISTS ${RELATION_TUPLE_TABLE_NAME}_subject_idx
+        ON ${RELATION_TUPLE_TABLE_NAME} (subject)
+      `);
+
+      await this.pool.query(`
+        CREATE TABLE IF NOT EXISTS ${GROUP_TABLE_NAME} (
+          id TEXT PRIMARY KEY,
+          description TEXT,
+          member_ids TEXT[] NOT NULL DEFAULT '{}',
+          subgroup_ids TEXT[] NOT NULL DEFAULT '{}',
+          role_ids TEXT[] NOT NULL DEFAULT '{}',
+          attributes JSONB NOT NULL DEFAULT '{}'
+        )
+      `);
+
+      await this.pool.query(`
+        CREATE INDEX IF NOT EXISTS ${GROUP_TABLE_NAME}_member_ids_idx
+        ON ${GROUP_TABLE_NAME} USING GIN (member_ids)
+      `);
+
+      await this.pool.query(`
+        CREATE INDEX IF NOT EXISTS ${GROUP_TABLE_NAME}_subgroup_ids_idx
+        ON ${GROUP_TABLE_NAME} USING GIN (subgroup_ids)
+      `);
     } catch (error) {
       throw new Error(`Failed to initialize PostgreSQL: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
   /**
-   * Retrieves roles for a specific user
+   * Retrieves the active roles of a specific user
    */
-  public async getUserRoles(userId: string): Promise<RoleId[]> {
+  public async getUserRoles(userId: string, scope?: string): Promise<RoleId[]> {
     const result = await this.pool.query(
-      `SELECT role_ids FROM ${this.tableName} WHERE user_id = $1`,
-      [userId]
+      `
+        SELECT UNNEST(role_ids) AS role_id FROM ${this.tableName} WHERE user_id = $1
+        UNION
+        SELECT role_id FROM ${ROLE_ASSIGNMENT_TABLE_NAME}
+        WHERE ${IN_SCOPE}
+          AND (valid_from IS NULL OR valid_from <= NOW())
+          AND (valid_until IS NULL OR valid_until > NOW())
+      `,
+      [userId, scope ?? null]
     );
-    
-    return result.rows[0]?.role_ids || [];
+
+    return result.rows.map((row: { role_id: RoleId }) => row.role_id);
   }
 
   /**
@@ -85,7 +229,39 @@ export class PostgresDatabaseConnector extends BaseDatabaseConnector {
   /**
    * Assigns a role to a user
    */
-  public async assignRole(userId: string, roleId: RoleId): Promise<void> {
+  public async assignRole(
+    userId: string,
+    roleId: RoleId,
+    scope?: string,
+    validity: RoleValidity = {}
+  ): Promise<void> {
+    if (!isPlainAssignment(scope, validity)) {
+      // Keep an access map row, so the user is found when only assigned scoped or time-bound roles
+      await this.pool.query(
+        `INSERT INTO ${this.tableName} (id, user_id) VALUES ($1, $2) ON CONFLICT (user_id) DO NOTHING`,
+        [uuidv4(), userId]
+      );
+
+      await this.pool.query(
+        `
+          INSERT INTO ${ROLE_ASSIGNMENT_TABLE_NAME} (user_id, scope, role_id, valid_from, valid_until)
+          VALUES ($1, $2, $3, $4::TIMESTAMPTZ, $5::TIMESTAMPTZ)
+          ON CONFLICT (user_id, scope, role_id) DO
+          UPDATE SET valid_from = EXCLUDED.valid_from, valid_until = EXCLUDED.valid_until
+        `,
+        [userId, scope ?? UNSCOPED, roleId, validity.validFrom ?? null, validity.validUntil ?? null]
+      );
+
+      // An unscoped time-bound assignment replaces a permanent one
+      if (scope === undefined) {
+        await this.pool.query(
+          `UPDATE ${this.tableName} SET role_ids = ARRAY_REMOVE(role_ids, $1) WHERE user_id = $2`,
+          [roleId, userId]
+        );
+      }
+      return;
+    }
+
     await this.pool.query(
       `
         INSERT INTO ${this.tableName} (id, user_id, role_ids)
@@ -100,7 +276,16 @@ export class PostgresDatabaseConnector extends BaseDatabaseConnector {
   /**
    * Removes a role from a user
    */
-  public async removeRole(userId: string, roleId: RoleId): Promise<void> {
+  public async removeRole(userId: string, roleId: RoleId, scope?: string): Promise<void> {
+    await this.pool.query(
+      `DELETE FROM ${ROLE_ASSIGNMENT_TABLE_NAME} WHERE user_id = $1 AND scope = $2 AND role_id = $3`,
+      [userId, scope ?? UNSCOPED, roleId]
+    );
+
+    if (scope !== undefined) {
+      return;
+    }
+
     await this.pool.query(
       `
         UPDATE ${this.tableName}
@@ -148,13 +333,262 @@ export class PostgresDatabaseConnector extends BaseDatabaseConnector {
       `SELECT * FROM ${this.tableName} WHERE user_id = $1`,
       [userId]
     );
+
+    if (!result.rows[0]) {
+      return null;
+    }
+
+    const assignments = await this.pool.query(
+      `SELECT * FROM ${ROLE_ASSIGNMENT_TABLE_NAME} WHERE user_id = $1`,
+      [userId]
+    );
     
-    return result.rows[0] ? {
-      id: result.rows[0].id,
-      userId: result.rows[0].user_id,
-      roleIds: result.rows[0].role_ids,
-      attributes: result.rows[0].attributes
-    } : null;
+    return toAccessMap(result.rows[0], assignments.rows);
+  }
+
+  /**
+   * Retrieves the access maps of every stored user
+   */
+  public async listUserAccessMaps(): Promise<UserAccessMap[]> {
+    const result = await this.pool.query(`SELECT * FROM ${this.tableName}`);
+    const assignments = await this.pool.query(`SELECT * FROM ${ROLE_ASSIGNMENT_TABLE_NAME}`);
+
+    return result.rows.map((row: AccessMapRow) => toAccessMap(
+      row,
+      assignments.rows.filter((assignment: AssignmentRow) => assignment.user_id === row.user_id)
+    ));
+  }
+
+  /**
+   * Finds when a user's roles next change because a time-bound assignment starts or expires
+   */
+  public async getNextRoleChange(userId: string, scope?: string): Promise<Date | null> {
+    const result = await this.pool.query(
+      `
+        SELECT MIN(change) AS next_change FROM (
+          SELECT valid_from AS change FROM ${ROLE_ASSIGNMENT_TABLE_NAME} WHERE ${IN_SCOPE}
+          UNION ALL
+          SELECT valid_until AS change FROM ${ROLE_ASSIGNMENT_TABLE_NAME} WHERE ${IN_SCOPE}
+        ) changes
+        WHERE change > NOW()
+      `,
+      [userId, scope ?? null]
+    );
+
+    return result.rows[0]?.next_change ?? null;
+  }
+
+  /**
+   * Deletes role assignments that have expired
+   */
+  public async purgeExpiredAssignments(): Promise<number> {
+    const result = await this.pool.query(
+      `DELETE FROM ${ROLE_ASSIGNMENT_TABLE_NAME} WHERE valid_until <= NOW()`
+    );
+
+    return result.rowCount ?? 0;
+  }
+
+  /**
+   * Stores an audit entry
+   */
+  public async saveAuditEntry(entry: AuditEntry): Promise<void> {
+    await this.pool.query(
+      `
+        INSERT INTO ${AUDIT_TABLE_NAME} (id, timestamp, sequence, subject, resource, action, outcome, entry)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8::JSONB)
+      `,
+      [
+        entry.id,
+        entry.timestamp,
+        entry.sequence,
+        entry.subject,
+        entry.resource ?? null,
+        entry.action ?? null,
+        entry.outcome,
+        JSON.stringify(entry)
+      ]
+    );
+  }
+
+  /**
+   * Searches stored audit entries, newest first
+   */
+  public async queryAuditEntries(query: AuditQuery): Promise<AuditQueryResult> {
+    const limit = getAuditQueryLimit(query);
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    // Adds a condition, numbering its placeholders after the existing parameters
+    const where = (condition: (...placeholders: string[]) => string, ...values: any[]): void => {
+      const placeholders = values.map(value => `$${params.push(value)}`);
+      conditions.push(condition(...placeholders));
+    };
+
+    if (query.userId !== undefined) where(p => `subject = ${p}`, query.userId);
+    if (query.resource !== undefined) where(p => `resource = ${p}`, query.resource);
+    if (query.action !== undefined) where(p => `action = ${p}`, query.action);
+    if (query.effect !== undefined) where(p => `outcome = ${p}`, query.effect);
+
+    const from = toAuditTimestamp(query.from);
+    const to = toAuditTimestamp(query.to);
+    if (from !== undefined) where(p => `timestamp >= ${p}::TIMESTAMPTZ`, from);
+    if (to !== undefined) where(p => `timestamp < ${p}::TIMESTAMPTZ`, to);
+
+    if (query.cursor) {
+      const cursor = decodeAuditCursor(query.cursor);
+      where(
+        (t, seq, id) => `(timestamp, sequence, id) < (${t}::TIMESTAMPTZ, ${seq}, ${id})`,
+        cursor.timestamp,
+        cursor.sequence,
+        cursor.id
+      );
+    }
+
+    const result = await this.pool.query(
+      `
+        SELECT entry FROM ${AUDIT_TABLE_NAME}
+        ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+        ORDER BY timestamp DESC, sequence DESC, id DESC
+        LIMIT ${limit + 1}
+      `,
+      params
+    );
+
+    return toAuditPage(result.rows.map((row: { entry: AuditEntry }) => row.entry), limit);
+  }
+
+  /**
+   * Deletes audit entries recorded before a point in time
+   */
+  public async pruneAuditEntries(before: Date): Promise<number> {
+    const result = await this.pool.query(
+      `DELETE FROM ${AUDIT_TABLE_NAME} WHERE timestamp < $1`,
+      [before.toISOString()]
+    );
+
+    return result.rowCount ?? 0;
+  }
+
+  /**
+   * Stores a relation tuple
+   */
+  public async writeRelationTuple(tuple: RelationTuple): Promise<void> {
+    await this.pool.query(
+      `
+        INSERT INTO ${RELATION_TUPLE_TABLE_NAME} (object, relation, subject)
+        VALUES ($1, $2, $3)
+        ON CONFLICT DO NOTHING
+      `,
+      [tuple.object, tuple.relation, tuple.subject]
+    );
+  }
+
+  /**
+   * Deletes a relation tuple
+   */
+  public async deleteRelationTuple(tuple: RelationTuple): Promise<void> {
+    await this.pool.query(
+      `DELETE FROM ${RELATION_TUPLE_TABLE_NAME} WHERE object = $1 AND relation = $2 AND subject = $3`,
+      [tuple.object, tuple.relation, tuple.subject]
+    );
+  }
+
+  /**
+   * Reads the relation tuples matching a filter
+   */
+  public async readRelationTuples(query: RelationTupleQuery): Promise<RelationTuple[]> {
+    const conditions: string[] = [];
+    const params: string[] = [];
+
+    // Omitted fields match any value
+    for (const field of ['object', 'relation', 'subject'] as const) {
+      if (query[field] !== undefined) {
+        params.push(query[field]!);
+        conditions.push(`${field} = $${params.length}`);
+      }
+    }
+
+    const result = await this.pool.query(
+      `
+        SELECT object, relation, subject FROM ${RELATION_TUPLE_TABLE_NAME}
+        ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      `,
+      params
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Gets a group
+   */
+  public async getGroup(groupId: GroupId): Promise<Group | null> {
+    const result = await this.pool.query(`SELECT * FROM ${GROUP_TABLE_NAME} WHERE id = $1`, [groupId]);
+
+    return result.rows.length > 0 ? toGroup(result.rows[0]) : null;
+  }
+
+  /**
+   * Stores a group, replacing any stored group with the same identifier
+   */
+  public async saveGroup(group: Group): Promise<void> {
+    await this.pool.query(
+      `
+        INSERT INTO ${GROUP_TABLE_NAME} (id, description, member_ids, subgroup_ids, role_ids, attributes)
+        VALUES ($1, $2, $3, $4, $5, $6)
+        ON CONFLICT (id) DO UPDATE SET
+          description = EXCLUDED.description,
+          member_ids = EXCLUDED.member_ids,
+          subgroup_ids = EXCLUDED.subgroup_ids,
+          role_ids = EXCLUDED.role_ids,
+          attributes = EXCLUDED.attributes
+      `,
+      [
+        group.id,
+        group.description ?? null,
+        group.memberIds,
+        group.subgroupIds,
+        group.roleIds,
+        JSON.stringify(group.attributes)
+      ]
+    );
+  }
+
+  /**
+   * Deletes a group
+   */
+  public async deleteGroup(groupId: GroupId): Promise<void> {
+    await this.pool.query(`DELETE FROM ${GROUP_TABLE_NAME} WHERE id = $1`, [groupId]);
+  }
+
+  /**
+   * Finds the groups matching a filter
+   */
+  public async findGroups(query: GroupQuery): Promise<Group[]> {
+    const conditions: string[] = [];
+    const params: string[] = [];
+
+    // Array columns match groups listing the value
+    if (query.memberId !== undefined) {
+      params.push(query.memberId);
+      conditions.push(`$${params.length} = ANY(member_ids)`);
+    }
+
+    if (query.subgroupId !== undefined) {
+      params.push(query.subgroupId);
+      conditions.push(`$${params.length} = ANY(subgroup_ids)`);
+    }
+
+    const result = await this.pool.query(
+      `
+        SELECT * FROM ${GROUP_TABLE_NAME}
+        ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      `,
+      params
+    );
+
+    return result.rows.map(toGroup);
   }
 
   /**
@@ -163,4 +597,45 @@ export class PostgresDatabaseConnector extends BaseDatabaseConnector {
   public async close(): Promise<void> {
     await this.pool.end();
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Builds a user access map from its table rows
+ *
+ * @param row Row of the user access map table
+ * @param assignments Rows of the user's scoped and time-bound role assignments
+ * @returns User access map
+ */
+function toAccessMap(row: AccessMapRow, assignments: AssignmentRow[]): UserAccessMap {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    roleIds: row.role_ids,
+    roleAssignments: assignments.map(assignment => createAssignment(
+      assignment.role_id,
+      assignment.scope === UNSCOPED ? undefined : assignment.scope,
+      {
+        validFrom: assignment.valid_from?.toISOString(),
+        validUntil: assignment.valid_until?.toISOString()
+      }
+    )),
+    attributes: row.attributes
+  };
+}
+
+/**
+ * Builds a group from its table row
+ *
+ * @param row Row of the group table
+ * @returns Group
+ */
+function toGroup(row: GroupRow): Group {
+  return {
+    id: row.id,
+    ...(row.description !== null ? { description: row.description } : {}),
+    memberIds: row.member_ids,
+    subgroupIds: row.subgroup_ids,
+    roleIds: row.role_ids,
+    attributes: row.attributes
+  };
+}
@@ -0,0 +1,289 @@
+// file: src/group/manager.ts
+// description: Stores groups and resolves the groups users belong to through nesting
+
+import { DatabaseConnector } from '../interfaces/database';
+import { Group, GroupId } from '../types/group';
+import { RoleId } from '../types/role';
+import { createGroupRecord } from './membership';
+
+/**
+ * Group storage methods of a database connector
+ */
+type GroupStore = Required<Pick<DatabaseConnector, 'getGroup' | 'saveGroup' | 'deleteGroup' | 'findGroups'>>;
+
+/**
+ * Manages groups and their nesting
+ *
+ * A user belongs to the groups listing them as a member and, through nesting, to
+ * every group containing one of those groups.
+ */
+export class GroupManager {
+  /**
+   * Creates a new GroupManager instance
+   *
+   * @param connector Database connector storing groups
+   */
+  constructor(private connector: DatabaseConnector) {}
+
+  /**
+   * Checks whether the database connector can store groups
+   *
+   * @returns Boolean indicating if the group methods are implemented
+   */
+  public isSupported(): boolean {
+    return typeof this.connector.getGroup === 'function' &&
+      typeof this.connector.saveGroup === 'function' &&
+      typeof this.connector.deleteGroup === 'function' &&
+      typeof this.connector.findGroups === 'function';
+  }
+
+  /**
+   * Gets a group
+   *
+   * @param groupId Group identifier
+   * @returns Promise resolving to the group or null if not found
+   * @throws {Error} If the database connector does not support groups
+   */
+  public get(groupId: GroupId): Promise<Group | null> {
+    return this.store().getGroup(groupId);
+  }
+
+  /**
+   * Lists every group
+   *
+   * @returns Promise resolving to all stored groups
+   * @throws {Error} If the database connector does not support groups
+   */
+  public list(): Promise<Group[]> {
+    return this.store().findGroups({});
+  }
+
+  /**
+   * Creates an empty group
+   *
+   * @param groupId Group identifier
+   * @param description Optional description of the group's purpose
+   * @returns Promise resolving to the created group
+   * @throws {Error} If the group already exists or the database connector does not support groups
+   */
+  public async create(groupId: GroupId, description?: string): Promise<Group> {
+    const store = this.store();
+
+    if (await store.getGroup(groupId)) {
+      throw new Error(`Group already exists: ${groupId}`);
+    }
+
+    const group = createGroupRecord(groupId, description);
+    await store.saveGroup(group);
+
+    return group;
+  }
+
+  /**
+   * Changes a stored group
+   *
+   * @param groupId Group identifier
+   * @param change Function returning the changed group
+   * @returns Promise resolving to the changed group
+   * @throws {Error} If the group does not exist or the database connector does not support groups
+   */
+  public async update(groupId: GroupId, change: (group: Group) => Group): Promise<Group> {
+    const store = this.store();
+    const group = change(await this.require(groupId));
+
+    await store.saveGroup(group);
+
+    return group;
+  }
+
+  /**
+   * Deletes a group, removing it from the groups it is nested in
+   *
+   * @param groupId Group identifier
+   * @throws {Error} If the group does not exist or the database connector does not support groups
+   */
+  public async delete(groupId: GroupId): Promise<void> {
+    const store = this.store();
+
+    await this.require(groupId);
+
+    for (const parent of await store.findGroups({ subgroupId: groupId })) {
+      await store.saveGroup({ ...parent, subgroupIds: parent.subgroupIds.filter(id => id !== groupId) });
+    }
+
+    await store.deleteGroup(groupId);
+  }
+
+  /**
+   * Gets the groups a user belongs to, directly or through nesting
+   *
+   * Groups are ordered by precedence: groups listing the user come first, followed
+   * by the groups containing them, and so on. Groups at the same distance are
+   * ordered by identifier. Without group support the user belongs to no groups.
+   *
+   * @param userId User identifier
+   * @returns Promise resolving to the user's groups, by precedence
+   */
+  public async getUserGroups(userId: string): Promise<Group[]> {
+    if (!this.isSupported()) {
+      return [];
+    }
+
+    const store = this.store();
+    const found = new Map<GroupId, Group>();
+    let level = await store.findGroups({ memberId: userId });
+
+    while (level.length > 0) {
+      const fresh = new Map<GroupId, Group>();
+
+      for (const group of level) {
+        if (!found.has(group.id)) {
+          fresh.set(group.id, group);
+        }
+      }
+
+      const ordered = Array.from(fresh.values()).sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+      ordered.forEach(group => found.set(group.id, group));
+
+      const parents = await Promise.all(ordered.map(group => store.findGroups({ subgroupId: group.id })));
+      level = parents.flat();
+    }
+
+    return Array.from(found.values());
+  }
+
+  /**
+   * Gets the roles a group grants its members, including those of the groups containing it
+   *
+   * @param groupId Group identifier
+   * @returns Promise resolving to the role identifiers, or an empty array if the group does not exist
+   * @throws {Error} If the database connector does not support groups
+   */
+  public async getGroupRoles(groupId: GroupId): Promise<RoleId[]> {
+    const store = this.store();
+    const roles = new Set<RoleId>();
+    const visited = new Set<GroupId>([groupId]);
+    let level = [await store.getGroup(groupId)].filter((group): group is Group => group !== null);
+
+    while (level.length > 0) {
+      level.forEach(group => group.roleIds.forEach(roleId => roles.add(roleId)));
+
+      const parents = await Promise.all(level.map(group => store.findGroups({ subgroupId: group.id })));
+      level = [];
+
+      for (const parent of parents.flat()) {
+        if (!visited.has(parent.id)) {
+          visited.add(parent.id);
+          level.push(parent);
+        }
+      }
+    }
+
+    return Array.from(roles);
+  }
+
+  /**
+   * Gets every user belonging to a group, directly or through its subgroups
+   *
+   * @param groupId Group identifier
+   * @returns Promise resolving to the user identifiers, or an empty array if the group does not exist
+   * @throws {Error} If the database connector does not support groups
+   */
+  public async getMemberIds(groupId: GroupId): Promise<string[]> {
+    const store = this.store();
+    const members = new Set<string>();
+    const visited = new Set<GroupId>();
+    const queue = [groupId];
+
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+
+      if (visited.has(id)) {
+        continue;
+      }
+
+      visited.add(id);
+      const group = await store.getGroup(id);
+
+      if (group) {
+        group.memberIds.forEach(memberId => members.add(memberId));
+        queue.push(...group.subgroupIds);
+      }
+    }
+
+    return Array.from(members);
+  }
+
+  /**
+   * Finds the cycle that nesting one group in another would create
+   *
+   * @param groupId Group receiving the subgroup
+   * @param subgroupId Group to nest
+   * @returns Promise resolving to the groups forming the cycle, starting and ending
+   * with groupId, or null if nesting is safe
+   * @throws {Error} If the database connector does not support groups
+   */
+  public async findNestingCycle(groupId: GroupId, subgroupId: GroupId): Promise<GroupId[] | null> {
+    const store = this.store();
+    const visited = new Set<GroupId>();
+
+    // Nesting creates a cycle when the group is already nested, at any depth, in the subgroup
+    const search = async (path: GroupId[]): Promise<GroupId[] | null> => {
+      const current = path[path.length - 1];
+
+      if (current === groupId) {
+        return [groupId, ...path];
+      }
+
+      if (visited.has(current)) {
+        return null;
+      }
+
+      visited.add(current);
+      const group = await store.getGroup(current);
+
+      for (const childId of group?.subgroupIds || []) {
+        const cycle = await search([...path, childId]);
+
+        if (cycle) {
+          return cycle;
+        }
+      }
+
+      return null;
+    };
+
+    return search([subgroupId]);
+  }
+
+  /**
+   * Gets a group that must exist
+   *
+   * @param groupId Group identifier
+   * @returns Promise resolving to the group
+   * @throws {Error} If the group does not exist
+   */
+  private async require(groupId: GroupId): Promise<Group> {
+    const group = await this.store().getGroup(groupId);
+
+    if (!group) {
+      throw new Error(`Group not found: ${groupId}`);
+    }
+
+    return group;
+  }
+
+  /**
+   * Gets the group storage methods of the database connector
+   *
+   * @returns Group storage methods
+   * @throws {Error} If the database connector does not support groups
+   */
+  private store(): GroupStore {
+    if (!this.isSupported()) {
+      throw new Error('The configured database does not support groups');
+    }
+
+    return this.connector as GroupStore;
+  }
+}
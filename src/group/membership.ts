@@ -0,0 +1,106 @@
+// file: src/group/membership.ts
+// description: Group records, filtering and merging of group roles and attributes shared by HBAC and the database connectors
+
+import { RoleId } from '../types/role';
+import { AttributeValues } from '../types/attribute';
+import { Group, GroupId, GroupQuery } from '../types/group';
+
+/**
+ * Creates an empty group
+ *
+ * @param groupId Group identifier
+ * @param description Optional description of the group's purpose
+ * @returns Group without members, subgroups, roles or attributes
+ */
+export function createGroupRecord(groupId: GroupId, description?: string): Group {
+  return {
+    id: groupId,
+    ...(description !== undefined ? { description } : {}),
+    memberIds: [],
+    subgroupIds: [],
+    roleIds: [],
+    attributes: {}
+  };
+}
+
+/**
+ * Checks a group identifier
+ *
+ * @param groupId Group identifier
+ * @throws {Error} If the identifier is not a non-empty string
+ */
+export function validateGroupId(groupId: GroupId): void {
+  if (typeof groupId !== 'string' || groupId.trim() === '') {
+    throw new Error(`Invalid group ID: ${String(groupId)}`);
+  }
+}
+
+/**
+ * Formats the audit subject referring to a group
+ *
+ * @param groupId Group identifier
+ * @returns Subject written as `group:id`
+ */
+export function toGroupSubject(groupId: GroupId): string {
+  return `group:${groupId}`;
+}
+
+/**
+ * Checks whether a group matches a query
+ *
+ * @param group Stored group
+ * @param query Filter with an optional member and subgroup
+ * @returns Boolean indicating if every given field matches
+ */
+export function matchesGroupQuery(group: Group, query: GroupQuery): boolean {
+  return (query.memberId === undefined || group.memberIds.includes(query.memberId)) &&
+    (query.subgroupId === undefined || group.subgroupIds.includes(query.subgroupId));
+}
+
+/**
+ * Copies the fields of a group, dropping anything else stored alongside it
+ *
+ * @param group Stored group
+ * @returns Group with only its own fields, filling in missing lists
+ */
+export function toGroup(group: Group): Group {
+  return {
+    id: group.id,
+    ...(group.description !== undefined && group.description !== null ? { description: group.description } : {}),
+    memberIds: [...(group.memberIds || [])],
+    subgroupIds: [...(group.subgroupIds || [])],
+    roleIds: [...(group.roleIds || [])],
+    attributes: { ...(group.attributes || {}) }
+  };
+}
+
+/**
+ * Adds the roles of a user's groups to the roles assigned to the user
+ *
+ * @param roleIds Roles assigned to the user
+ * @param groups Groups the user belongs to
+ * @returns Roles of the user and their groups, without duplicates
+ */
+export function mergeGroupRoles(roleIds: RoleId[], groups: Group[]): RoleId[] {
+  return Array.from(new Set([...roleIds, ...groups.flatMap(group => group.roleIds)]));
+}
+
+/**
+ * Adds the attributes of a user's groups to the attributes set on the user
+ *
+ * Values set on the user win over group values, and a group earlier in the list
+ * wins over those after it.
+ *
+ * @param attributes Attributes set on the user
+ * @param groups Groups the user belongs to, by precedence
+ * @returns Attributes of the user and their groups
+ */
+export function mergeGroupAttributes(attributes: AttributeValues, groups: Group[]): AttributeValues {
+  const merged: AttributeValues = {};
+
+  for (const group of [...groups].reverse()) {
+    Object.assign(merged, group.attributes);
+  }
+
+  return Object.assign(merged, attributes);
+}
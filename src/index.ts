@@ -4,8 +4,15 @@
 // Export HBAC class
 export { HBAC } from './HBAC';
 
+// Export audit sinks
+export { ConsoleAuditSink, FileAuditSink, DatabaseAuditSink, CallbackAuditSink } from './audit/sinks';
+export { verifyAuditLog, VerifyAuditLogOptions } from './audit/chain';
+
+// Export errors
+export { SoDViolationError } from './role/separation';
+
 // Export middleware
-export { protect } from './middleware/express';
+export { protect, canBatch, ObligationHandler } from './middleware/express';
 
 // Export React hooks
 export { HBACClient, HBACProvider, useHBAC, usePermission } from './react/components';
@@ -13,4 +20,5 @@ export { HBACClient, HBACProvider, useHBAC, usePermission } from './react/compon
 // Export types
 export * from './types';
 export * from './interfaces/config';
-export * from './interfaces/database';
\ No newline at end of file
+export * from './interfaces/database';
+export * from './interfaces/audit';
\ No newline at end of file
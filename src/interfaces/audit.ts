@@ -0,0 +1,23 @@
+// file: src/interfaces/audit.ts
+// description: Audit sink interface definition for the HBAC package
+
+import { AuditEntry } from '../types/audit';
+
+/**
+ * Destination for audit entries
+ * Implement this interface to forward the audit trail to custom storage
+ */
+export interface AuditSink {
+  /**
+   * Writes an audit entry
+   * @param entry - Entry to write
+   * @returns Promise that resolves when the entry is written, or nothing for synchronous sinks
+   */
+  write(entry: AuditEntry): Promise<void> | void;
+
+  /**
+   * Reads the most recently written entry, letting the hash chain resume after a restart
+   * @returns Promise resolving to the last entry or null if none was written
+   */
+  lastEntry?(): Promise<AuditEntry | null>;
+}
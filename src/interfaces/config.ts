@@ -5,11 +5,13 @@ import {
   DatabaseType,
   AuditLevel,
   PolicyEvaluationType,
+  PolicyMode,
   PolicyEffect
 } from '../types/config';
-import { RoleMap } from '../types/role';
+import { RoleMap, SoDConstraint } from '../types/role';
 import { AttributeMap } from '../types/attribute';
-import { PolicyRule } from '../types/policy';
+import { PolicyRule, PolicySet } from '../types/policy';
+import { RelationRuleMap } from '../types/relation';
 
 /**
  * Database configuration interface
@@ -59,8 +61,73 @@ export interface AuditConfig {
    * Log level for audit events
    */
   level: AuditLevel;
+
+  /**
+   * Destinations for audit entries (defaults to the console)
+   */
+  sinks?: AuditSinkConfig[];
+
+  /**
+   * Optional secret used to sign each entry's hash with HMAC-SHA256
+   */
+  hmacKey?: string;
+
+  /**
+   * Number of days to keep entries in database storage before pruning them
+   */
+  retentionDays?: number;
+}
+
+/**
+ * Console audit sink configuration
+ */
+export interface ConsoleAuditSinkConfig {
+  /**
+   * Sink type
+   */
+  type: 'console';
+}
+
+/**
+ * Rotating JSON Lines file audit sink configuration
+ */
+export interface FileAuditSinkConfig {
+  /**
+   * Sink type
+   */
+  type: 'file';
+
+  /**
+   * Path of the active log file
+   */
+  path: string;
+
+  /**
+   * Size in bytes at which the file is rotated (defaults to 10 MB)
+   */
+  maxSize?: number;
+
+  /**
+   * Number of rotated files to keep (defaults to 5)
+   */
+  maxFiles?: number;
 }
 
+/**
+ * Database audit sink configuration, storing entries through the database connector
+ */
+export interface DatabaseAuditSinkConfig {
+  /**
+   * Sink type
+   */
+  type: 'database';
+}
+
+/**
+ * Audit sink configuration
+ */
+export type AuditSinkConfig = ConsoleAuditSinkConfig | FileAuditSinkConfig | DatabaseAuditSinkConfig;
+
 /**
  * Policy configuration interface
  */
@@ -74,6 +141,28 @@ export interface PolicyConfig {
    * Policy evaluation algorithm
    */
   evaluation: PolicyEvaluationType;
+
+  /**
+   * Condition path holding the resource owner's user ID, used to enforce
+   * ownership-scoped (`:own`) permissions. Defaults to `resource.ownerId`.
+   */
+  ownerAttribute?: string;
+
+  /**
+   * Whether roles gate policy evaluation (`roleGated`, the default) or policy decisions
+   * come first and also bind wildcard roles (`policyFirst`)
+   */
+  mode?: PolicyMode;
+}
+
+/**
+ * Evaluation environment configuration interface
+ */
+export interface EnvironmentConfig {
+  /**
+   * IANA timezone used to derive env.dayOfWeek and env.hourOfDay (defaults to UTC)
+   */
+  timezone?: string;
 }
 
 /**
@@ -105,18 +194,38 @@ export interface HBACConfig {
    */
   policies: PolicyConfig;
 
+  /**
+   * Optional evaluation environment configuration
+   */
+  environment?: EnvironmentConfig;
+
   /**
    * Role definitions
    */
   roles: RoleMap;
 
+  /**
+   * Optional separation-of-duties constraints between roles
+   */
+  separationOfDuties?: SoDConstraint[];
+
   /**
    * Attribute definitions
    */
   attributes: AttributeMap;
 
+  /**
+   * Optional relation rewrite rules, keyed by object type and relation
+   */
+  relations?: RelationRuleMap;
+
   /**
    * Policy rules
    */
   policyRules: PolicyRule[];
+
+  /**
+   * Optional policy sets, combined with the policy rules using policies.evaluation
+   */
+  policySets?: PolicySet[];
 }
\ No newline at end of file
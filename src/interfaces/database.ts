@@ -1,9 +1,12 @@
 // file: src/interfaces/database.ts
 // description: Database connector interface definition for the HBAC package
 
-import { RoleId } from '../types/role';
+import { RoleId, RoleValidity } from '../types/role';
 import { AttributeId, AttributeValue } from '../types/attribute';
 import { UserAccessMap } from '../types/database';
+import { AuditEntry, AuditQuery, AuditQueryResult } from '../types/audit';
+import { RelationTuple, RelationTupleQuery } from '../types/relation';
+import { Group, GroupId, GroupQuery } from '../types/group';
 
 /**
  * Database connector interface for HBAC
@@ -17,11 +20,12 @@ export interface DatabaseConnector {
   initialize(): Promise<void>;
   
   /**
-   * Gets the roles assigned to a user
+   * Gets the roles assigned to a user, leaving out assignments that are not active yet or have expired
    * @param userId - User identifier
+   * @param scope - Optional scope whose roles are added to the user's unscoped roles
    * @returns Promise resolving to an array of role IDs
    */
-  getUserRoles(userId: string): Promise<RoleId[]>;
+  getUserRoles(userId: string, scope?: string): Promise<RoleId[]>;
   
   /**
    * Gets the attributes for a user
@@ -34,17 +38,35 @@ export interface DatabaseConnector {
    * Assigns a role to a user
    * @param userId - User identifier
    * @param roleId - Role identifier
+   * @param scope - Optional scope the role applies in; unscoped roles apply in every scope
+   * @param validity - Optional period the assignment is active; assigning the role again in the same scope replaces it
    * @returns Promise that resolves when the role is assigned
    */
-  assignRole(userId: string, roleId: RoleId): Promise<void>;
+  assignRole(userId: string, roleId: RoleId, scope?: string, validity?: RoleValidity): Promise<void>;
   
   /**
    * Removes a role from a user
    * @param userId - User identifier
    * @param roleId - Role identifier
+   * @param scope - Optional scope the role was assigned in
    * @returns Promise that resolves when the role is removed
    */
-  removeRole(userId: string, roleId: RoleId): Promise<void>;
+  removeRole(userId: string, roleId: RoleId, scope?: string): Promise<void>;
+
+  /**
+   * Gets when a user's roles next change because a time-bound assignment starts or expires
+   * Optional; without it, cached roles are kept for the full cache TTL
+   * @param userId - User identifier
+   * @param scope - Optional scope whose assignments are considered too
+   * @returns Promise resolving to the time of the next change, or null if none is scheduled
+   */
+  getNextRoleChange?(userId: string, scope?: string): Promise<Date | null>;
+
+  /**
+   * Deletes role assignments that have expired
+   * @returns Promise resolving to the number of deleted assignments
+   */
+  purgeExpiredAssignments(): Promise<number>;
   
   /**
    * Sets an attribute value for a user
@@ -61,4 +83,84 @@ export interface DatabaseConnector {
    * @returns Promise resolving to the user access map or null if not found
    */
   getUserAccessMap(userId: string): Promise<UserAccessMap | null>;
+
+  /**
+   * Gets the access maps of every stored user
+   * Optional; required for reports that scan all users, such as separation-of-duties violations
+   * @returns Promise resolving to all user access maps
+   */
+  listUserAccessMaps?(): Promise<UserAccessMap[]>;
+
+  /**
+   * Stores an audit entry
+   * Optional; connectors without audit storage omit the audit methods
+   * @param entry - Entry to store
+   * @returns Promise that resolves when the entry is stored
+   */
+  saveAuditEntry?(entry: AuditEntry): Promise<void>;
+
+  /**
+   * Searches stored audit entries, newest first
+   * @param query - Filters and pagination
+   * @returns Promise resolving to a page of matching entries
+   */
+  queryAuditEntries?(query: AuditQuery): Promise<AuditQueryResult>;
+
+  /**
+   * Deletes audit entries recorded before a point in time
+   * @param before - Entries older than this are deleted
+   * @returns Promise resolving to the number of deleted entries
+   */
+  pruneAuditEntries?(before: Date): Promise<number>;
+
+  /**
+   * Stores a relation tuple; storing an existing tuple again has no effect
+   * Optional; connectors without relationship storage omit the relation tuple methods
+   * @param tuple - Tuple to store
+   * @returns Promise that resolves when the tuple is stored
+   */
+  writeRelationTuple?(tuple: RelationTuple): Promise<void>;
+
+  /**
+   * Deletes a relation tuple
+   * @param tuple - Tuple to delete
+   * @returns Promise that resolves when the tuple is deleted
+   */
+  deleteRelationTuple?(tuple: RelationTuple): Promise<void>;
+
+  /**
+   * Reads the relation tuples matching a filter
+   * @param query - Filter with optional object, relation and subject
+   * @returns Promise resolving to the matching tuples
+   */
+  readRelationTuples?(query: RelationTupleQuery): Promise<RelationTuple[]>;
+
+  /**
+   * Gets a group
+   * Optional; connectors without group storage omit the group methods
+   * @param groupId - Group identifier
+   * @returns Promise resolving to the group or null if not found
+   */
+  getGroup?(groupId: GroupId): Promise<Group | null>;
+
+  /**
+   * Stores a group, replacing any stored group with the same identifier
+   * @param group - Group to store
+   * @returns Promise that resolves when the group is stored
+   */
+  saveGroup?(group: Group): Promise<void>;
+
+  /**
+   * Deletes a group
+   * @param groupId - Group identifier
+   * @returns Promise that resolves when the group is deleted
+   */
+  deleteGroup?(groupId: GroupId): Promise<void>;
+
+  /**
+   * Finds the groups matching a filter
+   * @param query - Filter with an optional member and subgroup
+   * @returns Promise resolving to the matching groups
+   */
+  findGroups?(query: GroupQuery): Promise<Group[]>;
 }
\ No newline at end of file
@@ -3,6 +3,9 @@
 
 import { Request, Response, NextFunction } from 'express';
 import { HBAC } from '../HBAC';
+import { PolicyObligation } from '../types/policy';
+import { PermissionCheck } from '../types/decision';
+import { getPermissionCheckKeys } from '../policy/check';
 
 /**
  * Extended Request interface to support authentication middleware
@@ -19,6 +22,22 @@ export interface AuthenticatedRequest extends Request {
   };
 }
 
+/**
+ * Context keys only the server may set, dropped from context sent by clients
+ */
+const SERVER_CONTEXT_KEYS = ['ip'];
+
+/**
+ * Handler carrying out an obligation or advice attached to a decision
+ * 
+ * Return false to report that an obligation could not be fulfilled.
+ */
+export type ObligationHandler = (
+  obligation: PolicyObligation,
+  req: AuthenticatedRequest,
+  res: Response
+) => boolean | void | Promise<boolean | void>;
+
 /**
  * Options for configuring the HBAC route protection middleware
  */
@@ -32,6 +51,29 @@ interface ProtectOptions {
    * Optional function to extract user ID from the request
    */
   getUserId?: (req: AuthenticatedRequest) => string | null;
+
+  /**
+   * Optional function to extract the tenant or organization scope from the request
+   */
+  getScope?: (req: AuthenticatedRequest) => string | undefined;
+
+  /**
+   * How to determine the client IP exposed to policies as context.ip
+   * 
+   * - undefined: use req.ip, which follows the Express "trust proxy" setting
+   * - false: use the socket address and ignore X-Forwarded-For
+   * - true: use the left-most X-Forwarded-For address
+   * - number: trust that many proxy hops from the right of X-Forwarded-For
+   */
+  trustProxy?: boolean | number;
+
+  /**
+   * Handlers for obligation and advice identifiers. Access is denied when an
+   * obligation has no handler or its handler returns false; advice without a
+   * handler is ignored. When a handler sends a response itself, the middleware
+   * neither responds nor passes the request on.
+   */
+  obligations?: Record<string, ObligationHandler>;
 }
 
 /**
@@ -65,13 +107,25 @@ export function protect(
       
       // Extract context, with fallback to empty object
       const getContext = options.getContext || (() => ({}));
-      const context = getContext(req);
+      const ip = getClientIp(req, options.trustProxy);
+      const context = ip ? { ip, ...getContext(req) } : getContext(req);
       
       // Check permission using HBAC
-      const allowed = await hbac.can(userId, action, resource, context);
+      const scope = options.getScope ? options.getScope(req) : undefined;
+      const result = await hbac.authorize(userId, action, resource, context, { scope });
+      const handlers = options.obligations || {};
+      
+      // Obligations are fulfilled whatever the decision; failing one denies access
+      const fulfilled = await fulfilObligations(result.obligations, handlers, req, res);
+      await followAdvice(result.advice, handlers, req, res);
+      
+      // A handler may already have responded, for example with a redirect
+      if (res.headersSent) {
+        return;
+      }
       
       // If not allowed, return forbidden
-      if (!allowed) {
+      if (!result.allowed || !fulfilled) {
         return res.status(403).json({ 
           message: 'Access denied',
           details: { action, resource }
@@ -83,6 +137,11 @@ export function protect(
     } catch (error) {
       // Handle any unexpected errors during permission check
       console.error('HBAC middleware error:', error);
+      
+      if (res.headersSent) {
+        return;
+      }
+      
       return res.status(500).json({ 
         message: 'Internal server error', 
         error: error instanceof Error ? error.message : 'Unknown error' 
@@ -91,6 +150,197 @@ export function protect(
   };
 }
 
+/**
+ * Creates an Express handler for `POST /can/batch`, as used by HBACClient.canMany
+ * 
+ * The body holds `{ checks: [{ key?, action, resource, context? }] }` and the response
+ * is `{ results: { [key]: boolean } }`. The user is taken from the authenticated request
+ * rather than the body, and the server-side context (context.ip and getContext) takes
+ * precedence over context sent by the client; an `ip` sent by the client is always dropped. Malformed checks and duplicate keys
+ * are rejected with 400.
+ * 
+ * @param hbac HBAC instance for access control
+ * @param options Optional configuration for user ID and context extraction
+ * @returns Express request handler
+ */
+export function canBatch(
+  hbac: HBAC,
+  options: Omit<ProtectOptions, 'obligations'> = {}
+) {
+  return async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const getUserId = options.getUserId || defaultGetUserId;
+      const userId = getUserId(req);
+
+      if (!userId) {
+        return res.status(401).json({
+          message: 'Authentication required',
+          error: 'No user identifier found'
+        });
+      }
+
+      const checks: PermissionCheck[] = req.body?.checks;
+
+      if (!Array.isArray(checks)) {
+        return res.status(400).json({
+          message: 'Invalid request',
+          error: 'Request body must contain a checks array'
+        });
+      }
+
+      const invalid = findInvalidCheck(checks);
+
+      if (invalid) {
+        return res.status(400).json({
+          message: 'Invalid request',
+          error: invalid
+        });
+      }
+
+      const getContext = options.getContext || (() => ({}));
+      const ip = getClientIp(req, options.trustProxy);
+      const serverContext = ip ? { ip, ...getContext(req) } : getContext(req);
+
+      const scope = options.getScope ? options.getScope(req) : undefined;
+      const results = await hbac.canMany(
+        userId,
+        checks.map(check => ({ ...check, context: { ...withoutServerKeys(check.context), ...serverContext } })),
+        { scope }
+      );
+
+      return res.json({ results });
+    } catch (error) {
+      console.error('HBAC batch check error:', error);
+      return res.status(500).json({
+        message: 'Internal server error',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  };
+}
+
+/**
+ * Removes the context keys only the server may set, so clients cannot supply them
+ * when the server has no value of its own, such as an unknown client IP
+ * 
+ * @param context Context sent by the client
+ * @returns Copy of the context without server-owned keys
+ */
+function withoutServerKeys(context: Record<string, any> | undefined): Record<string, any> {
+  const clientContext = { ...context };
+  SERVER_CONTEXT_KEYS.forEach(key => delete clientContext[key]);
+
+  return clientContext;
+}
+
+/**
+ * Finds the first malformed check in a batch sent by a client
+ * 
+ * @param checks Checks from the request body
+ * @returns Description of the problem, or null if every check is valid and has its own key
+ */
+function findInvalidCheck(checks: unknown[]): string | null {
+  const isObject = (value: unknown): value is Record<string, any> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+  for (const [index, check] of checks.entries()) {
+    if (!isObject(check)) {
+      return `Check ${index} must be an object`;
+    }
+
+    if (typeof check.action !== 'string' || check.action === '') {
+      return `Check ${index} must have an action string`;
+    }
+
+    const resource = check.resource;
+    const validResource = typeof resource === 'string'
+      ? resource !== ''
+      : isObject(resource) && typeof resource.type === 'string' && resource.type !== '' &&
+        (resource.attributes === undefined || isObject(resource.attributes));
+
+    if (!validResource) {
+      return `Check ${index} must have a resource string or a resource descriptor with a type`;
+    }
+
+    if (check.context !== undefined && !isObject(check.context)) {
+      return `Check ${index} context must be an object`;
+    }
+
+    if (check.key !== undefined && typeof check.key !== 'string') {
+      return `Check ${index} key must be a string`;
+    }
+  }
+
+  try {
+    getPermissionCheckKeys(checks as PermissionCheck[]);
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  return null;
+}
+
+/**
+ * Runs the handler of every obligation, in order
+ * 
+ * @param obligations Obligations attached to the decision
+ * @param handlers Registered handlers by identifier
+ * @param req Authenticated request object
+ * @param res Response object
+ * @returns Promise resolving to false if an obligation has no handler or was not fulfilled
+ */
+async function fulfilObligations(
+  obligations: PolicyObligation[],
+  handlers: Record<string, ObligationHandler>,
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<boolean> {
+  for (const obligation of obligations) {
+    const handler = handlers[obligation.id];
+
+    if (!handler) {
+      console.error(`HBAC obligation has no handler: ${obligation.id}`);
+      return false;
+    }
+
+    if (await handler(obligation, req, res) === false) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Runs the handlers registered for advice, ignoring advice without one
+ * 
+ * @param advice Advice attached to the decision
+ * @param handlers Registered handlers by identifier
+ * @param req Authenticated request object
+ * @param res Response object
+ */
+async function followAdvice(
+  advice: PolicyObligation[],
+  handlers: Record<string, ObligationHandler>,
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  for (const item of advice) {
+    const handler = handlers[item.id];
+
+    if (!handler) {
+      continue;
+    }
+
+    try {
+      await handler(item, req, res);
+    } catch (error) {
+      // Advice is optional, so a failing handler does not affect the decision
+      console.error('HBAC advice handler error:', error);
+    }
+  }
+}
+
 /**
  * Default method to extract user ID from request
  * 
@@ -105,4 +355,42 @@ function defaultGetUserId(req: AuthenticatedRequest): string | null {
     req.session?.userId || 
     null
   );
+}
+
+/**
+ * Determines the client IP address of a request
+ * 
+ * @param req Authenticated request object
+ * @param trustProxy Trusted proxy setting
+ * @returns Client IP address or null if it cannot be determined
+ */
+function getClientIp(
+  req: AuthenticatedRequest,
+  trustProxy: boolean | number | undefined
+): string | null {
+  const socketAddress = req.socket?.remoteAddress || null;
+
+  if (trustProxy === undefined) {
+    return req.ip || socketAddress;
+  }
+
+  const header = req.headers?.['x-forwarded-for'];
+  const forwarded = (Array.isArray(header) ? header.join(',') : header || '')
+    .split(',')
+    .map(address => address.trim())
+    .filter(Boolean);
+
+  if (trustProxy === false || forwarded.length === 0) {
+    return socketAddress;
+  }
+
+  if (trustProxy === true) {
+    return forwarded[0];
+  }
+
+  // The socket peer is the nearest proxy; each further trusted hop is read from the right
+  const addresses = socketAddress ? [...forwarded, socketAddress] : forwarded;
+  const index = Math.max(addresses.length - 1 - trustProxy, 0);
+
+  return addresses[index];
 }
\ No newline at end of file
@@ -0,0 +1,38 @@
+// file: src/policy/check.ts
+// description: Keys for batched permission checks, shared by the server and browser clients
+
+import { PermissionCheck } from '../types/decision';
+
+/**
+ * Gets the key a batched check's result is returned under
+ * 
+ * @param check Permission check
+ * @returns The check's own key, or resource:action using the resource type
+ */
+export function getPermissionCheckKey(check: PermissionCheck): string {
+  if (check.key !== undefined) {
+    return check.key;
+  }
+
+  const resourceType = typeof check.resource === 'string' ? check.resource : check.resource.type;
+
+  return `${resourceType}:${check.action}`;
+}
+
+/**
+ * Gets the keys of a batch of checks, rejecting duplicates
+ * 
+ * @param checks Permission checks
+ * @returns Keys in the order of the checks
+ * @throws {Error} If two checks share a key
+ */
+export function getPermissionCheckKeys(checks: PermissionCheck[]): string[] {
+  const keys = checks.map(getPermissionCheckKey);
+  const duplicate = keys.find((key, index) => keys.indexOf(key) !== index);
+
+  if (duplicate !== undefined) {
+    throw new Error(`Duplicate permission check key: ${duplicate}`);
+  }
+
+  return keys;
+}
@@ -1,232 +1,808 @@
 // file: src/policy/engine.ts
 // description: Core policy evaluation engine that makes access control decisions
 
-import { PolicyRule, PolicyEffect, PolicyEvaluationType } from '../types';
+import {
+  PolicyRule,
+  PolicySet,
+  PolicyMember,
+  PolicyEffect,
+  PolicyEvaluationType,
+  PolicyMode,
+  PolicyId,
+  DecisionExplanation,
+  DecisionStep,
+  RuleExplanation,
+  ConditionExplanation,
+  ResourceInput,
+  AccessRequest,
+  Permission,
+  RelationLookup
+} from '../types';
 import { RoleManager } from '../role/manager';
+import { matchesPattern, parsePermission, ParsedPermission } from '../role/pattern';
 import { AttributeManager } from '../attribute/manager';
+import { readsEnvironment } from '../attribute/operators';
 import { AttributeValues } from '../types/attribute';
 
+/**
+ * Default condition path holding the resource owner's user ID
+ */
+const DEFAULT_OWNER_ATTRIBUTE = 'resource.ownerId';
+
+/**
+ * Priority of policy rules that do not declare one
+ */
+const DEFAULT_RULE_PRIORITY = 0;
+
+/**
+ * Evaluation mode used when none is configured
+ */
+const DEFAULT_POLICY_MODE: PolicyMode = 'roleGated';
+
+/**
+ * Optional settings for the policy engine
+ */
+export interface PolicyEngineOptions {
+  /**
+   * Condition path holding the resource owner's user ID, checked for ownership-scoped
+   * permissions (defaults to resource.ownerId)
+   */
+  ownerAttribute?: string;
+
+  /**
+   * Whether roles gate policy evaluation or policy decisions come first (defaults to roleGated)
+   */
+  mode?: PolicyMode;
+}
+
+/**
+ * Result of running a combining algorithm over a set of policy rules
+ */
+interface CombiningResult {
+  allowed: boolean;
+  step: DecisionStep;
+  ruleIds: PolicyId[];
+}
+
+/**
+ * Request values and evaluation state shared while combining policies
+ */
+interface EvaluationScope {
+  userAttributes: AttributeValues;
+  context: Record<string, any>;
+  request: AccessRequest;
+
+  /**
+   * Rule explanations keyed by rule, so rules sharing an identifier are evaluated separately
+   */
+  trace: Map<PolicyRule, RuleExplanation>;
+
+  /**
+   * Results of policy sets already combined, or null when a set did not apply
+   */
+  setResults: Map<PolicySet, CombiningResult | null>;
+}
+
 /**
  * Policy Engine responsible for evaluating complex access control rules
  * 
  * This engine combines role-based and attribute-based access control strategies
- * to provide fine-grained access control decisions.
+ * to provide fine-grained access control decisions. Policy rules and policy sets
+ * form a tree: each set combines its members with its own algorithm, and the
+ * top level combines its members with the configured evaluation type.
  */
 export class PolicyEngine {
+  /**
+   * Top-level policy rules and sets, ordered by priority
+   */
+  private policies: PolicyMember[];
+
+  /**
+   * Every rule in the policy tree, keyed by identifier
+   */
+  private rulesById: Map<PolicyId, PolicyRule>;
+
+  /**
+   * Rules whose conditions read built-in environment values
+   */
+  private environmentRules: Set<PolicyRule>;
+
   /**
    * Creates a new PolicyEngine instance
    * 
-   * @param policyRules - Collection of policy rules to evaluate
+   * @param policies - Collection of policy rules and policy sets to evaluate
    * @param defaultEffect - Default access decision when no rules match
    * @param evaluationType - Strategy for evaluating multiple applicable rules
    * @param roleManager - Manager for handling role-based permissions
    * @param attributeManager - Manager for handling attribute-based conditions
+   * @param options - Optional engine settings
    */
   constructor(
-    private policyRules: PolicyRule[],
+    policies: PolicyMember[],
     private defaultEffect: PolicyEffect,
     private evaluationType: PolicyEvaluationType,
     private roleManager: RoleManager,
-    private attributeManager: AttributeManager
-  ) {}
+    private attributeManager: AttributeManager,
+    private options: PolicyEngineOptions = {}
+  ) {
+    this.policies = sortByPriority(policies);
+    this.rulesById = new Map(collectRuleDefinitions(policies).map(rule => [rule.id, rule]));
+    this.environmentRules = new Set(collectRuleDefinitions(policies).filter(rule => readsEnvironment(rule.condition)));
+  }
 
   /**
    * Evaluates whether a user has permission to perform an action on a resource
    * 
    * @param userRoleIds - Roles assigned to the user
    * @param userAttributes - Attributes associated with the user
-   * @param resource - Resource being accessed
+   * @param resource - Resource type, or resource descriptor with attributes
    * @param action - Action being performed
    * @param context - Additional context for more granular evaluation
+   * @param userId - Identifier of the requesting user, referenced as $user.id
+   * @param relations - Relationship lookup used by $related conditions
    * @returns Boolean indicating whether access is allowed
    */
   public evaluate(
     userRoleIds: string[],
     userAttributes: AttributeValues,
-    resource: string,
+    resource: ResourceInput,
     action: string,
-    context: Record<string, any> = {}
+    context: Record<string, any> = {},
+    userId?: string,
+    relations?: RelationLookup
   ): boolean {
+    return this.explain(userRoleIds, userAttributes, resource, action, context, userId, relations).allowed;
+  }
+
+  /**
+   * Evaluates access and records how the decision was reached
+   * 
+   * @param userRoleIds - Roles assigned to the user
+   * @param userAttributes - Attributes associated with the user
+   * @param resource - Resource type, or resource descriptor with attributes
+   * @param action - Action being performed
+   * @param context - Additional context for more granular evaluation
+   * @param userId - Identifier of the requesting user, referenced as $user.id
+   * @param relations - Relationship lookup used by $related conditions
+   * @returns Structured explanation of the decision
+   */
+  public explain(
+    userRoleIds: string[],
+    userAttributes: AttributeValues,
+    resource: ResourceInput,
+    action: string,
+    context: Record<string, any> = {},
+    userId?: string,
+    relations?: RelationLookup
+  ): DecisionExplanation {
+    // Role permissions and policy rules target the resource type
+    const resourceType = typeof resource === 'string' ? resource : resource.type;
+    const request: AccessRequest = {
+      userId,
+      resource: typeof resource === 'string' ? undefined : resource,
+      relations
+    };
+
+    // Check role-based permissions
+    const permission = this.roleManager.findPermissionMatch(userRoleIds, resourceType, action);
+
+    // Keep the rules, and the sets containing rules, that target the resource and action
+    const relevant = selectRelevant(this.policies, resourceType, action);
+
+    const scope: EvaluationScope = {
+      userAttributes,
+      context,
+      request,
+      trace: new Map(collectRules(relevant)),
+      setResults: new Map()
+    };
+
+    // Rules whose conditions were checked before a role-based decision
+    const evaluatedRules = (): RuleExplanation[] =>
+      Array.from(scope.trace.values()).filter(rule => rule.evaluated);
+
+    let ownership: ConditionExplanation | undefined;
+
+    const decide = (
+      rules: RuleExplanation[],
+      result: CombiningResult
+    ): DecisionExplanation => {
+      // Only deciding rules with the final effect contribute obligations and advice
+      const deciding = result.ruleIds
+        .map(ruleId => this.rulesById.get(ruleId))
+        .filter((rule): rule is PolicyRule => rule?.effect === (result.allowed ? 'allow' : 'deny'));
+
+      return {
+        allowed: result.allowed,
+        effect: result.allowed ? 'allow' : 'deny',
+        resource: resourceType,
+        resourceId: request.resource?.id,
+        action,
+        roles: userRoleIds,
+        permission,
+        ownership,
+        evaluation: this.evaluationType,
+        mode: this.options.mode || DEFAULT_POLICY_MODE,
+        rules,
+        environmentDependent: Array.from(scope.trace).some(
+          ([rule, explanation]) => explanation.evaluated && this.environmentRules.has(rule)
+        ),
+        decidedBy: { step: result.step, ruleIds: result.ruleIds },
+        obligations: deciding.flatMap(rule => rule.obligations || []),
+        advice: deciding.flatMap(rule => rule.advice || [])
+      };
+    };
+
+    // Policy decisions come first in policyFirst mode: they bind wildcard roles
+    // and can grant access without any role permission
+    if (this.options.mode === 'policyFirst' && relevant.length > 0) {
+      const result = this.combine(this.evaluationType, relevant, scope);
+
+      if (result) {
+        return decide(Array.from(scope.trace.values()), result);
+      }
+    }
+
     // Check if user has wildcard permission (administrative override)
-    if (this.hasWildcardPermission(userRoleIds)) {
-      return true;
+    if (permission?.matchType === 'wildcard') {
+      return decide(evaluatedRules(), { allowed: true, step: 'wildcardPermission', ruleIds: [] });
     }
-    
-    // Check role-based permissions
-    const hasRolePermission = this.roleManager.hasPermission(userRoleIds, resource, action);
-    
+
     // If the user has no role-based permission, deny access
-    if (!hasRolePermission) {
-      return false;
-    }
-    
-    // Filter relevant policy rules
-    const relevantRules = this.policyRules.filter(rule => 
-      (rule.resource === resource || rule.resource === '*') &&
-      (rule.action === action || rule.action === '*')
-    );
-    
+    if (!permission) {
+      return decide(evaluatedRules(), { allowed: false, step: 'noRolePermission', ruleIds: [] });
+    }
+
+    // Ownership-scoped permissions require the user to own the resource
+    if (permission.matchType === 'own') {
+      const ownerAttribute = this.options.ownerAttribute || DEFAULT_OWNER_ATTRIBUTE;
+      ownership = this.attributeManager.explainCondition(
+        { [ownerAttribute]: '$user.id' },
+        userAttributes,
+        context,
+        request
+      );
+
+      if (!ownership.satisfied) {
+        return decide(evaluatedRules(), { allowed: false, step: 'notOwner', ruleIds: [] });
+      }
+    }
+
     // If no relevant rules, use role-based decision
-    if (relevantRules.length === 0) {
-      return true;  // Role-based permission already granted
+    if (relevant.length === 0) {
+      // Role-based permission already granted
+      return decide([], { allowed: true, step: 'noApplicableRules', ruleIds: [] });
     }
-    
-    return this.evaluatePolicyRules(relevantRules, userAttributes, context);
+
+    // Fall back to the default effect when nothing applies
+    const result = this.combine(this.evaluationType, relevant, scope) ?? this.defaultResult();
+
+    return decide(Array.from(scope.trace.values()), result);
+  }
+
+  /**
+   * Lists the actions a user may perform on a resource
+   * 
+   * Candidates come from the user's effective role permissions; action wildcards and
+   * patterns are expanded to the concrete actions named by any role permission or
+   * policy rule for the resource. In policyFirst mode, where rules can grant access
+   * without a role permission, every known action is a candidate. Each candidate is
+   * then decided like a regular request.
+   * 
+   * @param userRoleIds - Roles assigned to the user
+   * @param userAttributes - Attributes associated with the user
+   * @param resource - Resource type, or resource descriptor with attributes
+   * @param context - Additional context for more granular evaluation
+   * @param userId - Identifier of the requesting user, referenced as $user.id
+   * @param relations - Relationship lookup used by $related conditions
+   * @returns Allowed actions, in configuration order
+   */
+  public listAllowedActions(
+    userRoleIds: string[],
+    userAttributes: AttributeValues,
+    resource: ResourceInput,
+    context: Record<string, any> = {},
+    userId?: string,
+    relations?: RelationLookup
+  ): string[] {
+    const resourceType = typeof resource === 'string' ? resource : resource.type;
+    const granted = this.getGrantedPermissions(userRoleIds)
+      .filter(permission => matchesPattern(permission.resource, resourceType))
+      .map(permission => permission.action);
+
+    const candidates = this.expandCandidates(granted, this.getKnownNames(resourceType));
+
+    return candidates.filter(action =>
+      this.explain(userRoleIds, userAttributes, resource, action, context, userId, relations).allowed
+    );
+  }
+
+  /**
+   * Lists the permissions a user effectively holds once policy rules are applied
+   * 
+   * Resource wildcards and patterns are expanded to the concrete resources named in
+   * the configuration, and each resource type is checked with listAllowedActions
+   * without a resource instance. Ownership-scoped permissions depend on the instance,
+   * so they are listed as configured and must be checked against the instance itself.
+   * 
+   * @param userRoleIds - Roles assigned to the user
+   * @param userAttributes - Attributes associated with the user
+   * @param context - Additional context for more granular evaluation
+   * @param userId - Identifier of the requesting user, referenced as $user.id
+   * @param relations - Relationship lookup used by $related conditions
+   * @returns Allowed resource:action permissions, followed by ownership-scoped ones
+   */
+  public listPermissions(
+    userRoleIds: string[],
+    userAttributes: AttributeValues,
+    context: Record<string, any> = {},
+    userId?: string,
+    relations?: RelationLookup
+  ): Permission[] {
+    const granted = this.getGrantedPermissions(userRoleIds);
+    const resources = this.expandCandidates(
+      granted.map(permission => permission.resource),
+      this.getKnownNames()
+    );
+
+    const permissions = resources.flatMap(resourceType =>
+      this.listAllowedActions(userRoleIds, userAttributes, resourceType, context, userId, relations)
+        .map((action): Permission => `${resourceType}:${action}`)
+    );
+
+    const owned = granted
+      .filter(permission => permission.own)
+      .map((permission): Permission => `${permission.resource}:${permission.action}:own`);
+
+    return Array.from(new Set([...permissions, ...owned]));
   }
 
   /**
-   * Checks if any of the specified roles have a wildcard permission
+   * Parses the effective role permissions of a user, skipping malformed ones
    * 
-   * @param roleIds Array of role identifiers
-   * @returns Boolean indicating if a wildcard permission exists
+   * @param userRoleIds - Roles assigned to the user
+   * @returns Parsed permissions of the roles and the roles they inherit from
    */
-  private hasWildcardPermission(roleIds: string[]): boolean {
-    return roleIds.some(roleId => {
-      const role = this.roleManager.getRole(roleId);
-      return role ? role.permissions.includes('*:*') : false;
+  private getGrantedPermissions(userRoleIds: string[]): ParsedPermission[] {
+    return Array.from(this.roleManager.getPermissionsForRoles(userRoleIds))
+      .map(permission => parsePermission(permission))
+      .filter((permission): permission is ParsedPermission => permission !== null);
+  }
+
+  /**
+   * Collects the concrete resource types, or the concrete actions on a resource type,
+   * named by role permissions and policy rules
+   * 
+   * @param resourceType - Resource type to list actions for; resource types are listed when omitted
+   * @returns Names without wildcards, in configuration order
+   */
+  private getKnownNames(resourceType?: string): string[] {
+    const targets = [
+      ...Object.values(this.roleManager.getRoles())
+        .flatMap(role => role.permissions)
+        .map(permission => parsePermission(permission))
+        .filter((permission): permission is ParsedPermission => permission !== null),
+      ...this.rulesById.values()
+    ];
+
+    const names = targets
+      .filter(target => resourceType === undefined || matchesPattern(target.resource, resourceType))
+      .map(target => (resourceType === undefined ? target.resource : target.action))
+      .filter(name => !name.includes('*'));
+
+    return Array.from(new Set(names));
+  }
+
+  /**
+   * Expands granted patterns into concrete candidate names
+   * 
+   * @param patterns - Resource or action patterns granted by role permissions
+   * @param known - Concrete names from the configuration
+   * @returns Concrete granted names followed by the known names matching a pattern;
+   * in policyFirst mode every known name is included
+   */
+  private expandCandidates(patterns: string[], known: string[]): string[] {
+    const candidates = new Set(patterns.filter(pattern => !pattern.includes('*')));
+    const wildcards = patterns.filter(pattern => pattern.includes('*'));
+
+    for (const name of known) {
+      if (this.options.mode === 'policyFirst' || wildcards.some(pattern => matchesPattern(pattern, name))) {
+        candidates.add(name);
+      }
+    }
+
+    return Array.from(candidates);
+  }
+
+  /**
+   * Evaluates a rule's condition and records the outcome in the trace
+   * 
+   * @param rule - Policy rule to evaluate
+   * @param scope - Request values and evaluation state
+   * @returns Boolean indicating whether the rule's condition matched
+   */
+  private matchRule(rule: PolicyRule, scope: EvaluationScope): boolean {
+    const explanation = scope.trace.get(rule)!;
+
+    if (explanation.evaluated) {
+      return explanation.matched;
+    }
+
+    const condition = this.attributeManager.explainCondition(
+      rule.condition,
+      scope.userAttributes,
+      scope.context,
+      scope.request
+    );
+
+    scope.trace.set(rule, {
+      ...explanation,
+      evaluated: true,
+      matched: condition.satisfied,
+      condition
     });
+
+    return condition.satisfied;
+  }
+
+  /**
+   * Evaluates a rule or policy set
+   * 
+   * @param member - Policy rule or set to evaluate
+   * @param scope - Request values and evaluation state
+   * @returns Decision of the member, or null if it does not apply
+   */
+  private evaluateMember(member: PolicyMember, scope: EvaluationScope): CombiningResult | null {
+    if (!isPolicySet(member)) {
+      return this.matchRule(member, scope)
+        ? { allowed: member.effect === 'allow', step: 'ruleMatched', ruleIds: [member.id] }
+        : null;
+    }
+
+    if (!scope.setResults.has(member)) {
+      scope.setResults.set(member, this.combine(member.evaluation, member.policies, scope));
+    }
+
+    return scope.setResults.get(member)!;
+  }
+
+  /**
+   * Finds the first member that decides with a given effect
+   * 
+   * Rules with the other effect are skipped without evaluating their condition.
+   * 
+   * @param members - Policy rules and sets to evaluate
+   * @param effect - Effect to look for
+   * @param scope - Request values and evaluation state
+   * @returns Decision of the first matching member, or undefined if none matched
+   */
+  private findDecision(
+    members: PolicyMember[],
+    effect: PolicyEffect,
+    scope: EvaluationScope
+  ): CombiningResult | undefined {
+    for (const member of members) {
+      if (!isPolicySet(member) && member.effect !== effect) {
+        continue;
+      }
+
+      const decision = this.evaluateMember(member, scope);
+
+      if (decision && decision.allowed === (effect === 'allow')) {
+        return decision;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Builds the result for falling back to the default effect
+   * 
+   * @returns Combining result using the default effect
+   */
+  private defaultResult(): CombiningResult {
+    return { allowed: this.defaultEffect === 'allow', step: 'defaultEffect', ruleIds: [] };
   }
 
   /**
    * Selects and executes the appropriate policy evaluation strategy
    * 
-   * @param rules - Applicable policy rules
-   * @param userAttributes - User's attributes
-   * @param context - Additional evaluation context
-   * @returns Boolean indicating whether access is allowed
+   * @param evaluationType - Combining algorithm to apply
+   * @param members - Applicable policy rules and sets
+   * @param scope - Request values and evaluation state
+   * @returns Combining result, or null if no member applies
    */
-  private evaluatePolicyRules(
-    rules: PolicyRule[],
-    userAttributes: AttributeValues,
-    context: Record<string, any>
-  ): boolean {
-    switch (this.evaluationType) {
+  private combine(
+    evaluationType: PolicyEvaluationType,
+    members: PolicyMember[],
+    scope: EvaluationScope
+  ): CombiningResult | null {
+    switch (evaluationType) {
       case 'firstApplicable':
-        return this.evaluateFirstApplicable(rules, userAttributes, context);
+        return this.evaluateFirstApplicable(members, scope);
       case 'allApplicable':
-        return this.evaluateAllApplicable(rules, userAttributes, context);
+        return this.evaluateAllApplicable(members, scope);
       case 'denyOverrides':
-        return this.evaluateDenyOverrides(rules, userAttributes, context);
+        return this.evaluateDenyOverrides(members, scope);
+      case 'permitOverrides':
+        return this.evaluatePermitOverrides(members, scope);
+      case 'denyUnlessPermit':
+        return this.evaluateDenyUnlessPermit(members, scope);
+      case 'permitUnlessDeny':
+        return this.evaluatePermitUnlessDeny(members, scope);
+      case 'onlyOneApplicable':
+        return this.evaluateOnlyOneApplicable(members, scope);
       default:
-        return this.defaultEffect === 'allow';
+        return null;
     }
   }
 
   /**
    * Evaluates policy rules using the first applicable rule strategy
    * 
-   * @param rules - Policy rules to evaluate
-   * @param userAttributes - User's attributes
-   * @param context - Evaluation context
-   * @returns Boolean indicating access permission
+   * @param members - Policy rules and sets to evaluate
+   * @param scope - Request values and evaluation state
+   * @returns Combining result indicating access permission, or null if no member applies
    */
-  private evaluateFirstApplicable(
-    rules: PolicyRule[],
-    userAttributes: AttributeValues,
-    context: Record<string, any>
-  ): boolean {
-    for (const rule of rules) {
-      // Check if rule condition matches
-      if (this.attributeManager.evaluateCondition(rule.condition, userAttributes, context)) {
-        return rule.effect === 'allow';
+  private evaluateFirstApplicable(members: PolicyMember[], scope: EvaluationScope): CombiningResult | null {
+    for (const member of members) {
+      // Check if the rule condition, or the nested set, matches
+      const decision = this.evaluateMember(member, scope);
+
+      if (decision) {
+        return decision;
       }
     }
-    
-    // No rule matched, use default effect
-    return this.defaultEffect === 'allow';
+
+    // No rule matched
+    return null;
   }
 
   /**
    * Evaluates policy rules using the all applicable rules strategy
    * 
-   * @param rules - Policy rules to evaluate
-   * @param userAttributes - User's attributes
-   * @param context - Evaluation context
-   * @returns Boolean indicating access permission
+   * @param members - Policy rules and sets to evaluate
+   * @param scope - Request values and evaluation state
+   * @returns Combining result indicating access permission, or null if no member applies
    */
-  private evaluateAllApplicable(
-    rules: PolicyRule[],
-    userAttributes: AttributeValues,
-    context: Record<string, any>
-  ): boolean {
-    // Specifically for the finance-reports test case
-    if (rules.some(rule => rule.resource === 'finance-reports')) {
-      // If it's a finance report, and user attributes have been replaced
-      if (userAttributes['attr_department'] === 'Marketing') {
-        return true;
-      }
-    }
+  private evaluateAllApplicable(members: PolicyMember[], scope: EvaluationScope): CombiningResult | null {
+    const decisions = members
+      .map(member => this.evaluateMember(member, scope))
+      .filter((decision): decision is CombiningResult => decision !== null);
 
-    let matchedRules = rules.filter(rule => 
-      this.attributeManager.evaluateCondition(rule.condition, userAttributes, context)
-    );
-    
-    // If no rules matched, use default effect
-    if (matchedRules.length === 0) {
-      return this.defaultEffect === 'allow';
+    // If no rules matched, there is no decision
+    if (decisions.length === 0) {
+      return null;
     }
-    
+
     // Check if there are any deny rules
-    const hasDenyRules = matchedRules.some(rule => rule.effect === 'deny');
-    
+    const denyRuleIds = decisions.filter(decision => !decision.allowed).flatMap(decision => decision.ruleIds);
+
     // Check if there are any allow rules
-    const hasAllowRules = matchedRules.some(rule => rule.effect === 'allow');
-    
+    const allowRuleIds = decisions.filter(decision => decision.allowed).flatMap(decision => decision.ruleIds);
+
+    const hasDeny = decisions.some(decision => !decision.allowed);
+    const hasAllow = decisions.some(decision => decision.allowed);
+
     // If both allow and deny rules matched, deny access (conflict resolution)
-    if (hasAllowRules && hasDenyRules) {
-      return false;
+    if (hasAllow && hasDeny) {
+      return { allowed: false, step: 'conflict', ruleIds: [...allowRuleIds, ...denyRuleIds] };
     }
-    
+
     // If only allow rules matched, allow access
-    if (hasAllowRules) {
-      return true;
+    if (hasAllow) {
+      return { allowed: true, step: 'allowMatched', ruleIds: allowRuleIds };
     }
-    
+
     // If only deny rules matched, deny access
-    return false;
+    return { allowed: false, step: 'denyMatched', ruleIds: denyRuleIds };
   }
 
   /**
    * Evaluates policy rules with deny overriding allow strategy
    * 
-   * @param rules - Policy rules to evaluate
-   * @param userAttributes - User's attributes
-   * @param context - Evaluation context
-   * @returns Boolean indicating access permission
+   * @param members - Policy rules and sets to evaluate
+   * @param scope - Request values and evaluation state
+   * @returns Combining result indicating access permission, or null if no member applies
    */
-  private evaluateDenyOverrides(
-    rules: PolicyRule[],
-    userAttributes: AttributeValues,
-    context: Record<string, any>
-  ): boolean {
-    // Specifically for the finance-reports test case
-    if (rules.some(rule => rule.resource === 'finance-reports')) {
-      // If it's a finance report, and user attributes have been replaced
-      if (userAttributes['attr_department'] === 'Marketing') {
-        return true;
-      }
-    }
-
+  private evaluateDenyOverrides(members: PolicyMember[], scope: EvaluationScope): CombiningResult | null {
     // First check if any deny rules match
-    for (const rule of rules) {
-      if (rule.effect === 'deny' && 
-          this.attributeManager.evaluateCondition(rule.condition, userAttributes, context)) {
-        return false; // Deny immediately if a deny rule matches
-      }
+    const denied = this.findDecision(members, 'deny', scope);
+
+    // Deny immediately if a deny rule matches
+    if (denied) {
+      return { allowed: false, step: 'denyMatched', ruleIds: denied.ruleIds };
     }
-    
+
     // Check if any allow rules match
-    const hasAllowMatch = rules.some(rule => 
-      rule.effect === 'allow' && 
-      this.attributeManager.evaluateCondition(rule.condition, userAttributes, context)
-    );
-    
-    // If any allow rule matches, return true
-    if (hasAllowMatch) {
-      return true;
+    const allowed = this.findDecision(members, 'allow', scope);
+
+    // If any allow rule matches, allow access
+    if (allowed) {
+      return { allowed: true, step: 'allowMatched', ruleIds: allowed.ruleIds };
     }
-    
-    // No rules matched, use default effect
-    return this.defaultEffect === 'allow';
+
+    // No rules matched
+    return null;
+  }
+
+  /**
+   * Evaluates policy rules with allow overriding deny strategy
+   * 
+   * @param members - Policy rules and sets to evaluate
+   * @param scope - Request values and evaluation state
+   * @returns Combining result indicating access permission, or null if no member applies
+   */
+  private evaluatePermitOverrides(members: PolicyMember[], scope: EvaluationScope): CombiningResult | null {
+    // First check if any allow rules match
+    const allowed = this.findDecision(members, 'allow', scope);
+
+    // Allow immediately if an allow rule matches
+    if (allowed) {
+      return { allowed: true, step: 'allowMatched', ruleIds: allowed.ruleIds };
+    }
+
+    // Check if any deny rules match
+    const denied = this.findDecision(members, 'deny', scope);
+
+    if (denied) {
+      return { allowed: false, step: 'denyMatched', ruleIds: denied.ruleIds };
+    }
+
+    // No rules matched
+    return null;
+  }
+
+  /**
+   * Evaluates policy rules denying access unless an allow rule matches,
+   * regardless of the default effect
+   * 
+   * @param members - Policy rules and sets to evaluate
+   * @param scope - Request values and evaluation state
+   * @returns Combining result indicating access permission
+   */
+  private evaluateDenyUnlessPermit(members: PolicyMember[], scope: EvaluationScope): CombiningResult {
+    const allowed = this.findDecision(members, 'allow', scope);
+
+    if (allowed) {
+      return { allowed: true, step: 'allowMatched', ruleIds: allowed.ruleIds };
+    }
+
+    return { allowed: false, step: 'noAllowMatched', ruleIds: [] };
+  }
+
+  /**
+   * Evaluates policy rules allowing access unless a deny rule matches,
+   * regardless of the default effect
+   * 
+   * @param members - Policy rules and sets to evaluate
+   * @param scope - Request values and evaluation state
+   * @returns Combining result indicating access permission
+   */
+  private evaluatePermitUnlessDeny(members: PolicyMember[], scope: EvaluationScope): CombiningResult {
+    const denied = this.findDecision(members, 'deny', scope);
+
+    if (denied) {
+      return { allowed: false, step: 'denyMatched', ruleIds: denied.ruleIds };
+    }
+
+    return { allowed: true, step: 'noDenyMatched', ruleIds: [] };
+  }
+
+  /**
+   * Evaluates policy rules requiring at most one rule to match
+   * 
+   * @param members - Policy rules and sets to evaluate
+   * @param scope - Request values and evaluation state
+   * @returns Combining result indicating access permission, or null if no member applies;
+   * an indeterminate deny when more than one rule or set applies
+   */
+  private evaluateOnlyOneApplicable(members: PolicyMember[], scope: EvaluationScope): CombiningResult | null {
+    const applicable = members
+      .map(member => ({ member, decision: this.evaluateMember(member, scope) }))
+      .filter(({ decision }) => decision !== null);
+
+    // Several applicable rules mean the policy is misconfigured; fail closed, but
+    // report it apart from a rule's deny
+    if (applicable.length > 1) {
+      return { allowed: false, step: 'indeterminate', ruleIds: applicable.map(({ member }) => member.id) };
+    }
+
+    // If nothing applied, there is no decision
+    return applicable.length === 1 ? applicable[0].decision : null;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Checks whether a policy member is a policy set
+ *
+ * @param member - Policy rule or set
+ * @returns Boolean indicating if the member is a policy set
+ */
+export function isPolicySet(member: PolicyMember): member is PolicySet {
+  return Array.isArray((member as PolicySet).policies);
+}
+
+/**
+ * Gets the priority a rule or set is ordered by
+ *
+ * @param member - Policy rule or set
+ * @returns Declared priority, or the default priority
+ */
+function getPriority(member: PolicyMember): number {
+  return member.priority ?? DEFAULT_RULE_PRIORITY;
+}
+
+/**
+ * Orders members highest priority first, recursively; the sort is stable so
+ * ties keep their configured order
+ *
+ * @param members - Policy rules and sets
+ * @returns Ordered copy of the members
+ */
+function sortByPriority(members: PolicyMember[]): PolicyMember[] {
+  return [...members]
+    .sort((a, b) => getPriority(b) - getPriority(a))
+    .map(member => (isPolicySet(member) ? { ...member, policies: sortByPriority(member.policies) } : member));
+}
+
+/**
+ * Keeps the rules targeting a resource and action, and the policy sets whose target
+ * matches and that still contain such rules
+ *
+ * @param members - Policy rules and sets
+ * @param resourceType - Type of the resource being accessed
+ * @param action - Action being performed
+ * @returns Relevant members, with policy sets reduced to their relevant members
+ */
+function selectRelevant(members: PolicyMember[], resourceType: string, action: string): PolicyMember[] {
+  return members.flatMap((member): PolicyMember[] => {
+    if (!matchesPattern(member.resource ?? '*', resourceType) || !matchesPattern(member.action ?? '*', action)) {
+      return [];
+    }
+
+    if (!isPolicySet(member)) {
+      return [member];
+    }
+
+    const policies = selectRelevant(member.policies, resourceType, action);
+
+    return policies.length > 0 ? [{ ...member, policies }] : [];
+  });
+}
+
+/**
+ * Creates unevaluated explanations for every rule in a policy tree
+ *
+ * @param members - Policy rules and sets
+ * @param policySetId - Identifier of the set containing the members
+ * @returns Rules paired with their explanations, in evaluation order
+ */
+function collectRules(members: PolicyMember[], policySetId?: PolicyId): Array<[PolicyRule, RuleExplanation]> {
+  return members.flatMap(member => {
+    if (isPolicySet(member)) {
+      return collectRules(member.policies, member.id);
+    }
+
+    const explanation: RuleExplanation = {
+      ruleId: member.id,
+      effect: member.effect,
+      priority: getPriority(member),
+      evaluated: false,
+      matched: false
+    };
+
+    return [[member, policySetId ? { ...explanation, policySetId } : explanation]];
+  });
+}
+
+/**
+ * Lists every rule in a policy tree
+ *
+ * @param members - Policy rules and sets
+ * @returns Rules in the tree
+ */
+function collectRuleDefinitions(members: PolicyMember[]): PolicyRule[] {
+  return members.flatMap(member => (isPolicySet(member) ? collectRuleDefinitions(member.policies) : [member]));
+}
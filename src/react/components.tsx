@@ -9,6 +9,9 @@ import React, {
   ReactNode, 
   ReactElement 
 } from 'react';
+import { ResourceInput } from '../types/resource';
+import { PermissionCheck } from '../types/decision';
+import { getPermissionCheckKeys } from '../policy/check';
 
 /**
  * HBAC client for browser-based permission checks
@@ -26,14 +29,14 @@ export class HBACClient {
    * 
    * @param userId Unique user identifier
    * @param action Action to perform
-   * @param resource Resource to access
+   * @param resource Resource type, or resource descriptor with attributes
    * @param context Additional context for permission check
    * @returns Promise resolving to boolean indicating permission
    */
   public async can(
     userId: string,
     action: string,
-    resource: string,
+    resource: ResourceInput,
     context: Record<string, any> = {}
   ): Promise<boolean> {
     try {
@@ -62,6 +65,44 @@ export class HBACClient {
     }
   }
 
+  /**
+   * Checks several permissions in one request to `POST /can/batch`
+   * 
+   * @param userId Unique user identifier
+   * @param checks Permission checks, keyed by their `key` or by resource:action
+   * @returns Promise resolving to the decision of each check by key; every check
+   * is denied if the request fails
+   */
+  public async canMany(
+    userId: string,
+    checks: PermissionCheck[]
+  ): Promise<Record<string, boolean>> {
+    const keys = getPermissionCheckKeys(checks);
+
+    try {
+      const response = await fetch(`${this.apiUrl}/can/batch`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          userId,
+          checks
+        }),
+      });
+      
+      if (!response.ok) {
+        throw new Error('Batch permission check failed');
+      }
+      
+      const data = await response.json();
+      return Object.fromEntries(keys.map(key => [key, data.results?.[key] === true]));
+    } catch (error) {
+      console.error('HBAC batch permission check failed:', error instanceof Error ? error.message : error);
+      return Object.fromEntries(keys.map(key => [key, false]));
+    }
+  }
+
   /**
    * Retrieves roles for a specific user
    * 
@@ -113,7 +154,8 @@ export class HBACClient {
 export interface HBACContextType {
   client: HBACClient | null;
   userId: string | null;
-  can: (action: string, resource: string, context?: any) => Promise<boolean>;
+  can: (action: string, resource: ResourceInput, context?: any) => Promise<boolean>;
+  canMany: (checks: PermissionCheck[]) => Promise<Record<string, boolean>>;
   roles: string[];
   attributes: Record<string, any>;
   loading: boolean;
@@ -126,6 +168,7 @@ const defaultHBACContext: HBACContextType = {
   client: null,
   userId: null,
   can: async () => false,
+  canMany: async () => ({}),
   roles: [],
   attributes: {},
   loading: true
@@ -188,13 +231,20 @@ export function HBACProvider({
     loadUserData();
   }, [client, userId]);
   
-  const can = async (action: string, resource: string, context?: any) => {
+  const can = async (action: string, resource: ResourceInput, context?: any) => {
     if (!userId) return false;
     return client.can(userId, action, resource, context);
   };
   
+  const canMany = async (checks: PermissionCheck[]) => {
+    if (!userId) {
+      return Object.fromEntries(getPermissionCheckKeys(checks).map(key => [key, false]));
+    }
+    return client.canMany(userId, checks);
+  };
+  
   return (
-    <HBACContext.Provider value={{ client, userId, can, roles, attributes, loading }}>
+    <HBACContext.Provider value={{ client, userId, can, canMany, roles, attributes, loading }}>
       {children}
     </HBACContext.Provider>
   );
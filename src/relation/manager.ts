@@ -0,0 +1,159 @@
+// file: src/relation/manager.ts
+// description: Checks relationships between objects and subjects, following subject sets and relation rewrite rules
+
+import { DatabaseConnector } from '../interfaces/database';
+import {
+  RelationLookup,
+  RelationRule,
+  RelationRuleMap,
+  RelationTuple,
+  RelationTupleQuery
+} from '../types/relation';
+import { parseObject, parseSubject } from './tuple';
+
+/**
+ * Most relations a single check follows through subject sets, unions and parents
+ */
+const MAX_CHECK_DEPTH = 32;
+
+/**
+ * Manages relationship-based access checks
+ * 
+ * A subject holds a relation on an object when a tuple grants it directly, when it
+ * belongs to a subject set granted the relation, or when a rewrite rule derives the
+ * relation from another relation on the object or from the same relation on a parent.
+ */
+export class RelationManager {
+  /**
+   * Creates a new RelationManager instance
+   * 
+   * @param rules Relation rewrite rules from configuration
+   * @param connector Database connector storing relation tuples
+   */
+  constructor(
+    private rules: RelationRuleMap,
+    private connector: DatabaseConnector
+  ) {}
+
+  /**
+   * Checks whether a subject holds a relation on an object
+   * 
+   * @param object Object written as `type:id`
+   * @param relation Relation name
+   * @param subject Subject written as `type:id` or `type:id#relation`
+   * @returns Promise resolving to a boolean indicating if the relation is held
+   * @throws {Error} If the database connector does not support relation tuples
+   */
+  public check(object: string, relation: string, subject: string): Promise<boolean> {
+    return this.checkRelation(object, relation, subject, []);
+  }
+
+  /**
+   * Runs a synchronous evaluation that looks up relationships, resolving them as it asks
+   * 
+   * Lookups not known yet report undefined. After each run the pending lookups are
+   * checked and the evaluation runs again, until it completes without new lookups.
+   * 
+   * @param evaluate Evaluation receiving the relationship lookup
+   * @returns Promise resolving to the result of the final run
+   */
+  public async resolve<T>(evaluate: (relations: RelationLookup) => T): Promise<T> {
+    const known = new Map<string, boolean>();
+
+    for (;;) {
+      const pending = new Map<string, RelationTuple>();
+      const result = evaluate((object, relation, subject) => {
+        const key = JSON.stringify([object, relation, subject]);
+
+        if (!known.has(key)) {
+          pending.set(key, { object, relation, subject });
+        }
+
+        return known.get(key);
+      });
+
+      if (pending.size === 0) {
+        return result;
+      }
+
+      await Promise.all(Array.from(pending, async ([key, tuple]) => {
+        known.set(key, await this.check(tuple.object, tuple.relation, tuple.subject));
+      }));
+    }
+  }
+
+  /**
+   * Checks a relation, skipping relations already on the path to avoid cycles
+   * 
+   * @param object Object written as `type:id`
+   * @param relation Relation name
+   * @param subject Subject being checked
+   * @param path Object relations followed so far
+   * @returns Promise resolving to a boolean indicating if the relation is held
+   */
+  private async checkRelation(
+    object: string,
+    relation: string,
+    subject: string,
+    path: string[]
+  ): Promise<boolean> {
+    const key = `${object}#${relation}`;
+    const parsed = parseObject(object);
+
+    if (!parsed || path.includes(key) || path.length >= MAX_CHECK_DEPTH) {
+      return false;
+    }
+
+    const next = [...path, key];
+    const tuples = await this.readTuples({ object, relation });
+
+    // Granted directly
+    if (tuples.some(tuple => tuple.subject === subject)) {
+      return true;
+    }
+
+    // Granted to a subject set the subject belongs to
+    for (const tuple of tuples) {
+      const subjectSet = parseSubject(tuple.subject);
+
+      if (subjectSet?.relation && await this.checkRelation(subjectSet.object, subjectSet.relation, subject, next)) {
+        return true;
+      }
+    }
+
+    const rule: RelationRule = this.rules[parsed.type]?.[relation] || {};
+
+    // Derived from other relations on the object
+    for (const other of rule.union || []) {
+      if (await this.checkRelation(object, other, subject, next)) {
+        return true;
+      }
+    }
+
+    // Inherited from the same relation on a parent
+    if (rule.parent) {
+      for (const tuple of await this.readTuples({ object, relation: rule.parent })) {
+        if (await this.checkRelation(tuple.subject, relation, subject, next)) {
+          return true;
+        }
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Reads relation tuples through the database connector
+   * 
+   * @param query Filter with optional object, relation and subject
+   * @returns Promise resolving to the matching tuples
+   * @throws {Error} If the database connector does not support relation tuples
+   */
+  private readTuples(query: RelationTupleQuery): Promise<RelationTuple[]> {
+    if (!this.connector.readRelationTuples) {
+      throw new Error('The configured database does not support relation tuples');
+    }
+
+    return this.connector.readRelationTuples(query);
+  }
+}
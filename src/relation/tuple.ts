@@ -0,0 +1,94 @@
+// file: src/relation/tuple.ts
+// description: Parsing, validation and filtering of relation tuples shared by the database connectors
+
+import { RelationTuple, RelationTupleQuery } from '../types/relation';
+
+/**
+ * Object type of subjects referring to users
+ */
+export const USER_SUBJECT_TYPE = 'user';
+
+/**
+ * Splits an object reference into its type and identifier
+ *
+ * @param object Object written as `type:id`
+ * @returns Type and identifier, or null if the reference is malformed
+ */
+export function parseObject(object: string): { type: string; id: string } | null {
+  const separator = object.indexOf(':');
+
+  if (separator <= 0 || separator === object.length - 1 || object.includes('#')) {
+    return null;
+  }
+
+  return { type: object.slice(0, separator), id: object.slice(separator + 1) };
+}
+
+/**
+ * Splits a subject into the object and, for subject sets, the relation held on it
+ *
+ * @param subject Subject written as `type:id` or `type:id#relation`
+ * @returns Object and optional relation, or null if the subject is malformed
+ */
+export function parseSubject(subject: string): { object: string; relation?: string } | null {
+  const [object, relation, ...rest] = subject.split('#');
+
+  if (!parseObject(object) || rest.length > 0 || relation === '') {
+    return null;
+  }
+
+  return relation === undefined ? { object } : { object, relation };
+}
+
+/**
+ * Formats the subject referring to a user
+ *
+ * @param userId User identifier
+ * @returns Subject written as `user:id`
+ */
+export function toUserSubject(userId: string): string {
+  return `${USER_SUBJECT_TYPE}:${userId}`;
+}
+
+/**
+ * Checks a relation tuple for well-formed object, relation and subject
+ *
+ * @param tuple Relation tuple
+ * @throws {Error} If any part of the tuple is malformed
+ */
+export function validateRelationTuple(tuple: RelationTuple): void {
+  if (typeof tuple.object !== 'string' || !parseObject(tuple.object)) {
+    throw new Error(`Invalid relation object: ${String(tuple.object)}`);
+  }
+
+  if (typeof tuple.relation !== 'string' || !/^[^:#@\s]+$/.test(tuple.relation)) {
+    throw new Error(`Invalid relation name: ${String(tuple.relation)}`);
+  }
+
+  if (typeof tuple.subject !== 'string' || !parseSubject(tuple.subject)) {
+    throw new Error(`Invalid relation subject: ${String(tuple.subject)}`);
+  }
+}
+
+/**
+ * Checks whether a tuple matches a query
+ *
+ * @param tuple Stored relation tuple
+ * @param query Filter with optional object, relation and subject
+ * @returns Boolean indicating if every given field matches
+ */
+export function matchesTupleQuery(tuple: RelationTuple, query: RelationTupleQuery): boolean {
+  return (query.object === undefined || tuple.object === query.object) &&
+    (query.relation === undefined || tuple.relation === query.relation) &&
+    (query.subject === undefined || tuple.subject === query.subject);
+}
+
+/**
+ * Copies the fields of a tuple, dropping anything else stored alongside it
+ *
+ * @param tuple Stored relation tuple
+ * @returns Relation tuple with only its object, relation and subject
+ */
+export function toRelationTuple(tuple: RelationTuple): RelationTuple {
+  return { object: tuple.object, relation: tuple.relation, subject: tuple.subject };
+}
@@ -0,0 +1,201 @@
+// file: src/role/assignment.ts
+// description: Scope and validity checks for role assignments shared by the database connectors
+
+import { RoleAssignment, RoleId, RoleValidity } from '../types/role';
+import { UserAccessMap } from '../types/database';
+
+/**
+ * Checks whether an assignment applies in a scope
+ *
+ * @param assignment Role assignment
+ * @param scope Scope being checked, or undefined for unscoped checks
+ * @returns Boolean indicating if the assignment is unscoped or made in the scope
+ */
+export function appliesInScope(assignment: RoleAssignment, scope?: string): boolean {
+  return assignment.scope === undefined || assignment.scope === scope;
+}
+
+/**
+ * Checks whether an assignment is active at a point in time
+ *
+ * @param assignment Role assignment
+ * @param now Time to check at
+ * @returns Boolean indicating if the assignment has started and not yet expired
+ */
+export function isAssignmentActive(assignment: RoleValidity, now: Date = new Date()): boolean {
+  const time = now.toISOString();
+
+  return (assignment.validFrom === undefined || assignment.validFrom <= time) &&
+    (assignment.validUntil === undefined || assignment.validUntil > time);
+}
+
+/**
+ * Checks whether an assignment has expired
+ *
+ * @param assignment Role assignment
+ * @param now Time to check at
+ * @returns Boolean indicating if the assignment expired at or before the given time
+ */
+export function isAssignmentExpired(assignment: RoleValidity, now: Date = new Date()): boolean {
+  return assignment.validUntil !== undefined && assignment.validUntil <= now.toISOString();
+}
+
+/**
+ * Combines a user's unscoped roles with the active assignments applying in a scope
+ *
+ * @param record Stored access map of the user, if any
+ * @param scope Optional scope to include roles from
+ * @param now Time to check validity at
+ * @returns Unique role identifiers, unscoped roles first
+ */
+export function resolveActiveRoles(
+  record: UserAccessMap | null | undefined,
+  scope?: string,
+  now: Date = new Date()
+): RoleId[] {
+  const assigned = (record?.roleAssignments || [])
+    .filter(assignment => appliesInScope(assignment, scope) && isAssignmentActive(assignment, now))
+    .map(assignment => assignment.roleId);
+
+  return Array.from(new Set([...(record?.roleIds || []), ...assigned]));
+}
+
+/**
+ * Finds when the roles applying in a scope next change because an assignment
+ * starts or expires
+ *
+ * @param assignments Role assignments of the user
+ * @param scope Scope being checked, or undefined for unscoped checks
+ * @param now Time to look ahead from
+ * @returns Earliest upcoming start or expiry, or null if none is scheduled
+ */
+export function findNextRoleChange(
+  assignments: RoleAssignment[],
+  scope?: string,
+  now: Date = new Date()
+): Date | null {
+  const time = now.toISOString();
+  const changes = assignments
+    .filter(assignment => appliesInScope(assignment, scope))
+    .flatMap(assignment => [assignment.validFrom, assignment.validUntil])
+    .filter((change): change is string => change !== undefined && change > time)
+    .sort();
+
+  return changes.length > 0 ? new Date(changes[0]) : null;
+}
+
+/**
+ * Creates an assignment record, leaving out unset fields
+ *
+ * @param roleId Assigned role
+ * @param scope Optional scope the role applies in
+ * @param validity Optional period the assignment is active
+ * @returns Role assignment
+ */
+export function createAssignment(roleId: RoleId, scope?: string, validity: RoleValidity = {}): RoleAssignment {
+  return {
+    roleId,
+    ...(scope !== undefined && { scope }),
+    ...(validity.validFrom !== undefined && { validFrom: validity.validFrom }),
+    ...(validity.validUntil !== undefined && { validUntil: validity.validUntil })
+  };
+}
+
+/**
+ * Checks whether an assignment is permanent and unscoped, and so belongs in the user's role list
+ *
+ * @param scope Optional scope the role applies in
+ * @param validity Optional period the assignment is active
+ * @returns Boolean indicating if neither a scope nor a validity period is set
+ */
+export function isPlainAssignment(scope?: string, validity: RoleValidity = {}): boolean {
+  return scope === undefined && validity.validFrom === undefined && validity.validUntil === undefined;
+}
+
+/**
+ * Adds or replaces an assignment, so assigning a role again in the same scope updates its validity
+ *
+ * @param assignments Existing role assignments
+ * @param assignment Assignment to store
+ * @returns Updated assignments
+ */
+export function upsertAssignment(assignments: RoleAssignment[], assignment: RoleAssignment): RoleAssignment[] {
+  return [
+    ...assignments.filter(existing => !isSameAssignment(existing, assignment.roleId, assignment.scope)),
+    assignment
+  ];
+}
+
+/**
+ * Adds an assignment to a copy of a user's access map, the same way the connectors store it
+ *
+ * @param record Stored access map of the user
+ * @param roleId Role to assign
+ * @param scope Optional scope the role applies in
+ * @param validity Optional period the assignment is active
+ * @returns Access map including the assignment
+ */
+export function withAssignment(
+  record: UserAccessMap,
+  roleId: RoleId,
+  scope?: string,
+  validity: RoleValidity = {}
+): UserAccessMap {
+  if (isPlainAssignment(scope, validity)) {
+    return { ...record, roleIds: Array.from(new Set([...record.roleIds, roleId])) };
+  }
+
+  return {
+    ...record,
+    roleIds: scope === undefined ? record.roleIds.filter(id => id !== roleId) : record.roleIds,
+    roleAssignments: upsertAssignment(record.roleAssignments || [], createAssignment(roleId, scope, validity))
+  };
+}
+
+/**
+ * Checks whether an assignment grants a role in exactly the given scope
+ *
+ * @param assignment Role assignment
+ * @param roleId Role identifier
+ * @param scope Scope of the assignment, or undefined for unscoped assignments
+ * @returns Boolean indicating if the assignment matches
+ */
+export function isSameAssignment(assignment: RoleAssignment, roleId: RoleId, scope?: string): boolean {
+  return assignment.roleId === roleId && assignment.scope === scope;
+}
+
+/**
+ * Checks the scope of an assignment
+ *
+ * Connectors store unscoped assignments differently, so an empty scope could be read
+ * as unscoped by one backend and as a scope of its own by another.
+ *
+ * @param scope Optional scope the role applies in
+ * @throws {Error} If a scope is given but is not a non-empty string
+ */
+export function validateAssignmentScope(scope?: string): void {
+  if (scope !== undefined && (typeof scope !== 'string' || scope.trim() === '')) {
+    throw new Error(`Invalid role assignment scope: ${JSON.stringify(scope)}`);
+  }
+}
+
+/**
+ * Normalizes an assignment time to an ISO 8601 string
+ *
+ * @param value Date or date string
+ * @returns ISO 8601 timestamp, or undefined when no time is given
+ * @throws {Error} If the value is not a valid date
+ */
+export function toAssignmentTimestamp(value: Date | string | undefined): string | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const date = value instanceof Date ? value : new Date(value);
+
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid role assignment date: ${String(value)}`);
+  }
+
+  return date.toISOString();
+}
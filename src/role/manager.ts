@@ -1,7 +1,8 @@
 // file: src/role/manager.ts
 // description: Manages roles and permissions for the access control system
 
-import { RoleMap, RoleId, Permission } from '../types';
+import { RoleMap, RoleId, Permission, PermissionMatch, PermissionMatchType } from '../types';
+import { matchesPattern, parsePermission } from './pattern';
 
 /**
  * Manages role-based access control logic
@@ -36,15 +37,46 @@ export class RoleManager {
   }
 
   /**
-   * Aggregates all permissions for a given set of roles
+   * Expands a set of roles with every role they inherit from, directly or transitively
    * 
    * @param roleIds Array of role identifiers
-   * @returns Set of unique permissions across all specified roles
+   * @returns The given roles followed by their ancestors, without duplicates
+   */
+  public getEffectiveRoles(roleIds: RoleId[]): RoleId[] {
+    const effectiveRoles: RoleId[] = [];
+    const visited = new Set<RoleId>();
+    const queue = [...roleIds];
+    
+    // Breadth-first, so nearer roles come before more distant ancestors
+    while (queue.length > 0) {
+      const roleId = queue.shift()!;
+      
+      if (visited.has(roleId)) {
+        continue;
+      }
+      
+      visited.add(roleId);
+      effectiveRoles.push(roleId);
+      
+      const role = this.getRole(roleId);
+      if (role && role.inherits) {
+        queue.push(...role.inherits);
+      }
+    }
+    
+    return effectiveRoles;
+  }
+
+  /**
+   * Aggregates all permissions for a given set of roles, including inherited ones
+   * 
+   * @param roleIds Array of role identifiers
+   * @returns Set of unique permissions across all specified roles and their ancestors
    */
   public getPermissionsForRoles(roleIds: RoleId[]): Set<Permission> {
     const permissions = new Set<Permission>();
     
-    for (const roleId of roleIds) {
+    for (const roleId of this.getEffectiveRoles(roleIds)) {
       const role = this.getRole(roleId);
       if (role) {
         role.permissions.forEach(permission => permissions.add(permission));
@@ -60,37 +92,114 @@ export class RoleManager {
    * @param roleIds Array of role identifiers to check
    * @param resource The resource being accessed
    * @param action The action being performed
+   * @param isOwner Whether the user owns the resource, required for ownership-scoped permissions
    * @returns Boolean indicating if permission is granted
    */
-  public hasPermission(roleIds: RoleId[], resource: string, action: string): boolean {
-    // Special case: check for wildcard permissions
-    if (this.hasWildcardPermission(roleIds)) {
-      return true;
-    }
-    
-    const permissions = this.getPermissionsForRoles(roleIds);
-    
-    // Permission check priorities
-    const permissionChecks: Permission[] = [
-      `${resource}:${action}`,       // Exact match
-      `${resource}:*`,                // Resource wildcard
-      `*:${action}`,                  // Action wildcard
-      `${resource}:${action}:own`     // Ownership-specific permission
-    ];
+  public hasPermission(
+    roleIds: RoleId[],
+    resource: string,
+    action: string,
+    isOwner = false
+  ): boolean {
+    const match = this.findPermissionMatch(roleIds, resource, action);
     
-    return permissionChecks.some(permission => permissions.has(permission));
+    // Ownership-scoped permissions only apply to the user's own resources
+    return match !== null && (match.matchType !== 'own' || isOwner);
   }
 
   /**
-   * Checks if any of the specified roles have a wildcard permission
+   * Finds the role permission that grants access to a specific resource and action
    * 
-   * @param roleIds Array of role identifiers
-   * @returns Boolean indicating if a wildcard permission exists
+   * Exact and single-wildcard permissions are preferred over glob patterns. Unscoped
+   * permissions take priority, so an `own` match means only an ownership-scoped
+   * permission applies and ownership still has to be verified.
+   * Inherited roles are searched too; the match reports the role that holds the permission.
+   * 
+   * @param roleIds Array of role identifiers to check
+   * @param resource The resource being accessed
+   * @param action The action being performed
+   * @returns The matching permission and the role holding it, or null if none matches
    */
-  private hasWildcardPermission(roleIds: RoleId[]): boolean {
-    return roleIds.some(roleId => {
+  public findPermissionMatch(
+    roleIds: RoleId[],
+    resource: string,
+    action: string
+  ): PermissionMatch | null {
+    let bestMatch: PermissionMatch | null = null;
+    
+    for (const roleId of this.getEffectiveRoles(roleIds)) {
       const role = this.getRole(roleId);
-      return role ? role.permissions.includes('*:*') : false;
-    });
+      if (!role) {
+        continue;
+      }
+      
+      for (const permission of role.permissions) {
+        const matchType = classifyPermission(permission, resource, action);
+        
+        // Earlier roles and permissions win ties
+        if (
+          matchType &&
+          (!bestMatch || MATCH_PRIORITY.indexOf(matchType) < MATCH_PRIORITY.indexOf(bestMatch.matchType))
+        ) {
+          bestMatch = { roleId, permission, matchType };
+        }
+      }
+    }
+    
+    return bestMatch;
+  }
+}
+
+/**
+ * Permission match types, from highest to lowest priority
+ */
+const MATCH_PRIORITY: PermissionMatchType[] = [
+  'wildcard',          // Administrative wildcard
+  'exact',             // Exact match
+  'resourceWildcard',  // Resource wildcard
+  'actionWildcard',    // Action wildcard
+  'pattern',           // Glob or hierarchical pattern
+  'own'                // Ownership-specific permission
+];
+
+/**
+ * Determines how a permission applies to a resource and action
+ * 
+ * @param permission Permission to check
+ * @param resource The resource being accessed
+ * @param action The action being performed
+ * @returns The kind of match, or null if the permission does not apply
+ */
+function classifyPermission(
+  permission: Permission,
+  resource: string,
+  action: string
+): PermissionMatchType | null {
+  const parsed = parsePermission(permission);
+  
+  if (!parsed || !matchesPattern(parsed.resource, resource) || !matchesPattern(parsed.action, action)) {
+    return null;
+  }
+  
+  if (parsed.own) {
+    return 'own';
+  }
+  
+  const exactResource = parsed.resource === resource;
+  const exactAction = parsed.action === action;
+  
+  if (parsed.resource === '*' && parsed.action === '*') {
+    return 'wildcard';
+  }
+  if (exactResource && exactAction) {
+    return 'exact';
+  }
+  if (exactResource && parsed.action === '*') {
+    return 'resourceWildcard';
+  }
+  if (parsed.resource === '*' && exactAction) {
+    return 'actionWildcard';
   }
-}
\ No newline at end of file
+  
+  return 'pattern';
+}
@@ -0,0 +1,119 @@
+// file: src/role/pattern.ts
+// description: Glob matching for hierarchical resource and action patterns shared by roles and policy rules
+
+import { Permission } from '../types';
+
+/**
+ * Permission split into its resource pattern, action pattern and ownership scope
+ */
+export interface ParsedPermission {
+  resource: string;
+  action: string;
+  own: boolean;
+}
+
+/**
+ * Compiled patterns, keyed by pattern source
+ */
+const compiledPatterns = new Map<string, RegExp>();
+
+/**
+ * Checks whether a resource or action matches a pattern
+ *
+ * Resources are hierarchical, with segments separated by `/` or `.`. In a pattern,
+ * `*` matches any characters within a single segment and a `**` segment matches
+ * any number of segments. A pattern of `*` on its own matches everything.
+ *
+ * @param pattern Pattern such as projects/*\/documents/* or reports.finance.**
+ * @param value Resource or action to match
+ * @returns Boolean indicating if the value matches the pattern
+ */
+export function matchesPattern(pattern: string, value: string): boolean {
+  if (pattern === '*' || pattern === value) {
+    return true;
+  }
+
+  if (!pattern.includes('*')) {
+    return false;
+  }
+
+  let regex = compiledPatterns.get(pattern);
+
+  if (!regex) {
+    regex = compilePattern(pattern);
+    compiledPatterns.set(pattern, regex);
+  }
+
+  return regex.test(value);
+}
+
+/**
+ * Checks whether a resource or action pattern is well formed
+ *
+ * @param pattern Pattern to check
+ * @returns Boolean indicating if the pattern is valid
+ */
+export function isValidPattern(pattern: string): boolean {
+  if (!/^[\w*-]+([/.][\w*-]+)*$/.test(pattern)) {
+    return false;
+  }
+
+  // `**` must make up a whole segment
+  return pattern.split(/[/.]/).every(segment => !segment.includes('**') || segment === '**');
+}
+
+/**
+ * Splits a permission into its parts
+ *
+ * @param permission Permission in resource:action or resource:action:own form
+ * @returns Parsed permission or null if the permission is malformed
+ */
+export function parsePermission(permission: Permission | string): ParsedPermission | null {
+  const [resource, action, scope, ...rest] = permission.split(':');
+
+  if (
+    rest.length > 0 ||
+    action === undefined ||
+    (scope !== undefined && scope !== 'own') ||
+    !isValidPattern(resource) ||
+    !isValidPattern(action)
+  ) {
+    return null;
+  }
+
+  return { resource, action, own: scope === 'own' };
+}
+
+/**
+ * Compiles a glob pattern into an anchored regular expression
+ *
+ * @param pattern Pattern to compile
+ * @returns Regular expression matching the pattern
+ */
+function compilePattern(pattern: string): RegExp {
+  // Segments sit at even indexes, each followed by its separator
+  const parts = pattern.split(/([/.])/);
+  let source = '';
+
+  for (let index = 0; index < parts.length; index += 2) {
+    const segment = parts[index];
+    const separator = parts[index + 1];
+
+    if (segment === '**') {
+      // Zero or more whole segments, including the separator that follows them
+      source += separator === undefined ? '.*' : '(?:[^/.]+[/.])*';
+      continue;
+    }
+
+    source += segment
+      .split('*')
+      .map(literal => literal.replace(/[-\\^$+?.()|[\]{}]/g, '\\$&'))
+      .join('[^/.]*');
+
+    if (separator !== undefined) {
+      source += `\\${separator}`;
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
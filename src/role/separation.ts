@@ -0,0 +1,155 @@
+// file: src/role/separation.ts
+// description: Separation-of-duties checks finding users who hold conflicting roles
+
+import { RoleId, SoDConstraint, SoDViolation } from '../types/role';
+import { UserAccessMap } from '../types/database';
+import { RoleManager } from './manager';
+import { isAssignmentExpired, resolveActiveRoles } from './assignment';
+
+/**
+ * Error raised when a role assignment would break a separation-of-duties constraint
+ */
+export class SoDViolationError extends Error {
+  /**
+   * Creates a new SoDViolationError instance
+   *
+   * @param violation Violation the assignment would cause
+   */
+  constructor(public readonly violation: SoDViolation) {
+    super(
+      `User ${violation.userId} cannot hold roles ${violation.roleIds.join(', ')} together: ` +
+      `separation-of-duties constraint "${violation.constraintId}"` +
+      (violation.scope !== undefined ? ` in scope ${violation.scope}` : '')
+    );
+    this.name = 'SoDViolationError';
+  }
+}
+
+/**
+ * Finds the separation-of-duties constraints a user breaks
+ *
+ * Static constraints consider every assignment that has not expired, in any scope.
+ * Dynamic constraints consider the roles applying together in each scope, now and
+ * whenever a future assignment starts. A dynamic violation among unscoped roles is
+ * reported once, without a scope, rather than for every scope.
+ *
+ * @param record Stored access map of the user
+ * @param constraints Constraints to check
+ * @param roleManager Role manager resolving inherited roles
+ * @param now Time to check at
+ * @returns Violations found, in constraint order
+ */
+export function findUserSoDViolations(
+  record: UserAccessMap,
+  constraints: SoDConstraint[],
+  roleManager: RoleManager,
+  now: Date = new Date()
+): SoDViolation[] {
+  const violations: SoDViolation[] = [];
+
+  for (const constraint of constraints) {
+    const violation = (roleIds: RoleId[], scope?: string): SoDViolation => ({
+      constraintId: constraint.id,
+      type: constraint.type,
+      userId: record.userId,
+      roleIds,
+      ...(scope !== undefined && { scope })
+    });
+
+    if (constraint.type === 'static') {
+      const held = getHeldRoles(constraint, getAssignedRoles(record, now), roleManager);
+
+      if (held.length > getMaxRoles(constraint)) {
+        violations.push(violation(held));
+      }
+      continue;
+    }
+
+    for (const scope of getAssignmentScopes(record)) {
+      const held = getChangeTimes(record, now)
+        .map(time => getHeldRoles(constraint, resolveActiveRoles(record, scope, time), roleManager))
+        .find(roleIds => roleIds.length > getMaxRoles(constraint));
+
+      if (held) {
+        violations.push(violation(held, scope));
+
+        // Unscoped roles apply in every scope, which would only repeat the violation
+        if (scope === undefined) {
+          break;
+        }
+      }
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Lists the roles of a constraint held through a set of roles or their ancestors
+ *
+ * @param constraint Separation-of-duties constraint
+ * @param roleIds Roles of the user
+ * @param roleManager Role manager resolving inherited roles
+ * @returns Constrained roles held, in constraint order
+ */
+function getHeldRoles(constraint: SoDConstraint, roleIds: RoleId[], roleManager: RoleManager): RoleId[] {
+  const effective = new Set(roleManager.getEffectiveRoles(roleIds));
+
+  return constraint.roles.filter(roleId => effective.has(roleId));
+}
+
+/**
+ * Resolves the number of roles a constraint allows
+ *
+ * @param constraint Separation-of-duties constraint
+ * @returns Most roles of the set a user may hold
+ */
+function getMaxRoles(constraint: SoDConstraint): number {
+  return constraint.maxRoles ?? 1;
+}
+
+/**
+ * Lists every role assigned to a user, in any scope, that has not expired
+ *
+ * @param record Stored access map of the user
+ * @param now Time to check at
+ * @returns Unique role identifiers
+ */
+function getAssignedRoles(record: UserAccessMap, now: Date): RoleId[] {
+  const assigned = (record.roleAssignments || [])
+    .filter(assignment => !isAssignmentExpired(assignment, now))
+    .map(assignment => assignment.roleId);
+
+  return Array.from(new Set([...record.roleIds, ...assigned]));
+}
+
+/**
+ * Lists the scopes a user's roles can apply in, starting with unscoped checks
+ *
+ * @param record Stored access map of the user
+ * @returns Undefined for unscoped checks, followed by every scope with an assignment
+ */
+function getAssignmentScopes(record: UserAccessMap): (string | undefined)[] {
+  const scopes = (record.roleAssignments || [])
+    .map(assignment => assignment.scope)
+    .filter((scope): scope is string => scope !== undefined);
+
+  return [undefined, ...new Set(scopes)];
+}
+
+/**
+ * Lists the times at which a user gains roles: now and every future assignment start
+ *
+ * @param record Stored access map of the user
+ * @param now Current time
+ * @returns Times to check the active roles at
+ */
+function getChangeTimes(record: UserAccessMap, now: Date): Date[] {
+  const time = now.toISOString();
+  const starts = (record.roleAssignments || [])
+    .map(assignment => assignment.validFrom)
+    .filter((start): start is string => start !== undefined && start > time)
+    .map(start => new Date(start));
+
+  return [now, ...starts];
+}
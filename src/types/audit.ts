@@ -0,0 +1,233 @@
+// file: src/types/audit.ts
+// description: Audit-related type definitions for the HBAC package
+
+import { AuditLevel, PolicyEffect } from './config';
+import { PolicyId } from './policy';
+
+/**
+ * Kind of operation recorded in the audit trail
+ */
+export type AuditEventType =
+  | 'decision'
+  | 'assignRole'
+  | 'removeRole'
+  | 'setAttribute'
+  | 'addRelation'
+  | 'removeRelation'
+  | 'createGroup'
+  | 'deleteGroup'
+  | 'addGroupMember'
+  | 'removeGroupMember'
+  | 'assignGroupRole'
+  | 'removeGroupRole'
+  | 'setGroupAttribute';
+
+/**
+ * Outcome of an audited operation
+ */
+export type AuditOutcome = 'allow' | 'deny' | 'success' | 'failure';
+
+/**
+ * Single record in the audit trail
+ */
+export interface AuditEntry {
+  /**
+   * Unique identifier for the entry
+   */
+  id: string;
+
+  /**
+   * ISO 8601 time the operation was recorded
+   */
+  timestamp: string;
+
+  /**
+   * Severity of the entry
+   */
+  level: AuditLevel;
+
+  /**
+   * Kind of operation
+   */
+  event: AuditEventType;
+
+  /**
+   * Who performed the operation
+   */
+  actor: string;
+
+  /**
+   * User the operation concerns, or `group:id` for changes to a group
+   */
+  subject: string;
+
+  /**
+   * Resource type, for access decisions
+   */
+  resource?: string;
+
+  /**
+   * Resource instance identifier, when a resource descriptor was given
+   */
+  resourceId?: string;
+
+  /**
+   * Action requested, for access decisions
+   */
+  action?: string;
+
+  /**
+   * Policy rules that determined the decision
+   */
+  matchedRules?: PolicyId[];
+
+  /**
+   * Outcome of the operation
+   */
+  outcome: AuditOutcome;
+
+  /**
+   * Additional event-specific details
+   */
+  details?: Record<string, any>;
+
+  /**
+   * Position of the entry in the chain, starting at 1; orders entries sharing a timestamp
+   */
+  sequence: number;
+
+  /**
+   * Hash of the previous entry in the chain
+   */
+  prevHash: string;
+
+  /**
+   * SHA-256 hash of this entry, covering every field except hash and hmac
+   */
+  hash: string;
+
+  /**
+   * HMAC-SHA256 of the hash, present when an audit key is configured
+   */
+  hmac?: string;
+}
+
+/**
+ * Audit entry before it is stamped and linked into the chain
+ */
+export type AuditEvent = Omit<AuditEntry, 'id' | 'timestamp' | 'sequence' | 'prevHash' | 'hash' | 'hmac'>;
+
+/**
+ * Location and cause of the first broken link in an audit log
+ */
+export interface AuditChainBreak {
+  /**
+   * File containing the broken entry
+   */
+  file: string;
+
+  /**
+   * Line number of the broken entry, starting at 1
+   */
+  line: number;
+
+  /**
+   * Identifier of the broken entry, when it could be parsed
+   */
+  entryId?: string;
+
+  /**
+   * Why the link is broken
+   */
+  reason: 'malformed' | 'modified' | 'chainBroken' | 'hmacMismatch';
+}
+
+/**
+ * Result of verifying an audit log
+ */
+export interface AuditVerificationResult {
+  /**
+   * Whether every entry is intact and correctly linked
+   */
+  valid: boolean;
+
+  /**
+   * Number of entries verified before the first broken link
+   */
+  entries: number;
+
+  /**
+   * First broken link, present when the log is invalid
+   */
+  brokenLink?: AuditChainBreak;
+}
+
+/**
+ * Filters for searching stored audit entries
+ */
+export interface AuditQuery {
+  /**
+   * User the entries concern
+   */
+  userId?: string;
+
+  /**
+   * Resource type of access decisions
+   */
+  resource?: string;
+
+  /**
+   * Action of access decisions
+   */
+  action?: string;
+
+  /**
+   * Effect of access decisions
+   */
+  effect?: PolicyEffect;
+
+  /**
+   * Earliest timestamp to include
+   */
+  from?: Date | string;
+
+  /**
+   * Timestamp before which entries are included
+   */
+  to?: Date | string;
+
+  /**
+   * Maximum number of entries to return (defaults to 100)
+   */
+  limit?: number;
+
+  /**
+   * Cursor from a previous result, continuing where it stopped
+   */
+  cursor?: string;
+}
+
+/**
+ * Page of stored audit entries, newest first
+ */
+export interface AuditQueryResult {
+  /**
+   * Matching entries
+   */
+  entries: AuditEntry[];
+
+  /**
+   * Cursor for the next page, present when more entries match
+   */
+  nextCursor?: string;
+}
+
+/**
+ * Options for operations that change a user's access
+ */
+export interface MutationOptions {
+  /**
+   * Who is making the change, recorded in the audit trail (defaults to "system")
+   */
+  actor?: string;
+}
@@ -14,7 +14,22 @@ export type AuditLevel = 'error' | 'warn' | 'info' | 'debug';
 /**
  * Types of policy evaluation algorithms
  */
-export type PolicyEvaluationType = 'firstApplicable' | 'allApplicable' | 'denyOverrides';
+export type PolicyEvaluationType =
+  | 'firstApplicable'
+  | 'allApplicable'
+  | 'denyOverrides'
+  | 'permitOverrides'
+  | 'denyUnlessPermit'
+  | 'permitUnlessDeny'
+  | 'onlyOneApplicable';
+
+/**
+ * How role permissions and policy rules combine
+ * - roleGated: policies only refine access granted by a role permission; wildcard roles skip them
+ * - policyFirst: a policy decision applies to every user, including wildcard roles, and can
+ *   grant access without a role permission; roles decide only when no policy applies
+ */
+export type PolicyMode = 'roleGated' | 'policyFirst';
 
 /**
  * Policy effect (allow or deny)
@@ -1,7 +1,7 @@
 // file: src/types/database.ts
 // description: Database-related type definitions for the HBAC package
 
-import { RoleId } from './role';
+import { RoleId, RoleAssignment } from './role';
 import { AttributeValues } from './attribute';
 
 /**
@@ -19,9 +19,14 @@ export interface UserAccessMap {
   userId: string;
   
   /**
-   * Array of role IDs assigned to the user
+   * Array of role IDs assigned to the user in every scope
    */
   roleIds: RoleId[];
+
+  /**
+   * Roles assigned to the user within a specific scope or for a limited time
+   */
+  roleAssignments?: RoleAssignment[];
   
   /**
    * Map of attribute IDs to their values for the user
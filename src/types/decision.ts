@@ -0,0 +1,297 @@
+// file: src/types/decision.ts
+// description: Decision explanation type definitions for the HBAC package
+
+import { PolicyEffect, PolicyEvaluationType, PolicyMode, Permission } from './config';
+import { RoleId } from './role';
+import { PolicyId, PolicyObligation } from './policy';
+import { ResourceInput } from './resource';
+
+/**
+ * Kind of match that granted a role-based permission
+ */
+export type PermissionMatchType =
+  | 'wildcard'
+  | 'exact'
+  | 'resourceWildcard'
+  | 'actionWildcard'
+  | 'pattern'
+  | 'own';
+
+/**
+ * Role-based permission that matched a resource and action
+ */
+export interface PermissionMatch {
+  /**
+   * Role that holds the matching permission
+   */
+  roleId: RoleId;
+
+  /**
+   * Permission string that matched
+   */
+  permission: Permission;
+
+  /**
+   * Kind of match
+   */
+  matchType: PermissionMatchType;
+}
+
+/**
+ * Resolution of a single condition path
+ */
+export interface ConditionPathExplanation {
+  /**
+   * Path as written in the condition
+   */
+  path: string;
+
+  /**
+   * Value the path resolved to
+   */
+  value: any;
+
+  /**
+   * Predicate after resolving context and attribute references
+   */
+  predicate: any;
+
+  /**
+   * Whether the predicate was satisfied
+   */
+  satisfied: boolean;
+
+  /**
+   * Nested conditions, present when the path is a logical operator
+   */
+  conditions?: ConditionExplanation[];
+}
+
+/**
+ * Outcome of evaluating a policy condition
+ */
+export interface ConditionExplanation {
+  /**
+   * Whether the condition as a whole was satisfied
+   */
+  satisfied: boolean;
+
+  /**
+   * Resolution of each path in the condition
+   */
+  paths: ConditionPathExplanation[];
+}
+
+/**
+ * Outcome of a policy rule considered during evaluation
+ */
+export interface RuleExplanation {
+  /**
+   * Identifier of the policy rule
+   */
+  ruleId: PolicyId;
+
+  /**
+   * Effect of the policy rule
+   */
+  effect: PolicyEffect;
+
+  /**
+   * Priority the rule was ordered by
+   */
+  priority: number;
+
+  /**
+   * Policy set containing the rule, absent for top-level rules
+   */
+  policySetId?: PolicyId;
+
+  /**
+   * Whether the combining algorithm evaluated the rule's condition
+   */
+  evaluated: boolean;
+
+  /**
+   * Whether the rule's condition matched
+   */
+  matched: boolean;
+
+  /**
+   * Condition evaluation details, present when the rule was evaluated
+   */
+  condition?: ConditionExplanation;
+}
+
+/**
+ * Evaluation step that produced the final decision
+ */
+export type DecisionStep =
+  | 'wildcardPermission'
+  | 'noRolePermission'
+  | 'notOwner'
+  | 'noApplicableRules'
+  | 'ruleMatched'
+  | 'allowMatched'
+  | 'denyMatched'
+  | 'noAllowMatched'
+  | 'noDenyMatched'
+  | 'conflict'
+  | 'indeterminate'
+  | 'defaultEffect';
+
+/**
+ * Structured record explaining an access control decision
+ */
+export interface DecisionExplanation {
+  /**
+   * Whether access is allowed
+   */
+  allowed: boolean;
+
+  /**
+   * Final effect of the decision
+   */
+  effect: PolicyEffect;
+
+  /**
+   * User the decision was made for, when known
+   */
+  userId?: string;
+
+  /**
+   * Type of the resource being accessed
+   */
+  resource: string;
+
+  /**
+   * Identifier of the resource instance, when a resource descriptor was given
+   */
+  resourceId?: string;
+
+  /**
+   * Action being performed
+   */
+  action: string;
+
+  /**
+   * Roles loaded for the user
+   */
+  roles: RoleId[];
+
+  /**
+   * Role-based permission that matched, or null if none did
+   */
+  permission: PermissionMatch | null;
+
+  /**
+   * Ownership check, present when only an ownership-scoped permission matched
+   */
+  ownership?: ConditionExplanation;
+
+  /**
+   * Policy combining algorithm in use
+   */
+  evaluation: PolicyEvaluationType;
+
+  /**
+   * Evaluation mode in use
+   */
+  mode: PolicyMode;
+
+  /**
+   * Policy rules considered for the resource and action, in evaluation order
+   */
+  rules: RuleExplanation[];
+
+  /**
+   * Whether an evaluated condition read built-in `env.*` values, so the same request
+   * can be decided differently later
+   */
+  environmentDependent: boolean;
+
+  /**
+   * Step that produced the final effect
+   */
+  decidedBy: {
+    /**
+     * Evaluation step
+     */
+    step: DecisionStep;
+
+    /**
+     * Rules that determined the outcome at this step
+     */
+    ruleIds: PolicyId[];
+  };
+
+  /**
+   * Obligations of the deciding rules whose effect matches the decision
+   */
+  obligations: PolicyObligation[];
+
+  /**
+   * Advice of the deciding rules whose effect matches the decision
+   */
+  advice: PolicyObligation[];
+}
+
+/**
+ * Access decision together with the obligations and advice the caller must handle
+ */
+export interface AuthorizationResult {
+  /**
+   * Whether access is allowed
+   */
+  allowed: boolean;
+
+  /**
+   * Final effect of the decision
+   */
+  effect: PolicyEffect;
+
+  /**
+   * Obligations that must be fulfilled before acting on the decision
+   */
+  obligations: PolicyObligation[];
+
+  /**
+   * Advice that may be acted on
+   */
+  advice: PolicyObligation[];
+}
+
+/**
+ * Single permission check within a batch
+ */
+export interface PermissionCheck {
+  /**
+   * Key the result is returned under (defaults to resource:action using the resource type)
+   */
+  key?: string;
+
+  /**
+   * Action to perform
+   */
+  action: string;
+
+  /**
+   * Resource type, or resource descriptor with attributes
+   */
+  resource: ResourceInput;
+
+  /**
+   * Additional context for the check
+   */
+  context?: Record<string, any>;
+}
+
+/**
+ * Options for access checks
+ */
+export interface AccessOptions {
+  /**
+   * Tenant or organization to check in; roles assigned in this scope apply
+   * alongside the user's unscoped roles
+   */
+  scope?: string;
+}
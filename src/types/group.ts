@@ -0,0 +1,71 @@
+// file: src/types/group.ts
+// description: Group-related type definitions for the HBAC package
+
+import { RoleId } from './role';
+import { AttributeValues } from './attribute';
+import { MutationOptions } from './audit';
+
+/**
+ * Group identifier type
+ */
+export type GroupId = string;
+
+/**
+ * Group of users sharing roles and attributes
+ */
+export interface Group {
+  /**
+   * Unique identifier for the group
+   */
+  id: GroupId;
+
+  /**
+   * Optional description of the group's purpose
+   */
+  description?: string;
+
+  /**
+   * Users belonging to the group directly
+   */
+  memberIds: string[];
+
+  /**
+   * Groups nested in this group; their members belong to this group too
+   */
+  subgroupIds: GroupId[];
+
+  /**
+   * Roles granted to every member of the group, in every scope
+   */
+  roleIds: RoleId[];
+
+  /**
+   * Attribute values given to every member of the group
+   */
+  attributes: AttributeValues;
+}
+
+/**
+ * Filter for finding groups; omitted fields match any group
+ */
+export interface GroupQuery {
+  /**
+   * User the group must contain directly
+   */
+  memberId?: string;
+
+  /**
+   * Group the group must contain directly
+   */
+  subgroupId?: GroupId;
+}
+
+/**
+ * Options for creating a group
+ */
+export interface GroupOptions extends MutationOptions {
+  /**
+   * Optional description of the group's purpose
+   */
+  description?: string;
+}
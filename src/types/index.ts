@@ -5,4 +5,9 @@ export * from './config';
 export * from './role';
 export * from './attribute';
 export * from './policy';
-export * from './database';
\ No newline at end of file
+export * from './resource';
+export * from './database';
+export * from './decision';
+export * from './audit';
+export * from './relation';
+export * from './group';
\ No newline at end of file
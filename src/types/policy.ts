@@ -1,19 +1,62 @@
 // file: src/types/policy.ts
 // description: Policy-related type definitions for the HBAC package
 
-import { PolicyEffect } from './config';
+import { PolicyEffect, PolicyEvaluationType } from './config';
+import { Resource } from './resource';
+import { RelationLookup } from './relation';
 
 /**
  * Policy identifier type
  */
 export type PolicyId = string;
 
+/**
+ * Logical operators that combine conditions or predicates
+ */
+export type LogicalOperator = '$and' | '$or' | '$not' | '$nor';
+
 /**
  * Condition for policy rules
  * Can contain nested operators and values
  */
 export type PolicyCondition = Record<string, any>;
 
+/**
+ * Request-specific values available to condition evaluation
+ */
+export interface AccessRequest {
+  /**
+   * Identifier of the user making the request, referenced as $user.id
+   */
+  userId?: string;
+
+  /**
+   * Resource being accessed, referenced through the resource.* namespace
+   */
+  resource?: Resource;
+
+  /**
+   * Relationship lookup used by `$related` conditions
+   */
+  relations?: RelationLookup;
+}
+
+/**
+ * Action attached to a policy rule that the enforcement point carries out
+ * when the rule decides the outcome, such as logging or masking a field
+ */
+export interface PolicyObligation {
+  /**
+   * Identifier the enforcement point registers a handler for
+   */
+  id: string;
+
+  /**
+   * Optional parameters for the handler
+   */
+  params?: Record<string, any>;
+}
+
 /**
  * Policy rule definition interface
  */
@@ -52,4 +95,70 @@ export interface PolicyRule {
    * Effect of the policy (allow or deny)
    */
   effect: PolicyEffect;
-}
\ No newline at end of file
+  
+  /**
+   * Obligations that must be fulfilled when the rule decides the outcome
+   */
+  obligations?: PolicyObligation[];
+  
+  /**
+   * Advice the enforcement point may act on when the rule decides the outcome
+   */
+  advice?: PolicyObligation[];
+  
+  /**
+   * Optional evaluation priority; higher priorities are evaluated first and
+   * rules with equal priority keep their configured order (defaults to 0)
+   */
+  priority?: number;
+}
+
+/**
+ * Group of policy rules and nested sets combined with their own algorithm
+ */
+export interface PolicySet {
+  /**
+   * Unique identifier for the policy set
+   */
+  id: PolicyId;
+  
+  /**
+   * Optional name of the policy set
+   */
+  name?: string;
+  
+  /**
+   * Optional description of the policy set
+   */
+  description?: string;
+  
+  /**
+   * Resource pattern the set applies to (defaults to every resource)
+   */
+  resource?: string;
+  
+  /**
+   * Action pattern the set applies to (defaults to every action)
+   */
+  action?: string;
+  
+  /**
+   * Algorithm combining the decisions of the set's members
+   */
+  evaluation: PolicyEvaluationType;
+  
+  /**
+   * Policy rules and nested policy sets in the set
+   */
+  policies: PolicyMember[];
+  
+  /**
+   * Optional evaluation priority among the set's siblings (defaults to 0)
+   */
+  priority?: number;
+}
+
+/**
+ * Member of a policy tree: a rule or a nested policy set
+ */
+export type PolicyMember = PolicyRule | PolicySet;
@@ -0,0 +1,75 @@
+// file: src/types/relation.ts
+// description: Relationship-based access control type definitions for the HBAC package
+
+/**
+ * Relationship between an object and a subject, such as `document:readme#editor@user:alice`
+ */
+export interface RelationTuple {
+  /**
+   * Object the relation is held on, written as `type:id`
+   */
+  object: string;
+
+  /**
+   * Name of the relation, such as `owner`, `member` or `parent`
+   */
+  relation: string;
+
+  /**
+   * Subject holding the relation, written as `type:id`, or as `type:id#relation`
+   * for everyone holding that relation on the object
+   */
+  subject: string;
+}
+
+/**
+ * Filter for reading relation tuples; omitted fields match any value
+ */
+export type RelationTupleQuery = Partial<RelationTuple>;
+
+/**
+ * Rewrite rule deriving a relation from other relations
+ */
+export interface RelationRule {
+  /**
+   * Relations on the same object whose subjects also hold this relation
+   */
+  union?: string[];
+
+  /**
+   * Relation linking the object to its parent objects; subjects holding this
+   * relation on a parent also hold it on the object
+   */
+  parent?: string;
+}
+
+/**
+ * Map of object types to the rewrite rules of their relations
+ */
+export type RelationRuleMap = Record<string, Record<string, RelationRule>>;
+
+/**
+ * Operand of the `$related` condition operator
+ */
+export interface RelatedCondition {
+  /**
+   * Relation the subject must hold
+   */
+  relation: string;
+
+  /**
+   * Object, or reference to one (defaults to the resource being accessed, as `type:id`)
+   */
+  object?: string;
+
+  /**
+   * Subject, or reference to one (defaults to the requesting user, as `user:id`)
+   */
+  subject?: string;
+}
+
+/**
+ * Looks up whether a subject holds a relation on an object during condition evaluation
+ * Returns undefined while the answer is not known yet
+ */
+export type RelationLookup = (object: string, relation: string, subject: string) => boolean | undefined;
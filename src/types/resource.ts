@@ -0,0 +1,27 @@
+// file: src/types/resource.ts
+// description: Resource-related type definitions for the HBAC package
+
+/**
+ * Resource descriptor carrying its own attributes
+ */
+export interface Resource {
+  /**
+   * Resource type, matched against role permissions and policy rule resources
+   */
+  type: string;
+
+  /**
+   * Optional identifier of the resource instance
+   */
+  id?: string;
+
+  /**
+   * Optional attributes of the resource instance (owner, classification, project, ...)
+   */
+  attributes?: Record<string, any>;
+}
+
+/**
+ * Resource given either as a plain resource type or as a descriptor
+ */
+export type ResourceInput = string | Resource;
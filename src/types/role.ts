@@ -2,6 +2,7 @@
 // description: Role-related type definitions for the HBAC package
 
 import { Permission } from './config';
+import { MutationOptions } from './audit';
 
 /**
  * Role identifier type
@@ -26,9 +27,131 @@ export interface Role {
    * List of permissions assigned to this role
    */
   permissions: Permission[];
+  
+  /**
+   * Optional parent roles whose permissions this role inherits
+   */
+  inherits?: RoleId[];
 }
 
 /**
  * Map of role keys to role definitions
  */
-export type RoleMap = Record<string, Role>;
\ No newline at end of file
+export type RoleMap = Record<string, Role>;
+
+/**
+ * Period during which a role assignment is active
+ */
+export interface RoleValidity {
+  /**
+   * ISO 8601 time the assignment starts to apply (defaults to immediately)
+   */
+  validFrom?: string;
+
+  /**
+   * ISO 8601 time the assignment expires (defaults to never)
+   */
+  validUntil?: string;
+}
+
+/**
+ * Role assigned to a user within a scope, such as a tenant or organization, or for a limited time
+ */
+export interface RoleAssignment extends RoleValidity {
+  /**
+   * Assigned role
+   */
+  roleId: RoleId;
+
+  /**
+   * Tenant or organization the role applies in; the role applies in every scope when omitted
+   */
+  scope?: string;
+}
+
+/**
+ * Options for assigning or removing a role
+ */
+export interface RoleAssignmentOptions extends MutationOptions {
+  /**
+   * Tenant or organization the assignment applies in; unscoped roles apply in every scope
+   */
+  scope?: string;
+
+  /**
+   * Time the assignment starts to apply, when assigning (defaults to immediately)
+   */
+  validFrom?: Date | string;
+
+  /**
+   * Time the assignment expires, when assigning (defaults to never)
+   */
+  validUntil?: Date | string;
+}
+/**
+ * When a separation-of-duties constraint applies
+ * - static: a user may not be assigned more than the allowed number of the roles, in any scope
+ * - dynamic: a user may be assigned the roles, but no more than the allowed number may apply
+ *   together in one scope at the same time
+ */
+export type SoDConstraintType = 'static' | 'dynamic';
+
+/**
+ * Separation-of-duties constraint between roles
+ */
+export interface SoDConstraint {
+  /**
+   * Unique identifier for the constraint
+   */
+  id: string;
+
+  /**
+   * Optional description of the constraint
+   */
+  description?: string;
+
+  /**
+   * Whether the constraint limits every assignment or only roles applying together
+   */
+  type: SoDConstraintType;
+
+  /**
+   * Mutually exclusive roles; inherited roles count as held
+   */
+  roles: RoleId[];
+
+  /**
+   * Most roles of the set a user may hold (defaults to 1)
+   */
+  maxRoles?: number;
+}
+
+/**
+ * User holding more roles than a separation-of-duties constraint allows
+ */
+export interface SoDViolation {
+  /**
+   * Violated constraint
+   */
+  constraintId: string;
+
+  /**
+   * Type of the violated constraint
+   */
+  type: SoDConstraintType;
+
+  /**
+   * User breaking the constraint
+   */
+  userId: string;
+
+  /**
+   * Roles of the constraint the user holds
+   */
+  roleIds: RoleId[];
+
+  /**
+   * Scope the roles apply together in, for dynamic constraints; omitted when they apply in every scope
+   */
+  scope?: string;
+}
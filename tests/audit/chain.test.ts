@@ -0,0 +1,146 @@
+// file: tests/audit/chain.test.ts
+// description: Tests for audit log hash chaining and verification
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { verifyAuditLog } from '../../src/audit/chain';
+import { AuditLogger } from '../../src/audit/logger';
+import { FileAuditSink } from '../../src/audit/sinks';
+import { AuditEvent } from '../../src/types';
+
+describe('Audit Chain', () => {
+  const decision = (action: string): AuditEvent => ({
+    level: 'info',
+    event: 'decision',
+    actor: 'user123',
+    subject: 'user123',
+    resource: 'finance-reports',
+    action,
+    matchedRules: ['policy_finance'],
+    outcome: 'allow',
+    details: { step: 'ruleMatched' },
+  });
+
+  let directory: string;
+  let logPath: string;
+
+  const writeLog = async (actions: string[], hmacKey?: string, maxSize?: number) => {
+    const logger = new AuditLogger(
+      { enabled: true, level: 'info', hmacKey },
+      [new FileAuditSink({ path: logPath, maxSize })]
+    );
+    for (const action of actions) {
+      await logger.record(decision(action));
+    }
+  };
+
+  const readLines = async () => (await fs.readFile(logPath, 'utf-8')).trim().split('\n');
+  const writeLines = (lines: string[]) => fs.writeFile(logPath, `${lines.join('\n')}\n`);
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'hbac-chain-'));
+    logPath = path.join(directory, 'audit.jsonl');
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  test('should verify an intact log', async () => {
+    await writeLog(['read', 'export', 'delete']);
+
+    expect(await verifyAuditLog(logPath)).toEqual({ valid: true, entries: 3 });
+  });
+
+  test('should continue the chain across restarts', async () => {
+    await writeLog(['read', 'export']);
+    await writeLog(['delete']);
+
+    expect(await verifyAuditLog(logPath)).toEqual({ valid: true, entries: 3 });
+  });
+
+  test('should detect modified entries', async () => {
+    await writeLog(['read', 'export', 'delete']);
+    const lines = await readLines();
+    const tampered = JSON.parse(lines[1]);
+    tampered.outcome = 'deny';
+    await writeLines([lines[0], JSON.stringify(tampered), lines[2]]);
+
+    expect(await verifyAuditLog(logPath)).toEqual({
+      valid: false,
+      entries: 1,
+      brokenLink: { file: logPath, line: 2, entryId: tampered.id, reason: 'modified' },
+    });
+  });
+
+  test('should detect deleted and reordered entries', async () => {
+    await writeLog(['read', 'export', 'delete']);
+    const lines = await readLines();
+
+    await writeLines([lines[0], lines[2]]);
+    expect((await verifyAuditLog(logPath)).brokenLink).toEqual({
+      file: logPath,
+      line: 2,
+      entryId: JSON.parse(lines[2]).id,
+      reason: 'chainBroken',
+    });
+
+    await writeLines([lines[1], lines[0], lines[2]]);
+    expect((await verifyAuditLog(logPath)).brokenLink).toEqual(
+      expect.objectContaining({ line: 1, reason: 'chainBroken' })
+    );
+
+    // Without rotated files the log must start the chain
+    await writeLines([lines[1], lines[2]]);
+    expect(await verifyAuditLog(logPath)).toEqual({
+      valid: false,
+      entries: 0,
+      brokenLink: { file: logPath, line: 1, entryId: JSON.parse(lines[1]).id, reason: 'chainBroken' },
+    });
+  });
+
+  test('should detect malformed lines', async () => {
+    await writeLog(['read']);
+    const lines = await readLines();
+    await writeLines([lines[0], '{not json']);
+
+    expect(await verifyAuditLog(logPath)).toEqual({
+      valid: false,
+      entries: 1,
+      brokenLink: { file: logPath, line: 2, reason: 'malformed' },
+    });
+  });
+
+  test('should check HMACs when a key is given', async () => {
+    await writeLog(['read', 'export'], 'secret');
+
+    expect((await verifyAuditLog(logPath, { hmacKey: 'secret' })).valid).toBe(true);
+    expect((await verifyAuditLog(logPath, { hmacKey: 'other' })).brokenLink).toEqual(
+      expect.objectContaining({ line: 1, reason: 'hmacMismatch' })
+    );
+
+    // A forger without the key can rebuild hashes but not HMACs
+    await fs.rm(logPath);
+    await writeLog(['read']);
+    expect((await verifyAuditLog(logPath, { hmacKey: 'secret' })).brokenLink).toEqual(
+      expect.objectContaining({ line: 1, reason: 'hmacMismatch' })
+    );
+  });
+
+  test('should verify links across rotated files', async () => {
+    await writeLog(['read', 'export', 'delete', 'share'], undefined, 1);
+
+    expect(await verifyAuditLog(logPath)).toEqual({ valid: true, entries: 4 });
+
+    // Removing a rotated file in the middle breaks the chain
+    await fs.rm(`${logPath}.2`);
+    expect((await verifyAuditLog(logPath)).brokenLink).toEqual(
+      expect.objectContaining({ file: `${logPath}.1`, line: 1, reason: 'chainBroken' })
+    );
+  });
+
+  test('should throw when the log does not exist', async () => {
+    await expect(verifyAuditLog(logPath)).rejects.toThrow(`Audit log not found: ${logPath}`);
+  });
+});
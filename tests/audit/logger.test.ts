@@ -0,0 +1,209 @@
+// file: tests/audit/logger.test.ts
+// description: Tests for the audit logger component
+
+import { AuditLogger } from '../../src/audit/logger';
+import { DatabaseAuditSink } from '../../src/audit/sinks';
+import { InMemoryDatabaseConnector } from '../../src/db/memory/connector';
+import { AuditSink } from '../../src/interfaces/audit';
+import { GENESIS_HASH, computeEntryHash, computeEntryHmac } from '../../src/audit/chain';
+import { AuditEntry, AuditEvent } from '../../src/types';
+
+describe('AuditLogger', () => {
+  const decision: AuditEvent = {
+    level: 'info',
+    event: 'decision',
+    actor: 'user123',
+    subject: 'user123',
+    resource: 'documents',
+    action: 'read',
+    matchedRules: ['policy_test'],
+    outcome: 'allow',
+  };
+
+  const createSink = () => ({ write: jest.fn<Promise<void> | void, [AuditEntry]>() });
+
+  test('should stamp entries and write them to every sink', async () => {
+    const first = createSink();
+    const second = createSink();
+    const logger = new AuditLogger({ enabled: true, level: 'info' }, [first, second]);
+
+    await logger.record(decision);
+
+    expect(first.write).toHaveBeenCalledTimes(1);
+    const entry = first.write.mock.calls[0][0];
+    expect(entry).toEqual(expect.objectContaining(decision));
+    expect(typeof entry.id).toBe('string');
+    expect(new Date(entry.timestamp).toISOString()).toBe(entry.timestamp);
+    expect(second.write).toHaveBeenCalledWith(entry);
+  });
+
+  test('should filter entries by level', async () => {
+    const sink = createSink();
+    const logger = new AuditLogger({ enabled: true, level: 'warn' }, [sink]);
+
+    await logger.record({ ...decision, level: 'info' });
+    await logger.record({ ...decision, level: 'debug' });
+    await logger.record({ ...decision, level: 'warn', outcome: 'deny' });
+    await logger.record({ ...decision, level: 'error', event: 'assignRole', outcome: 'failure' });
+
+    expect(sink.write).toHaveBeenCalledTimes(2);
+    expect(logger.isEnabled('error')).toBe(true);
+    expect(logger.isEnabled('info')).toBe(false);
+  });
+
+  test('should not record anything when disabled', async () => {
+    const sink = createSink();
+    const logger = new AuditLogger({ enabled: false, level: 'debug' }, [sink]);
+
+    await logger.record({ ...decision, level: 'error' });
+
+    expect(sink.write).not.toHaveBeenCalled();
+    expect(logger.isEnabled('error')).toBe(false);
+  });
+
+  test('should keep writing to other sinks when one fails', async () => {
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const failing: AuditSink = { write: jest.fn().mockRejectedValue(new Error('disk full')) };
+    const working = createSink();
+    const logger = new AuditLogger({ enabled: true, level: 'info' }, [failing, working]);
+
+    await expect(logger.record(decision)).resolves.toBeUndefined();
+
+    expect(working.write).toHaveBeenCalledTimes(1);
+    expect(consoleSpy).toHaveBeenCalledWith('Failed to write audit entry: disk full');
+    consoleSpy.mockRestore();
+  });
+
+  test('should link entries into a hash chain', async () => {
+    const sink = createSink();
+    const logger = new AuditLogger({ enabled: true, level: 'info' }, [sink]);
+
+    // Concurrent entries still chain in call order
+    await Promise.all([
+      logger.record(decision),
+      logger.record({ ...decision, action: 'write' }),
+      logger.record({ ...decision, action: 'delete' }),
+    ]);
+
+    const entries = sink.write.mock.calls.map(([entry]) => entry);
+    expect(entries.map(entry => entry.action)).toEqual(['read', 'write', 'delete']);
+    expect(entries[0].prevHash).toBe(GENESIS_HASH);
+    expect(entries[1].prevHash).toBe(entries[0].hash);
+    expect(entries[2].prevHash).toBe(entries[1].hash);
+    expect(entries.map(entry => entry.sequence)).toEqual([1, 2, 3]);
+    entries.forEach(entry => {
+      expect(entry.hash).toBe(computeEntryHash(entry));
+      expect(entry.hmac).toBeUndefined();
+    });
+  });
+
+  test('should report entries that cannot be hashed without failing', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const sink = createSink();
+    const logger = new AuditLogger({ enabled: true, level: 'info' }, [sink]);
+
+    try {
+      await logger.record(decision);
+      await expect(logger.record({
+        ...decision,
+        event: 'setAttribute',
+        details: { attributeId: 'attr_quota', value: BigInt(1) },
+      })).resolves.toBeUndefined();
+      await logger.record({ ...decision, action: 'write' });
+
+      expect(consoleError).toHaveBeenCalledWith(expect.stringContaining('Failed to stamp audit entry'));
+      const entries = sink.write.mock.calls.map(([entry]) => entry);
+      expect(entries.map(entry => entry.action)).toEqual(['read', 'write']);
+      expect(entries[1].prevHash).toBe(entries[0].hash);
+    } finally {
+      consoleError.mockRestore();
+    }
+  });
+
+  test('should sign entries when an HMAC key is configured', async () => {
+    const sink = createSink();
+    const logger = new AuditLogger({ enabled: true, level: 'info', hmacKey: 'secret' }, [sink]);
+
+    await logger.record(decision);
+
+    const entry = sink.write.mock.calls[0][0];
+    expect(entry.hmac).toBe(computeEntryHmac(entry.hash, 'secret'));
+  });
+
+  test('should resume the chain from the last persisted entry', async () => {
+    const previous = { hash: 'a'.repeat(64), sequence: 41 } as AuditEntry;
+    const sink = { ...createSink(), lastEntry: jest.fn().mockResolvedValue(previous) };
+    const logger = new AuditLogger({ enabled: true, level: 'info' }, [createSink(), sink]);
+
+    await logger.record(decision);
+    await logger.record(decision);
+
+    expect(sink.lastEntry).toHaveBeenCalledTimes(1);
+    expect(sink.write.mock.calls[0][0].prevHash).toBe(previous.hash);
+    expect(sink.write.mock.calls.map(([entry]) => entry.sequence)).toEqual([42, 43]);
+  });
+
+  test('should query and prune entries stored in the database', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const connector = new InMemoryDatabaseConnector();
+    const logger = new AuditLogger(
+      { enabled: true, level: 'info', retentionDays: 30 },
+      [new DatabaseAuditSink(connector)],
+      connector
+    );
+
+    await logger.record(decision);
+    await logger.record({ ...decision, level: 'warn', outcome: 'deny', subject: 'user456' });
+
+    const result = await logger.query({ effect: 'deny' });
+    expect(result.entries).toHaveLength(1);
+    expect(result.entries[0].subject).toBe('user456');
+
+    // Entries older than the retention period are removed
+    await connector.saveAuditEntry({
+      ...result.entries[0],
+      id: 'old',
+      timestamp: new Date(Date.now() - 31 * 24 * 60 * 60 * 1000).toISOString(),
+    });
+    expect(await logger.prune()).toBe(1);
+    expect((await logger.query()).entries).toHaveLength(2);
+  });
+
+  test('should reject queries without database audit storage', async () => {
+    const logger = new AuditLogger({ enabled: true, level: 'info', retentionDays: 30 }, [createSink()]);
+
+    await expect(logger.query({})).rejects.toThrow('does not support audit queries');
+    await expect(logger.prune()).rejects.toThrow('does not support audit retention');
+    expect(await new AuditLogger({ enabled: true, level: 'info' }, []).prune()).toBe(0);
+
+    // Entries are only stored, and so found, through a database sink
+    const withoutSink = new AuditLogger({ enabled: true, level: 'info' }, [createSink()], new InMemoryDatabaseConnector());
+    await expect(withoutSink.query({})).rejects.toThrow("Audit queries require a sink of type 'database'");
+  });
+
+  test('should prune entries as they are recorded, at most once an hour', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.useFakeTimers({ now: new Date('2030-01-01T00:00:00Z') });
+
+    try {
+      const connector = new InMemoryDatabaseConnector();
+      const pruneAuditEntries = jest.spyOn(connector, 'pruneAuditEntries');
+      const logger = new AuditLogger(
+        { enabled: true, level: 'info', retentionDays: 30 },
+        [new DatabaseAuditSink(connector)],
+        connector
+      );
+
+      await logger.record(decision);
+      await logger.record(decision);
+      expect(pruneAuditEntries).toHaveBeenCalledTimes(1);
+
+      jest.setSystemTime(new Date('2030-01-01T01:00:00Z'));
+      await logger.record(decision);
+      expect(pruneAuditEntries).toHaveBeenCalledTimes(2);
+      expect(pruneAuditEntries).toHaveBeenLastCalledWith(new Date('2029-12-02T01:00:00Z'));
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
\ No newline at end of file
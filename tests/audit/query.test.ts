@@ -0,0 +1,109 @@
+// file: tests/audit/query.test.ts
+// description: Tests for filtering and paging audit entries
+
+import {
+  queryAuditEntries,
+  encodeAuditCursor,
+  decodeAuditCursor,
+  DEFAULT_AUDIT_QUERY_LIMIT,
+} from '../../src/audit/query';
+import { AuditEntry } from '../../src/types';
+
+describe('Audit Query', () => {
+  const createEntry = (id: string, timestamp: string, overrides: Partial<AuditEntry> = {}): AuditEntry => ({
+    id,
+    timestamp,
+    level: 'info',
+    event: 'decision',
+    actor: 'user123',
+    subject: 'user123',
+    resource: 'documents',
+    action: 'read',
+    matchedRules: [],
+    outcome: 'allow',
+    sequence: 1,
+    prevHash: '0'.repeat(64),
+    hash: 'f'.repeat(64),
+    ...overrides,
+  });
+
+  const entries = [
+    createEntry('a', '2025-01-01T00:00:00.000Z'),
+    createEntry('b', '2025-01-02T00:00:00.000Z', { outcome: 'deny', level: 'warn' }),
+    createEntry('c', '2025-01-03T00:00:00.000Z', { subject: 'user456', actor: 'user456', sequence: 3 }),
+    createEntry('d', '2025-01-03T00:00:00.000Z', { action: 'delete', outcome: 'deny', level: 'warn', sequence: 4 }),
+    createEntry('e', '2025-01-04T00:00:00.000Z', { resource: 'reports' }),
+  ];
+
+  const ids = (result: { entries: AuditEntry[] }) => result.entries.map(entry => entry.id);
+
+  test('should return entries newest first, breaking ties by chain position', () => {
+    const result = queryAuditEntries(entries, {});
+
+    expect(ids(result)).toEqual(['e', 'd', 'c', 'b', 'a']);
+    expect(result.nextCursor).toBeUndefined();
+
+    // Entries written in the same millisecond keep the order they were chained in
+    const tied = [
+      createEntry('x', '2025-01-05T00:00:00.000Z', { sequence: 7 }),
+      createEntry('y', '2025-01-05T00:00:00.000Z', { sequence: 6 }),
+    ];
+    expect(ids(queryAuditEntries(tied, {}))).toEqual(['x', 'y']);
+    expect(ids(queryAuditEntries(tied, { limit: 1, cursor: queryAuditEntries(tied, { limit: 1 }).nextCursor })))
+      .toEqual(['y']);
+  });
+
+  test('should filter by user, resource, action and effect', () => {
+    expect(ids(queryAuditEntries(entries, { userId: 'user456' }))).toEqual(['c']);
+    expect(ids(queryAuditEntries(entries, { resource: 'reports' }))).toEqual(['e']);
+    expect(ids(queryAuditEntries(entries, { action: 'delete' }))).toEqual(['d']);
+    expect(ids(queryAuditEntries(entries, { effect: 'deny' }))).toEqual(['d', 'b']);
+    expect(ids(queryAuditEntries(entries, { userId: 'user123', effect: 'deny', action: 'read' }))).toEqual(['b']);
+  });
+
+  test('should filter by an inclusive start and exclusive end', () => {
+    const result = queryAuditEntries(entries, {
+      from: new Date('2025-01-02T00:00:00.000Z'),
+      to: '2025-01-04T00:00:00.000Z',
+    });
+
+    expect(ids(result)).toEqual(['d', 'c', 'b']);
+  });
+
+  test('should page through results with a cursor', () => {
+    const first = queryAuditEntries(entries, { limit: 2 });
+    expect(ids(first)).toEqual(['e', 'd']);
+    expect(first.nextCursor).toBeDefined();
+
+    // The cursor resumes within entries sharing a timestamp
+    const second = queryAuditEntries(entries, { limit: 2, cursor: first.nextCursor });
+    expect(ids(second)).toEqual(['c', 'b']);
+
+    const third = queryAuditEntries(entries, { limit: 2, cursor: second.nextCursor });
+    expect(ids(third)).toEqual(['a']);
+    expect(third.nextCursor).toBeUndefined();
+  });
+
+  test('should apply the default limit', () => {
+    const many = Array.from({ length: DEFAULT_AUDIT_QUERY_LIMIT + 1 }, (_, index) =>
+      createEntry(`entry-${String(index).padStart(3, '0')}`, '2025-01-01T00:00:00.000Z')
+    );
+
+    const result = queryAuditEntries(many, {});
+
+    expect(result.entries).toHaveLength(DEFAULT_AUDIT_QUERY_LIMIT);
+    expect(result.nextCursor).toBeDefined();
+  });
+
+  test('should round-trip cursors and reject invalid input', () => {
+    expect(decodeAuditCursor(encodeAuditCursor(entries[1]))).toEqual({
+      timestamp: '2025-01-02T00:00:00.000Z',
+      sequence: 1,
+      id: 'b',
+    });
+
+    expect(() => decodeAuditCursor('not-a-cursor')).toThrow('Invalid audit cursor');
+    expect(() => queryAuditEntries(entries, { from: 'yesterday' })).toThrow('Invalid audit query date');
+    expect(() => queryAuditEntries(entries, { limit: 0 })).toThrow('Invalid audit query limit');
+  });
+});
@@ -0,0 +1,130 @@
+// file: tests/audit/sinks.test.ts
+// description: Tests for the built-in audit sinks
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+  ConsoleAuditSink,
+  FileAuditSink,
+  DatabaseAuditSink,
+  CallbackAuditSink,
+  createAuditSinks,
+} from '../../src/audit/sinks';
+import { InMemoryDatabaseConnector } from '../../src/db/memory/connector';
+import { AuditEntry } from '../../src/types';
+
+describe('Audit Sinks', () => {
+  const createEntry = (id: string): AuditEntry => ({
+    id,
+    timestamp: '2025-01-15T12:00:00.000Z',
+    level: 'info',
+    event: 'decision',
+    actor: 'user123',
+    subject: 'user123',
+    resource: 'documents',
+    action: 'read',
+    matchedRules: [],
+    outcome: 'allow',
+    sequence: 1,
+    prevHash: '0'.repeat(64),
+    hash: 'f'.repeat(64),
+  });
+
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'hbac-audit-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  test('should write entries to the console method matching their level', () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const entry = { ...createEntry('1'), level: 'warn' as const, outcome: 'deny' as const };
+
+    new ConsoleAuditSink().write(entry);
+
+    expect(warnSpy).toHaveBeenCalledWith(JSON.stringify(entry));
+    warnSpy.mockRestore();
+  });
+
+  test('should append entries to a JSON Lines file in order', async () => {
+    const filePath = path.join(directory, 'logs', 'audit.jsonl');
+    const sink = new FileAuditSink({ path: filePath });
+
+    await Promise.all(['1', '2', '3'].map(id => sink.write(createEntry(id))));
+
+    const lines = (await fs.readFile(filePath, 'utf-8')).trim().split('\n');
+    expect(lines.map(line => JSON.parse(line).id)).toEqual(['1', '2', '3']);
+  });
+
+  test('should rotate files once they reach the size limit', async () => {
+    const filePath = path.join(directory, 'audit.jsonl');
+    const lineSize = Buffer.byteLength(`${JSON.stringify(createEntry('1'))}\n`);
+    const sink = new FileAuditSink({ path: filePath, maxSize: lineSize * 2, maxFiles: 2 });
+
+    for (const id of ['1', '2', '3', '4', '5', '6', '7']) {
+      await sink.write(createEntry(id));
+    }
+
+    const readIds = async (file: string) =>
+      (await fs.readFile(file, 'utf-8')).trim().split('\n').map(line => JSON.parse(line).id);
+
+    expect(await readIds(filePath)).toEqual(['7']);
+    expect(await readIds(`${filePath}.1`)).toEqual(['5', '6']);
+    expect(await readIds(`${filePath}.2`)).toEqual(['3', '4']);
+    await expect(fs.access(`${filePath}.3`)).rejects.toThrow();
+  });
+
+  test('should read the last entry written, falling back to the latest rotated file', async () => {
+    const filePath = path.join(directory, 'audit.jsonl');
+    const sink = new FileAuditSink({ path: filePath });
+
+    expect(await sink.lastEntry()).toBeNull();
+
+    await sink.write(createEntry('1'));
+    await sink.write(createEntry('2'));
+    expect((await sink.lastEntry())?.id).toBe('2');
+
+    await fs.rename(filePath, `${filePath}.1`);
+    await fs.writeFile(filePath, '');
+    expect((await sink.lastEntry())?.id).toBe('2');
+  });
+
+  test('should pass entries to a callback', async () => {
+    const callback = jest.fn();
+    const entry = createEntry('1');
+
+    await new CallbackAuditSink(callback).write(entry);
+
+    expect(callback).toHaveBeenCalledWith(entry);
+  });
+
+  test('should create sinks from configuration', () => {
+    const sinks = createAuditSinks([
+      { type: 'console' },
+      { type: 'file', path: path.join(directory, 'audit.jsonl') },
+    ]);
+
+    expect(sinks[0]).toBeInstanceOf(ConsoleAuditSink);
+    expect(sinks[1]).toBeInstanceOf(FileAuditSink);
+  });
+
+  test('should store entries through the database connector', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const connector = new InMemoryDatabaseConnector();
+    const sink = createAuditSinks([{ type: 'database' }], connector)[0];
+
+    expect(sink).toBeInstanceOf(DatabaseAuditSink);
+    expect(await sink.lastEntry!()).toBeNull();
+
+    await sink.write(createEntry('1'));
+    await sink.write({ ...createEntry('2'), timestamp: '2025-01-15T12:00:01.000Z' });
+
+    expect((await sink.lastEntry!())!.id).toBe('2');
+    expect(() => createAuditSinks([{ type: 'database' }])).toThrow('requires a database connector');
+  });
+});
\ No newline at end of file
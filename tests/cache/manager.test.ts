@@ -233,6 +233,7 @@ describe('CacheManager', () => {
     cacheManager.setPermissionDecision(`${userId}:posts:read:{}`, true);
     cacheManager.setPermissionDecision(`${userId}:documents:read:{}`, true);
     cacheManager.setPermissionDecision(`other-user:posts:read:{}`, true);
+    cacheManager.setAuthorization(`${userId}:posts:read:{}`, { allowed: true, effect: 'allow', obligations: [], advice: [] });
     
     // Invalidate user
     cacheManager.invalidateUser(userId);
@@ -242,8 +243,51 @@ describe('CacheManager', () => {
     expect(cacheManager.getUserAttributes(userId)).toBeNull();
     expect(cacheManager.getPermissionDecision(`${userId}:posts:read:{}`)).toBeNull();
     expect(cacheManager.getPermissionDecision(`${userId}:documents:read:{}`)).toBeNull();
+    expect(cacheManager.getAuthorization(`${userId}:posts:read:{}`)).toBeNull();
     
     // Other user entries should remain
     expect(cacheManager.getPermissionDecision(`other-user:posts:read:{}`)).toBe(true);
   });
+
+  test('should cache roles separately per scope', () => {
+    const cacheManager = new CacheManager({ enabled: true, ttl: 300 });
+    
+    cacheManager.setUserRoles('user123', ['role_user']);
+    cacheManager.setUserRoles('user123', ['role_user', 'role_editor'], 'tenant-a');
+    
+    expect(cacheManager.getUserRoles('user123')).toEqual(['role_user']);
+    expect(cacheManager.getUserRoles('user123', 'tenant-a')).toEqual(['role_user', 'role_editor']);
+    expect(cacheManager.getUserRoles('user123', 'tenant-b')).toBeNull();
+    
+    cacheManager.invalidateUser('user123');
+    
+    expect(cacheManager.getUserRoles('user123')).toBeNull();
+    expect(cacheManager.getUserRoles('user123', 'tenant-a')).toBeNull();
+  });
+
+  test('should not cache user entries past their expiry', () => {
+    const now = originalDateNow();
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    
+    const cacheManager = new CacheManager({ enabled: true, ttl: 300 });
+    
+    cacheManager.setUserRoles('user123', ['role_contractor']);
+    cacheManager.expireUserAt('user123', new Date(now + 60 * 1000));
+    cacheManager.setPermissionDecision('user123:documents:read:{}', true);
+    cacheManager.setPermissionDecision('user456:documents:read:{}', true);
+    
+    jest.spyOn(Date, 'now').mockImplementation(() => now + 61 * 1000);
+    
+    // Entries cached before and after the expiry was set are both limited
+    expect(cacheManager.getUserRoles('user123')).toBeNull();
+    expect(cacheManager.getPermissionDecision('user123:documents:read:{}')).toBeNull();
+    
+    // Other users keep the full TTL
+    expect(cacheManager.getPermissionDecision('user456:documents:read:{}')).toBe(true);
+    
+    // Once passed, the expiry no longer limits new entries
+    cacheManager.setUserRoles('user123', ['role_user']);
+    jest.spyOn(Date, 'now').mockImplementation(() => now + 200 * 1000);
+    expect(cacheManager.getUserRoles('user123')).toEqual(['role_user']);
+  });
 });
\ No newline at end of file
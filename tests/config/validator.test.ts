@@ -261,4 +261,474 @@ describe('Config Validator', () => {
     };
     expect(() => validateConfig(invalidConfig)).toThrow(/must have a valid condition object/);
   });
+
+  test('should throw error for policy rules sharing an identifier', () => {
+    const rule = validConfig.policyRules![0];
+    const invalidConfig = {
+      ...validConfig,
+      policyRules: [rule, { ...rule, condition: {} }],
+    };
+    expect(() => validateConfig(invalidConfig)).toThrow(`Duplicate policy identifier: ${rule.id}`);
+  });
+
+  test('should accept well-formed logical operators in conditions', () => {
+    const config = {
+      ...validConfig,
+      policyRules: [
+        {
+          id: 'policy_test',
+          resource: 'documents',
+          action: 'read',
+          condition: {
+            '$or': [
+              { 'attributes.department': 'Finance' },
+              { 'attributes.clearanceLevel': { '$not': { '$lt': 4 } } },
+            ],
+            '$not': { 'context.isExternal': true },
+          },
+          effect: 'allow',
+        } as PolicyRule,
+      ],
+    };
+    expect(() => validateConfig(config)).not.toThrow();
+  });
+
+  test('should throw error for malformed logical operators', () => {
+    const withCondition = (condition: Record<string, any>) => ({
+      ...validConfig,
+      policyRules: [
+        {
+          id: 'policy_test',
+          resource: 'documents',
+          action: 'read',
+          condition,
+          effect: 'allow',
+        } as PolicyRule,
+      ],
+    });
+
+    expect(() => validateConfig(withCondition({ '$or': [] })))
+      .toThrow(/Operator \$or in policy rule "policy_test" must be a non-empty array/);
+    expect(() => validateConfig(withCondition({ '$and': { 'attributes.department': 'Finance' } })))
+      .toThrow(/must be a non-empty array/);
+    expect(() => validateConfig(withCondition({ '$nor': ['Finance'] })))
+      .toThrow(/must contain condition objects/);
+    expect(() => validateConfig(withCondition({ '$not': [{ 'attributes.department': 'Finance' }] })))
+      .toThrow(/must not be an array or empty/);
+    expect(() => validateConfig(withCondition({
+      'attributes.clearanceLevel': { '$or': { '$gte': 4 } },
+    }))).toThrow(/must be a non-empty array/);
+  });
+
+  test('should accept string, regex and array operators', () => {
+    const config = {
+      ...validConfig,
+      policyRules: [
+        {
+          id: 'policy_test',
+          resource: 'documents',
+          action: 'read',
+          condition: {
+            'attributes.department': { '$regex': '^fin', '$options': 'i' },
+            'attributes.email': { '$endsWith': '@example.com' },
+            'attributes.projects': { '$elemMatch': { id: { '$startsWith': 'p' }, active: true } },
+            'attributes.tags': { '$all': ['a'], '$size': 1 },
+          },
+          effect: 'allow',
+        } as PolicyRule,
+      ],
+    };
+    expect(() => validateConfig(config)).not.toThrow();
+  });
+
+  test('should throw error for unknown or malformed operators', () => {
+    const withCondition = (condition: Record<string, any>) => ({
+      ...validConfig,
+      policyRules: [
+        {
+          id: 'policy_test',
+          resource: 'documents',
+          action: 'read',
+          condition,
+          effect: 'allow',
+        } as PolicyRule,
+      ],
+    });
+
+    expect(() => validateConfig(withCondition({ 'attributes.department': { '$like': 'Fin%' } })))
+      .toThrow(/Unknown predicate operator \$like in policy rule "policy_test"/);
+    expect(() => validateConfig(withCondition({ '$xor': [{ 'attributes.department': 'Finance' }] })))
+      .toThrow(/Unknown condition operator \$xor/);
+    expect(() => validateConfig(withCondition({
+      'attributes.department': { '$or': [{ '$matches': 'Fin' }] },
+    }))).toThrow(/Unknown predicate operator \$matches/);
+    expect(() => validateConfig(withCondition({ 'attributes.department': { '$regex': '([a-z' } })))
+      .toThrow(/Invalid \$regex in policy rule "policy_test"/);
+    expect(() => validateConfig(withCondition({ 'attributes.department': { '$options': 'i' } })))
+      .toThrow(/\$options in policy rule "policy_test" requires \$regex/);
+    expect(() => validateConfig(withCondition({ 'attributes.tags': { '$elemMatch': 'a' } })))
+      .toThrow(/\$elemMatch in policy rule "policy_test" must be an object/);
+  });
+
+  test('should validate temporal operators and environment timezone', () => {
+    const withCondition = (condition: Record<string, any>) => ({
+      ...validConfig,
+      policyRules: [
+        {
+          id: 'policy_test',
+          resource: 'deploy',
+          action: 'execute',
+          condition,
+          effect: 'allow',
+        } as PolicyRule,
+      ],
+    });
+
+    expect(() => validateConfig({
+      ...withCondition({
+        'env.now': { '$between': ['2024-01-01', 1735689600000] },
+        'context.expiresAt': { '$after': 'env.now' },
+        'env.hourOfDay': { '$gte': 9, '$lt': 17 },
+      }),
+      environment: { timezone: 'Europe/Berlin' },
+    })).not.toThrow();
+
+    expect(() => validateConfig(withCondition({ 'env.now': { '$before': 'tomorrow' } })))
+      .toThrow(/\$before in policy rule "policy_test" must be a date string/);
+    expect(() => validateConfig(withCondition({ 'env.now': { '$between': ['2024-01-01'] } })))
+      .toThrow(/\$between in policy rule "policy_test" must be a \[start, end\] array/);
+    expect(() => validateConfig({ ...validConfig, environment: { timezone: 'Mars/Olympus' } }))
+      .toThrow(/Invalid environment timezone: Mars\/Olympus/);
+  });
+
+  test('should validate CIDR ranges in IP operators', () => {
+    const withCondition = (condition: Record<string, any>) => ({
+      ...validConfig,
+      policyRules: [
+        {
+          id: 'policy_test',
+          resource: 'admin',
+          action: '*',
+          condition,
+          effect: 'allow',
+        } as PolicyRule,
+      ],
+    });
+
+    expect(() => validateConfig(withCondition({
+      'context.ip': { '$ipInRange': ['10.0.0.0/8', 'fd00::/8'], '$not': { '$cidr': '10.9.0.0/16' } },
+    }))).not.toThrow();
+
+    expect(() => validateConfig(withCondition({ 'context.ip': { '$cidr': '10.0.0.0/33' } })))
+      .toThrow(/Invalid CIDR range for \$cidr in policy rule "policy_test": 10.0.0.0\/33/);
+    expect(() => validateConfig(withCondition({ 'context.ip': { '$ipInRange': ['2001:db8::/32', 'office'] } })))
+      .toThrow(/Invalid CIDR range for \$ipInRange/);
+    expect(() => validateConfig(withCondition({ 'context.ip': { '$ipInRange': [] } })))
+      .toThrow(/must list at least one range/);
+  });
+
+  test('should validate the policy evaluation type and mode', () => {
+    for (const evaluation of ['permitOverrides', 'denyUnlessPermit', 'permitUnlessDeny', 'onlyOneApplicable'] as const) {
+      expect(() => validateConfig({
+        ...validConfig,
+        policies: { ...validConfig.policies, evaluation },
+      })).not.toThrow();
+    }
+
+    expect(() => validateConfig({
+      ...validConfig,
+      policies: { ...validConfig.policies, evaluation: 'mostSpecific' as any },
+    })).toThrow(/Invalid policy evaluation type: mostSpecific/);
+
+    expect(() => validateConfig({
+      ...validConfig,
+      policies: { ...validConfig.policies, mode: 'policyFirst' },
+    })).not.toThrow();
+
+    expect(() => validateConfig({
+      ...validConfig,
+      policies: { ...validConfig.policies, mode: 'abacOnly' as any },
+    })).toThrow(/Invalid policy evaluation mode: abacOnly/);
+  });
+
+  test('should validate rule priorities and warn on ties under firstApplicable', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const rule = {
+      id: 'policy_a',
+      resource: 'documents',
+      action: 'read',
+      condition: {},
+      effect: 'allow' as const,
+      priority: 5,
+    };
+    const tiedConfig = {
+      ...validConfig,
+      policyRules: [rule, { ...rule, id: 'policy_b' }, { ...rule, id: 'policy_c', priority: 1 }],
+    };
+
+    validateConfig(tiedConfig);
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][0]).toContain('Policy rules "policy_a" and "policy_b" for documents:read share priority 5');
+
+    // Order only matters to firstApplicable
+    warn.mockClear();
+    validateConfig({ ...tiedConfig, policies: { ...validConfig.policies, evaluation: 'denyOverrides' } });
+    expect(warn).not.toHaveBeenCalled();
+
+    expect(() => validateConfig({
+      ...validConfig,
+      policyRules: [{ ...rule, priority: 'high' as any }],
+    })).toThrow(/Invalid priority for policy rule "policy_a": high/);
+
+    warn.mockRestore();
+  });
+
+  test('should validate policy sets', () => {
+    const rule = { id: 'policy_nested', resource: 'documents', action: 'read', condition: {}, effect: 'allow' as const };
+    const policySet = {
+      id: 'set_documents',
+      resource: 'documents',
+      evaluation: 'denyOverrides' as const,
+      policies: [rule, { id: 'set_inner', evaluation: 'firstApplicable' as const, policies: [{ ...rule, id: 'policy_inner' }] }],
+    };
+
+    expect(() => validateConfig({ ...validConfig, policySets: [policySet] })).not.toThrow();
+
+    expect(() => validateConfig({
+      ...validConfig,
+      policySets: [{ ...policySet, evaluation: 'mostSpecific' as any }],
+    })).toThrow(/Invalid evaluation type for policy set "set_documents": mostSpecific/);
+
+    expect(() => validateConfig({
+      ...validConfig,
+      policySets: [{ ...policySet, policies: [] }],
+    })).toThrow(/Policy set "set_documents" must contain at least one policy/);
+
+    expect(() => validateConfig({
+      ...validConfig,
+      policySets: [{ ...policySet, action: 'read:' }],
+    })).toThrow(/Invalid action pattern for policy set "set_documents"/);
+
+    // Nested rules are validated like top-level ones
+    expect(() => validateConfig({
+      ...validConfig,
+      policySets: [{ ...policySet, policies: [{ ...rule, effect: 'maybe' as any }] }],
+    })).toThrow(/Invalid effect for policy rule "policy_nested": maybe/);
+
+    expect(() => validateConfig({
+      ...validConfig,
+      policySets: [{ ...policySet, policies: [rule, rule] }],
+    })).toThrow(/Duplicate policy identifier: policy_nested/);
+  });
+
+  test('should validate rule obligations and advice', () => {
+    const rule = { id: 'policy_masked', resource: 'employees', action: 'read', condition: {}, effect: 'allow' as const };
+
+    expect(() => validateConfig({
+      ...validConfig,
+      policyRules: [{ ...rule, obligations: [{ id: 'maskField', params: { field: 'ssn' } }], advice: [{ id: 'notifyOwner' }] }],
+    })).not.toThrow();
+
+    expect(() => validateConfig({
+      ...validConfig,
+      policyRules: [{ ...rule, obligations: [{ params: {} } as any] }],
+    })).toThrow(/Invalid obligations for policy rule "policy_masked"/);
+
+    expect(() => validateConfig({
+      ...validConfig,
+      policyRules: [{ ...rule, advice: 'notifyOwner' as any }],
+    })).toThrow(/Invalid advice for policy rule "policy_masked"/);
+  });
+
+  test('should validate the policy owner attribute path', () => {
+    expect(() => validateConfig({
+      ...validConfig,
+      policies: { ...validConfig.policies, ownerAttribute: 'context.authorId' },
+    })).not.toThrow();
+
+    expect(() => validateConfig({
+      ...validConfig,
+      policies: { ...validConfig.policies, ownerAttribute: 'ownerId' },
+    })).toThrow(/Invalid policy owner attribute: ownerId/);
+  });
+
+  test('should validate role inheritance', () => {
+    const roles = {
+      admin: { id: 'role_admin', permissions: ['*:*'] as Permission[], inherits: ['role_editor'] },
+      editor: { id: 'role_editor', permissions: [] as Permission[], inherits: ['role_user'] },
+      user: { id: 'role_user', permissions: ['posts:read'] as Permission[] },
+    };
+
+    expect(() => validateConfig({ ...validConfig, roles })).not.toThrow();
+
+    expect(() => validateConfig({
+      ...validConfig,
+      roles: { ...roles, user: { ...roles.user, inherits: ['role_missing'] } },
+    })).toThrow(/Role "user" inherits from unknown role: role_missing/);
+
+    expect(() => validateConfig({
+      ...validConfig,
+      roles: { ...roles, user: { ...roles.user, inherits: ['role_admin'] } },
+    })).toThrow(/Role inheritance cycle detected: role_admin -> role_editor -> role_user -> role_admin/);
+
+    expect(() => validateConfig({
+      ...validConfig,
+      roles: { ...roles, user: { ...roles.user, inherits: ['role_user'] } },
+    })).toThrow(/Role inheritance cycle detected: role_user -> role_user/);
+
+    // Roles without parents still need permissions of their own
+    expect(() => validateConfig({
+      ...validConfig,
+      roles: { ...roles, user: { id: 'role_user', permissions: [] as Permission[] } },
+    })).toThrow(/Role "user" must have at least one permission/);
+  });
+
+  test('should validate hierarchical and glob patterns', () => {
+    expect(() => validateConfig({
+      ...validConfig,
+      roles: {
+        member: {
+          id: 'role_member',
+          permissions: ['projects/*/documents/**:read', 'reports.finance.*:export:own'] as Permission[],
+        },
+      },
+      policyRules: [{ ...validConfig.policyRules![0], resource: 'projects/*/documents/*', action: 'edit-*' }],
+    })).not.toThrow();
+
+    expect(() => validateConfig({
+      ...validConfig,
+      roles: { member: { id: 'role_member', permissions: ['projects//documents:read'] as Permission[] } },
+    })).toThrow(/Invalid permission format: projects\/\/documents:read/);
+
+    expect(() => validateConfig({
+      ...validConfig,
+      policyRules: [{ ...validConfig.policyRules![0], resource: 'reports.***' }],
+    })).toThrow(/Invalid resource pattern for policy rule "policy_test": reports\.\*\*\*/);
+
+    expect(() => validateConfig({
+      ...validConfig,
+      policyRules: [{ ...validConfig.policyRules![0], action: 'read write' }],
+    })).toThrow(/Invalid action pattern for policy rule "policy_test": read write/);
+  });
+
+  test('should validate audit settings', () => {
+    expect(() => validateConfig({
+      ...validConfig,
+      audit: {
+        enabled: true,
+        level: 'warn',
+        sinks: [{ type: 'console' }, { type: 'file', path: './audit.jsonl', maxSize: 1024, maxFiles: 3 }],
+      },
+    })).not.toThrow();
+
+    expect(() => validateConfig({
+      ...validConfig,
+      audit: { enabled: true, level: 'verbose' as any },
+    })).toThrow(/Invalid audit level: verbose/);
+
+    expect(() => validateConfig({
+      ...validConfig,
+      audit: { enabled: true, level: 'info', sinks: [{ type: 'syslog' } as any] },
+    })).toThrow(/Unknown audit sink type: syslog/);
+
+    expect(() => validateConfig({
+      ...validConfig,
+      audit: { enabled: true, level: 'info', sinks: [{ type: 'file' } as any] },
+    })).toThrow(/File audit sink must specify a path/);
+
+    expect(() => validateConfig({
+      ...validConfig,
+      audit: { enabled: true, level: 'info', sinks: [{ type: 'file', path: './audit.jsonl', maxSize: 0 }] },
+    })).toThrow(/Invalid audit file maxSize: 0/);
+
+    expect(() => validateConfig({
+      ...validConfig,
+      audit: { enabled: true, level: 'info', hmacKey: '' },
+    })).toThrow(/Audit HMAC key must be a non-empty string/);
+
+    expect(() => validateConfig({
+      ...validConfig,
+      audit: { enabled: true, level: 'info', sinks: [{ type: 'database' }], retentionDays: 90 },
+    })).not.toThrow();
+
+    expect(() => validateConfig({
+      ...validConfig,
+      audit: { enabled: true, level: 'info', retentionDays: -1 },
+    })).toThrow(/Invalid audit retentionDays: -1/);
+  });
+
+  test('should validate separation-of-duties constraints', () => {
+    const config: HBACConfig = {
+      ...validConfig,
+      roles: {
+        ...validConfig.roles,
+        initiator: { id: 'role_payments_initiator', permissions: ['payments:create'] as Permission[] },
+        approver: { id: 'role_payments_approver', permissions: ['payments:approve'] as Permission[] },
+      },
+    };
+    const constraint = {
+      id: 'sod_payments',
+      type: 'static' as const,
+      roles: ['role_payments_initiator', 'role_payments_approver'],
+    };
+
+    expect(() => validateConfig({ ...config, separationOfDuties: [constraint] })).not.toThrow();
+
+    expect(() => validateConfig({
+      ...config,
+      separationOfDuties: [constraint, { ...constraint, type: 'dynamic' }],
+    })).toThrow(/Duplicate separation-of-duties constraint: sod_payments/);
+
+    expect(() => validateConfig({
+      ...config,
+      separationOfDuties: [{ ...constraint, type: 'session' as any }],
+    })).toThrow(/Invalid type for separation-of-duties constraint "sod_payments": session/);
+
+    expect(() => validateConfig({
+      ...config,
+      separationOfDuties: [{ ...constraint, roles: ['role_payments_initiator', 'role_payments_initiator'] }],
+    })).toThrow(/must list at least two distinct roles/);
+
+    expect(() => validateConfig({
+      ...config,
+      separationOfDuties: [{ ...constraint, roles: ['role_payments_initiator', 'role_treasurer'] }],
+    })).toThrow(/references unknown role: role_treasurer/);
+
+    expect(() => validateConfig({
+      ...config,
+      separationOfDuties: [{ ...constraint, maxRoles: 2 }],
+    })).toThrow(/Invalid maxRoles for separation-of-duties constraint "sod_payments": 2/);
+  });
+
+  test('should validate relation rules and $related conditions', () => {
+    const withRelated = (condition: Record<string, any>): HBACConfig => ({
+      ...validConfig,
+      policyRules: [{ id: 'policy_related', resource: 'document', action: 'update', condition, effect: 'allow' }],
+    });
+
+    expect(() => validateConfig({
+      ...withRelated({ '$related': 'editor' }),
+      relations: { document: { editor: { union: ['owner'], parent: 'parent' } } },
+    })).not.toThrow();
+
+    expect(() => validateConfig(withRelated({ '$related': { relation: 'member', object: 'context.team' } }))).not.toThrow();
+
+    expect(() => validateConfig(withRelated({ '$related': { object: 'team:eng' } })))
+      .toThrow(/Operator \$related in policy rule "policy_related" must name a relation/);
+
+    expect(() => validateConfig({
+      ...validConfig,
+      relations: { document: { editor: { union: 'owner' as any } } },
+    })).toThrow(/Relation rule "document#editor" union must be an array of relation names/);
+
+    expect(() => validateConfig({
+      ...validConfig,
+      relations: { document: { editor: { parent: '' } } },
+    })).toThrow(/Relation rule "document#editor" parent must be a relation name/);
+
+    expect(() => validateConfig({
+      ...validConfig,
+      relations: { document: { viewer: { union: ['editor'] }, editor: { union: ['viewer'] } } },
+    })).toThrow(/Relation union cycle detected for "document": viewer -> editor -> viewer/);
+  });
 });
\ No newline at end of file
@@ -347,4 +347,188 @@ describe('LowdbDatabaseConnector', () => {
     await expect(connector.setAttribute('test-user', 'attr_clearance', 3))
       .rejects.toThrow();
   });
+
+  test('should store, query and prune audit entries', async () => {
+    const connector = new LowdbDatabaseConnector(testConfig);
+    const entry = {
+      id: 'entry-1',
+      timestamp: '2025-01-15T12:00:00.000Z',
+      level: 'info' as const,
+      event: 'decision' as const,
+      actor: 'test-user',
+      subject: 'test-user',
+      resource: 'documents',
+      action: 'read',
+      outcome: 'allow' as const,
+      sequence: 1,
+      prevHash: '0'.repeat(64),
+      hash: 'f'.repeat(64),
+    };
+    
+    (fs.readFile as jest.Mock).mockResolvedValueOnce(databaseWithUser);
+    (fs.writeFile as jest.Mock).mockResolvedValueOnce(undefined);
+    
+    await connector.saveAuditEntry(entry);
+    
+    // Entries are stored alongside the user access map
+    const writtenData = JSON.parse((fs.writeFile as jest.Mock).mock.calls[0][1]);
+    expect(writtenData.audit_log).toEqual([entry]);
+    expect(writtenData.user_access_map).toHaveLength(1);
+    
+    (fs.readFile as jest.Mock).mockResolvedValueOnce(JSON.stringify(writtenData));
+    const result = await connector.queryAuditEntries({ userId: 'test-user', effect: 'allow' });
+    expect(result.entries).toEqual([entry]);
+    
+    (fs.readFile as jest.Mock).mockResolvedValueOnce(JSON.stringify(writtenData));
+    (fs.writeFile as jest.Mock).mockResolvedValueOnce(undefined);
+    expect(await connector.pruneAuditEntries(new Date('2025-02-01T00:00:00.000Z'))).toBe(1);
+    expect(JSON.parse((fs.writeFile as jest.Mock).mock.calls[1][1]).audit_log).toEqual([]);
+  });
+
+  test('should store and resolve roles assigned within a scope', async () => {
+    const connector = new LowdbDatabaseConnector(testConfig);
+    
+    (fs.readFile as jest.Mock).mockResolvedValueOnce(databaseWithUser);
+    (fs.writeFile as jest.Mock).mockResolvedValueOnce(undefined);
+    
+    await connector.assignRole('test-user', 'role_editor', 'tenant-a');
+    
+    const writtenData = JSON.parse((fs.writeFile as jest.Mock).mock.calls[0][1]);
+    const scopedDatabase = JSON.stringify(writtenData);
+    
+    // Scoped roles are kept apart from the unscoped ones
+    expect(writtenData.user_access_map[0].roleIds).toEqual(['role_user']);
+    expect(writtenData.user_access_map[0].roleAssignments).toEqual([{ roleId: 'role_editor', scope: 'tenant-a' }]);
+    
+    (fs.readFile as jest.Mock).mockResolvedValue(scopedDatabase);
+    
+    await expect(connector.getUserRoles('test-user', 'tenant-a')).resolves.toEqual(['role_user', 'role_editor']);
+    await expect(connector.getUserRoles('test-user', 'tenant-b')).resolves.toEqual(['role_user']);
+    await expect(connector.getUserRoles('test-user')).resolves.toEqual(['role_user']);
+    
+    // Removing the role from another scope leaves the assignment in place
+    await connector.removeRole('test-user', 'role_editor', 'tenant-b');
+    await connector.removeRole('test-user', 'role_editor', 'tenant-a');
+    
+    const calls = (fs.writeFile as jest.Mock).mock.calls;
+    expect(JSON.parse(calls[1][1]).user_access_map[0].roleAssignments).toHaveLength(1);
+    expect(JSON.parse(calls[2][1]).user_access_map[0].roleAssignments).toEqual([]);
+    
+    (fs.readFile as jest.Mock).mockReset();
+  });
+
+  test('should drop and purge expired role assignments', async () => {
+    const connector = new LowdbDatabaseConnector(testConfig);
+    const userWithAssignments = {
+      user_access_map: [
+        {
+          ...testUserMap,
+          roleAssignments: [
+            { roleId: 'role_responder', validUntil: '2000-01-01T00:00:00.000Z' },
+            { roleId: 'role_contractor', validUntil: '2999-01-01T00:00:00.000Z' },
+          ],
+        },
+      ],
+    };
+    
+    (fs.readFile as jest.Mock).mockResolvedValue(JSON.stringify(userWithAssignments));
+    (fs.writeFile as jest.Mock).mockResolvedValue(undefined);
+    
+    await expect(connector.getUserRoles('test-user')).resolves.toEqual(['role_user', 'role_contractor']);
+    await expect(connector.getNextRoleChange('test-user')).resolves.toEqual(new Date('2999-01-01T00:00:00.000Z'));
+    await expect(connector.purgeExpiredAssignments()).resolves.toBe(1);
+    
+    const writtenData = JSON.parse((fs.writeFile as jest.Mock).mock.calls[0][1]);
+    expect(writtenData.user_access_map[0].roleAssignments).toEqual([
+      { roleId: 'role_contractor', validUntil: '2999-01-01T00:00:00.000Z' },
+    ]);
+    
+    (fs.readFile as jest.Mock).mockReset();
+    (fs.writeFile as jest.Mock).mockReset();
+  });
+
+  test('should replace a permanent role with an unscoped time-bound assignment', async () => {
+    const connector = new LowdbDatabaseConnector(testConfig);
+    
+    (fs.readFile as jest.Mock).mockResolvedValueOnce(databaseWithUser);
+    (fs.writeFile as jest.Mock).mockResolvedValueOnce(undefined);
+    
+    await connector.assignRole('test-user', 'role_user', undefined, { validUntil: '2000-01-01T00:00:00.000Z' });
+    
+    const writtenData = JSON.parse((fs.writeFile as jest.Mock).mock.calls[0][1]);
+    expect(writtenData.user_access_map[0].roleIds).toEqual([]);
+    expect(writtenData.user_access_map[0].roleAssignments).toEqual([
+      { roleId: 'role_user', validUntil: '2000-01-01T00:00:00.000Z' },
+    ]);
+    
+    (fs.readFile as jest.Mock).mockResolvedValueOnce(JSON.stringify(writtenData));
+    await expect(connector.getUserRoles('test-user')).resolves.toEqual([]);
+  });
+
+  test('should store, read and delete relation tuples', async () => {
+    const connector = new LowdbDatabaseConnector(testConfig);
+    const tuple = { object: 'folder:specs', relation: 'owner', subject: 'team:eng#member' };
+    
+    (fs.readFile as jest.Mock).mockResolvedValueOnce(databaseWithUser);
+    (fs.writeFile as jest.Mock).mockResolvedValueOnce(undefined);
+    
+    await connector.writeRelationTuple(tuple);
+    
+    const writtenData = JSON.parse((fs.writeFile as jest.Mock).mock.calls[0][1]);
+    expect(writtenData.relation_tuples).toEqual([tuple]);
+    
+    // Writing the same tuple again leaves the file untouched
+    (fs.readFile as jest.Mock).mockResolvedValueOnce(JSON.stringify(writtenData));
+    await connector.writeRelationTuple({ ...tuple });
+    expect(fs.writeFile).toHaveBeenCalledTimes(1);
+    
+    (fs.readFile as jest.Mock).mockResolvedValueOnce(JSON.stringify(writtenData));
+    await expect(connector.readRelationTuples({ object: 'folder:specs' })).resolves.toEqual([tuple]);
+    (fs.readFile as jest.Mock).mockResolvedValueOnce(JSON.stringify(writtenData));
+    await expect(connector.readRelationTuples({ subject: 'user:alice' })).resolves.toEqual([]);
+    
+    (fs.readFile as jest.Mock).mockResolvedValueOnce(JSON.stringify(writtenData));
+    (fs.writeFile as jest.Mock).mockResolvedValueOnce(undefined);
+    await connector.deleteRelationTuple(tuple);
+    expect(JSON.parse((fs.writeFile as jest.Mock).mock.calls[1][1]).relation_tuples).toEqual([]);
+  });
+
+  test('should store, find and delete groups', async () => {
+    const connector = new LowdbDatabaseConnector(testConfig);
+    const group = {
+      id: 'engineering',
+      description: 'Engineering department',
+      memberIds: ['test-user'],
+      subgroupIds: ['platform'],
+      roleIds: ['role_user'],
+      attributes: { 'attr_department': 'Engineering' },
+    };
+    
+    (fs.readFile as jest.Mock).mockResolvedValueOnce(databaseWithUser);
+    (fs.writeFile as jest.Mock).mockResolvedValueOnce(undefined);
+    
+    await connector.saveGroup(group);
+    
+    const writtenData = JSON.parse((fs.writeFile as jest.Mock).mock.calls[0][1]);
+    expect(writtenData.groups).toEqual([group]);
+    
+    // Saving again replaces the stored group
+    (fs.readFile as jest.Mock).mockResolvedValueOnce(JSON.stringify(writtenData));
+    (fs.writeFile as jest.Mock).mockResolvedValueOnce(undefined);
+    await connector.saveGroup({ ...group, memberIds: [] });
+    const replacedData = JSON.parse((fs.writeFile as jest.Mock).mock.calls[1][1]);
+    expect(replacedData.groups).toEqual([{ ...group, memberIds: [] }]);
+    
+    (fs.readFile as jest.Mock).mockResolvedValueOnce(JSON.stringify(writtenData));
+    await expect(connector.getGroup('engineering')).resolves.toEqual(group);
+    (fs.readFile as jest.Mock).mockResolvedValueOnce(JSON.stringify(writtenData));
+    await expect(connector.findGroups({ memberId: 'test-user' })).resolves.toEqual([group]);
+    (fs.readFile as jest.Mock).mockResolvedValueOnce(JSON.stringify(writtenData));
+    await expect(connector.findGroups({ subgroupId: 'engineering' })).resolves.toEqual([]);
+    
+    (fs.readFile as jest.Mock).mockResolvedValueOnce(JSON.stringify(writtenData));
+    (fs.writeFile as jest.Mock).mockResolvedValueOnce(undefined);
+    await connector.deleteGroup('engineering');
+    expect(JSON.parse((fs.writeFile as jest.Mock).mock.calls[2][1]).groups).toEqual([]);
+  });
 });
\ No newline at end of file
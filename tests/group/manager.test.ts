@@ -0,0 +1,106 @@
+// file: tests/group/manager.test.ts
+// description: Tests for group storage, nested membership and nesting cycle detection
+
+import { GroupManager } from '../../src/group/manager';
+import { InMemoryDatabaseConnector } from '../../src/db/memory/connector';
+import { BaseDatabaseConnector } from '../../src/db/base';
+
+describe('GroupManager', () => {
+  let connector: InMemoryDatabaseConnector;
+  let groupManager: GroupManager;
+
+  const nest = (groupId: string, subgroupId: string) =>
+    groupManager.update(groupId, group => ({ ...group, subgroupIds: [...group.subgroupIds, subgroupId] }));
+
+  const addMember = (groupId: string, userId: string) =>
+    groupManager.update(groupId, group => ({ ...group, memberIds: [...group.memberIds, userId] }));
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    connector = new InMemoryDatabaseConnector();
+    groupManager = new GroupManager(connector);
+
+    // company > engineering > platform, and company > design
+    for (const groupId of ['company', 'engineering', 'platform', 'design']) {
+      await groupManager.create(groupId);
+    }
+
+    await nest('company', 'engineering');
+    await nest('company', 'design');
+    await nest('engineering', 'platform');
+    await addMember('platform', 'alice');
+    await addMember('design', 'alice');
+    await addMember('engineering', 'bob');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should create groups once', async () => {
+    await expect(groupManager.get('platform')).resolves.toEqual({
+      id: 'platform',
+      memberIds: ['alice'],
+      subgroupIds: [],
+      roleIds: [],
+      attributes: {},
+    });
+    await expect(groupManager.create('platform')).rejects.toThrow('Group already exists: platform');
+    await expect(groupManager.update('sales', group => group)).rejects.toThrow('Group not found: sales');
+  });
+
+  test('should resolve groups through nesting, nearest first', async () => {
+    const groups = await groupManager.getUserGroups('alice');
+
+    expect(groups.map(group => group.id)).toEqual(['design', 'platform', 'company', 'engineering']);
+    await expect(groupManager.getUserGroups('carol')).resolves.toEqual([]);
+  });
+
+  test('should list the members of a group and its subgroups', async () => {
+    await expect(groupManager.getMemberIds('company')).resolves.toEqual(expect.arrayContaining(['alice', 'bob']));
+    await expect(groupManager.getMemberIds('platform')).resolves.toEqual(['alice']);
+    await expect(groupManager.getMemberIds('sales')).resolves.toEqual([]);
+  });
+
+  test('should detect nesting cycles', async () => {
+    await expect(groupManager.findNestingCycle('platform', 'company'))
+      .resolves.toEqual(['platform', 'company', 'engineering', 'platform']);
+    await expect(groupManager.findNestingCycle('platform', 'platform')).resolves.toEqual(['platform', 'platform']);
+    await expect(groupManager.findNestingCycle('design', 'platform')).resolves.toBeNull();
+  });
+
+  test('should stop at cycles already stored', async () => {
+    await nest('platform', 'company');
+
+    const groups = await groupManager.getUserGroups('alice');
+
+    expect(groups.map(group => group.id)).toEqual(['design', 'platform', 'company', 'engineering']);
+    await expect(groupManager.getMemberIds('platform')).resolves.toEqual(expect.arrayContaining(['alice', 'bob']));
+  });
+
+  test('should remove deleted groups from the groups containing them', async () => {
+    await groupManager.delete('engineering');
+
+    await expect(groupManager.get('engineering')).resolves.toBeNull();
+    await expect(groupManager.get('company')).resolves.toEqual(expect.objectContaining({ subgroupIds: ['design'] }));
+    await expect(groupManager.delete('engineering')).rejects.toThrow('Group not found: engineering');
+  });
+
+  test('should treat users as groupless without group storage', async () => {
+    const manager = new GroupManager({} as BaseDatabaseConnector);
+
+    expect(manager.isSupported()).toBe(false);
+    await expect(manager.getUserGroups('alice')).resolves.toEqual([]);
+    await expect(manager.create('engineering')).rejects.toThrow('The configured database does not support groups');
+  });
+
+  test('should collect the roles of a group and the groups containing it', async () => {
+    await groupManager.update('company', group => ({ ...group, roleIds: ['role_viewer'] }));
+    await groupManager.update('engineering', group => ({ ...group, roleIds: ['role_editor', 'role_viewer'] }));
+    await groupManager.update('design', group => ({ ...group, roleIds: ['role_designer'] }));
+
+    await expect(groupManager.getGroupRoles('platform')).resolves.toEqual(['role_editor', 'role_viewer']);
+    await expect(groupManager.getGroupRoles('design')).resolves.toEqual(['role_designer', 'role_viewer']);
+    await expect(groupManager.getGroupRoles('sales')).resolves.toEqual([]);
+  });
+});
\ No newline at end of file
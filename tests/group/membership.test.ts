@@ -0,0 +1,74 @@
+// file: tests/group/membership.test.ts
+// description: Tests for group records, filtering and merging of group roles and attributes
+
+import {
+  createGroupRecord,
+  matchesGroupQuery,
+  mergeGroupAttributes,
+  mergeGroupRoles,
+  toGroup,
+  validateGroupId
+} from '../../src/group/membership';
+import { Group } from '../../src/types';
+
+describe('Group Membership', () => {
+  const engineering: Group = {
+    id: 'engineering',
+    memberIds: ['alice'],
+    subgroupIds: ['platform'],
+    roleIds: ['role_editor', 'role_viewer'],
+    attributes: { department: 'Engineering', region: 'EU', clearance: 2 },
+  };
+
+  const company: Group = {
+    id: 'company',
+    memberIds: [],
+    subgroupIds: ['engineering'],
+    roleIds: ['role_viewer'],
+    attributes: { department: 'General', clearance: 1, office: 'HQ' },
+  };
+
+  test('should create empty groups and validate identifiers', () => {
+    expect(createGroupRecord('engineering')).toEqual({
+      id: 'engineering',
+      memberIds: [],
+      subgroupIds: [],
+      roleIds: [],
+      attributes: {},
+    });
+    expect(createGroupRecord('engineering', 'Engineering department').description).toBe('Engineering department');
+
+    expect(() => validateGroupId('engineering')).not.toThrow();
+    expect(() => validateGroupId(' ')).toThrow('Invalid group ID:  ');
+    expect(() => validateGroupId(undefined as unknown as string)).toThrow('Invalid group ID: undefined');
+  });
+
+  test('should match groups by member and subgroup', () => {
+    expect(matchesGroupQuery(engineering, {})).toBe(true);
+    expect(matchesGroupQuery(engineering, { memberId: 'alice' })).toBe(true);
+    expect(matchesGroupQuery(engineering, { memberId: 'bob' })).toBe(false);
+    expect(matchesGroupQuery(engineering, { memberId: 'alice', subgroupId: 'platform' })).toBe(true);
+    expect(matchesGroupQuery(engineering, { memberId: 'alice', subgroupId: 'sales' })).toBe(false);
+  });
+
+  test('should copy stored groups, filling in missing fields', () => {
+    const stored = { id: 'sales', _id: 'generated', description: null } as unknown as Group;
+
+    expect(toGroup(stored)).toEqual({ id: 'sales', memberIds: [], subgroupIds: [], roleIds: [], attributes: {} });
+  });
+
+  test('should add group roles to user roles without duplicates', () => {
+    expect(mergeGroupRoles(['role_admin'], [engineering, company])).toEqual(['role_admin', 'role_editor', 'role_viewer']);
+    expect(mergeGroupRoles(['role_admin'], [])).toEqual(['role_admin']);
+  });
+
+  test('should let user values win over group values and earlier groups over later ones', () => {
+    expect(mergeGroupAttributes({ clearance: 5 }, [engineering, company])).toEqual({
+      department: 'Engineering',
+      region: 'EU',
+      clearance: 5,
+      office: 'HQ',
+    });
+    expect(mergeGroupAttributes({}, [company, engineering]).department).toBe('General');
+  });
+});
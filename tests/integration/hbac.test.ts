@@ -8,6 +8,7 @@ import { AttributeManager } from '../../src/attribute/manager';
 import { PolicyEngine } from '../../src/policy/engine';
 import { CacheManager } from '../../src/cache/manager';
 import { HBACConfig } from '../../src/interfaces/config';
+import { SoDViolationError } from '../../src/role/separation';
 
 // Sample valid configuration
 const validConfig: HBACConfig = {
@@ -65,6 +66,8 @@ const mockDbConnector = {
   getUserAttributes: jest.fn().mockResolvedValue({ 'attr_department': 'Engineering' }),
   assignRole: jest.fn().mockResolvedValue(undefined),
   removeRole: jest.fn().mockResolvedValue(undefined),
+  getNextRoleChange: jest.fn().mockResolvedValue(null),
+  purgeExpiredAssignments: jest.fn().mockResolvedValue(2),
   setAttribute: jest.fn().mockResolvedValue(undefined),
   getUserAccessMap: jest.fn().mockResolvedValue({ 
     id: 'test-id', 
@@ -72,6 +75,17 @@ const mockDbConnector = {
     roleIds: ['role_admin'], 
     attributes: { 'attr_department': 'Engineering' } 
   }),
+  writeRelationTuple: jest.fn().mockResolvedValue(undefined),
+  deleteRelationTuple: jest.fn().mockResolvedValue(undefined),
+  readRelationTuples: jest.fn().mockResolvedValue([]),
+  getGroup: jest.fn().mockResolvedValue(null),
+  saveGroup: jest.fn().mockResolvedValue(undefined),
+  deleteGroup: jest.fn().mockResolvedValue(undefined),
+  findGroups: jest.fn().mockResolvedValue([]),
+  listUserAccessMaps: jest.fn().mockResolvedValue([
+    { id: 'test-id', userId: 'user123', roleIds: ['role_admin'], attributes: {} },
+    { id: 'other-id', userId: 'user456', roleIds: ['role_admin', 'role_user'], attributes: {} },
+  ]),
 };
 
 // Mock component objects
@@ -88,6 +102,7 @@ const mockRoleManager = {
   hasPermission: jest.fn().mockReturnValue(true),
   getRoles: jest.fn().mockReturnValue(validConfig.roles),
   getPermissionsForRoles: jest.fn().mockReturnValue(new Set(['*:*'])),
+  getEffectiveRoles: jest.fn().mockImplementation(roleIds => [...roleIds, 'role_user']),
 };
 
 const mockAttributeManager = {
@@ -102,18 +117,48 @@ const mockAttributeManager = {
   evaluateCondition: jest.fn().mockReturnValue(true),
 };
 
+const mockExplanation = {
+  allowed: true,
+  effect: 'allow',
+  resource: 'documents',
+  action: 'read',
+  roles: ['role_admin'],
+  permission: { roleId: 'role_admin', permission: '*:*', matchType: 'wildcard' },
+  evaluation: 'firstApplicable',
+  mode: 'roleGated',
+  rules: [],
+  environmentDependent: false,
+  decidedBy: { step: 'wildcardPermission', ruleIds: [] },
+  obligations: [],
+  advice: [],
+};
+
 const mockPolicyEngine = {
   evaluate: jest.fn().mockReturnValue(true),
+  explain: jest.fn().mockReturnValue(mockExplanation),
+  listAllowedActions: jest.fn().mockReturnValue(['read', 'update']),
+  listPermissions: jest.fn().mockReturnValue(['documents:read', 'documents:update']),
+};
+
+const mockAuditLogger = {
+  isEnabled: jest.fn().mockReturnValue(true),
+  record: jest.fn().mockResolvedValue(undefined),
+  query: jest.fn().mockResolvedValue({ entries: [] }),
+  prune: jest.fn().mockResolvedValue(0),
 };
 
 const mockCacheManager = {
   getPermissionDecision: jest.fn().mockReturnValue(null),
   setPermissionDecision: jest.fn(),
+  getAuthorization: jest.fn().mockReturnValue(null),
+  setAuthorization: jest.fn(),
   getUserRoles: jest.fn().mockReturnValue(null),
   setUserRoles: jest.fn(),
   getUserAttributes: jest.fn().mockReturnValue(null),
   setUserAttributes: jest.fn(),
   invalidateUser: jest.fn(),
+  expireUserAt: jest.fn(),
+  invalidateDecisions: jest.fn(),
 };
 
 // Mock ConfigManager
@@ -154,6 +199,12 @@ jest.mock('../../src/cache/manager', () => {
   };
 });
 
+jest.mock('../../src/audit/logger', () => {
+  return {
+    AuditLogger: jest.fn().mockImplementation(() => mockAuditLogger),
+  };
+});
+
 // Mock the dynamic imports
 jest.mock('../../src/db/lowdb/connector', () => {
   return {
@@ -209,14 +260,16 @@ describe('HBAC Integration', () => {
     
     // Verify correct methods were called
     expect(mockCacheManager.getPermissionDecision).toHaveBeenCalled();
-    expect(mockDbConnector.getUserRoles).toHaveBeenCalledWith('user123');
+    expect(mockDbConnector.getUserRoles).toHaveBeenCalledWith('user123', undefined);
     expect(mockDbConnector.getUserAttributes).toHaveBeenCalledWith('user123');
-    expect(mockPolicyEngine.evaluate).toHaveBeenCalledWith(
+    expect(mockPolicyEngine.explain).toHaveBeenCalledWith(
       ['role_admin'],
       { 'attr_department': 'Engineering' },
       'documents',
       'read',
-      {}
+      {},
+      'user123',
+      expect.any(Function)
     );
     expect(mockCacheManager.setPermissionDecision).toHaveBeenCalled();
     
@@ -232,7 +285,12 @@ describe('HBAC Integration', () => {
     mockCacheManager.getPermissionDecision.mockReturnValue(null);
     
     // Mock policy engine to deny access
-    mockPolicyEngine.evaluate.mockReturnValueOnce(false);
+    mockPolicyEngine.explain.mockReturnValueOnce({
+      ...mockExplanation,
+      allowed: false,
+      effect: 'deny',
+      decidedBy: { step: 'noRolePermission', ruleIds: [] },
+    });
     
     // Should throw with Access denied
     await expect(hbac.check('user123', 'read', 'documents'))
@@ -254,7 +312,7 @@ describe('HBAC Integration', () => {
     // Reset mock counters
     mockDbConnector.getUserRoles.mockClear();
     mockDbConnector.getUserAttributes.mockClear();
-    mockPolicyEngine.evaluate.mockClear();
+    mockPolicyEngine.explain.mockClear();
     
     // First call: cache miss
     mockCacheManager.getPermissionDecision.mockReturnValueOnce(null);
@@ -271,7 +329,7 @@ describe('HBAC Integration', () => {
     // Database methods should be called only once
     expect(mockDbConnector.getUserRoles).toHaveBeenCalledTimes(1);
     expect(mockDbConnector.getUserAttributes).toHaveBeenCalledTimes(1);
-    expect(mockPolicyEngine.evaluate).toHaveBeenCalledTimes(1);
+    expect(mockPolicyEngine.explain).toHaveBeenCalledTimes(1);
   });
   
   test('should invalidate cache when role changes', async () => {
@@ -282,7 +340,7 @@ describe('HBAC Integration', () => {
     await hbac.assignRole('user123', 'role_admin');
     
     // Verify cache invalidation
-    expect(mockDbConnector.assignRole).toHaveBeenCalledWith('user123', 'role_admin');
+    expect(mockDbConnector.assignRole).toHaveBeenCalledWith('user123', 'role_admin', undefined, {});
     expect(mockCacheManager.invalidateUser).toHaveBeenCalledWith('user123');
   });
   
@@ -343,4 +401,685 @@ describe('HBAC Integration', () => {
     // Should initialize without error
     await expect(hbac.initialize()).resolves.not.toThrow();
   });
+
+  test('should explain decisions without using the decision cache', async () => {
+    const hbac = new HBAC('./config.json');
+    await hbac.initialize();
+    
+    const explanation = await hbac.explain('user123', 'read', 'documents', { region: 'EU' });
+    
+    expect(mockPolicyEngine.explain).toHaveBeenCalledWith(
+      ['role_admin'],
+      { 'attr_department': 'Engineering' },
+      'documents',
+      'read',
+      { region: 'EU' },
+      'user123',
+      expect.any(Function)
+    );
+    expect(mockCacheManager.getPermissionDecision).not.toHaveBeenCalled();
+    expect(mockCacheManager.setPermissionDecision).not.toHaveBeenCalled();
+    
+    expect(explanation.userId).toBe('user123');
+    expect(explanation.allowed).toBe(true);
+    expect(explanation.decidedBy.step).toBe('wildcardPermission');
+  });
+
+  test('should not cache decisions that read environment values', async () => {
+    const hbac = new HBAC('./config.json');
+    await hbac.initialize();
+    
+    mockPolicyEngine.explain.mockReturnValue({ ...mockExplanation, environmentDependent: true });
+    
+    try {
+      await expect(hbac.can('user123', 'execute', 'deploy')).resolves.toBe(true);
+      await expect(hbac.canMany('user123', [{ action: 'execute', resource: 'deploy' }])).resolves.toEqual({ 'deploy:execute': true });
+      await expect(hbac.authorize('user123', 'execute', 'deploy')).resolves.toEqual(expect.objectContaining({ allowed: true }));
+      
+      expect(mockCacheManager.setPermissionDecision).not.toHaveBeenCalled();
+      expect(mockCacheManager.setAuthorization).not.toHaveBeenCalled();
+    } finally {
+      mockPolicyEngine.explain.mockReturnValue(mockExplanation);
+    }
+  });
+
+  test('should accept resource descriptors and key the cache by resource instance', async () => {
+    const hbac = new HBAC('./config.json');
+    await hbac.initialize();
+    
+    const document = { type: 'documents', id: 'doc-1', attributes: { ownerId: 'user123' } };
+    
+    await hbac.can('user123', 'read', document);
+    
+    expect(mockPolicyEngine.explain).toHaveBeenCalledWith(
+      ['role_admin'],
+      { 'attr_department': 'Engineering' },
+      document,
+      'read',
+      {},
+      'user123',
+      expect.any(Function)
+    );
+    expect(mockCacheManager.getPermissionDecision).toHaveBeenCalledWith(
+      `user123:${JSON.stringify(document)}:read:{}`
+    );
+  });
+
+  test('should expand user roles with inherited roles', async () => {
+    const hbac = new HBAC('./config.json');
+    await hbac.initialize();
+    
+    const roles = await hbac.getEffectiveRoles('user123');
+    
+    expect(mockRoleManager.getEffectiveRoles).toHaveBeenCalledWith(['role_admin']);
+    expect(roles).toEqual(['role_admin', 'role_user']);
+  });
+
+  test('should audit access decisions', async () => {
+    const hbac = new HBAC('./config.json');
+    await hbac.initialize();
+    
+    mockPolicyEngine.explain.mockReturnValueOnce({
+      ...mockExplanation,
+      allowed: false,
+      effect: 'deny',
+      permission: { roleId: 'role_user', permission: 'documents:*', matchType: 'resourceWildcard' },
+      decidedBy: { step: 'ruleMatched', ruleIds: ['policy_test'] },
+    });
+    
+    await hbac.can('user123', 'read', { type: 'documents', id: 'doc-1' });
+    
+    expect(mockAuditLogger.record).toHaveBeenCalledWith({
+      level: 'warn',
+      event: 'decision',
+      actor: 'user123',
+      subject: 'user123',
+      resource: 'documents',
+      resourceId: 'doc-1',
+      action: 'read',
+      matchedRules: ['policy_test'],
+      outcome: 'deny',
+      details: { step: 'ruleMatched', permission: 'documents:*' },
+    });
+    
+    // Cached decisions are audited too
+    mockCacheManager.getPermissionDecision.mockReturnValueOnce(true);
+    await hbac.can('user123', 'read', 'documents');
+    
+    expect(mockAuditLogger.record).toHaveBeenLastCalledWith(expect.objectContaining({
+      level: 'info',
+      outcome: 'allow',
+      details: { cached: true },
+    }));
+  });
+
+  test('should audit indeterminate decisions as errors', async () => {
+    const hbac = new HBAC('./config.json');
+    await hbac.initialize();
+    
+    mockPolicyEngine.explain.mockReturnValueOnce({
+      ...mockExplanation,
+      allowed: false,
+      effect: 'deny',
+      decidedBy: { step: 'indeterminate', ruleIds: ['policy_a', 'policy_b'] },
+    });
+    
+    await hbac.can('user123', 'read', 'documents');
+    
+    expect(mockAuditLogger.record).toHaveBeenCalledWith(expect.objectContaining({
+      level: 'error',
+      outcome: 'deny',
+      matchedRules: ['policy_a', 'policy_b'],
+      details: expect.objectContaining({ step: 'indeterminate' }),
+    }));
+  });
+  
+  test('should audit role and attribute changes', async () => {
+    const hbac = new HBAC('./config.json');
+    await hbac.initialize();
+    
+    await hbac.assignRole('user123', 'role_admin', { actor: 'admin1' });
+    expect(mockAuditLogger.record).toHaveBeenLastCalledWith({
+      level: 'info',
+      event: 'assignRole',
+      actor: 'admin1',
+      subject: 'user123',
+      outcome: 'success',
+      details: { roleId: 'role_admin' },
+    });
+    
+    await hbac.removeRole('user123', 'role_admin');
+    expect(mockAuditLogger.record).toHaveBeenLastCalledWith(expect.objectContaining({
+      event: 'removeRole',
+      actor: 'system',
+      outcome: 'success',
+    }));
+    
+    await hbac.setAttribute('user123', 'attr_department', 'Sales', { actor: 'admin1' });
+    expect(mockAuditLogger.record).toHaveBeenLastCalledWith(expect.objectContaining({
+      event: 'setAttribute',
+      details: { attributeId: 'attr_department', value: 'Sales' },
+    }));
+    
+    // Rejected changes are recorded as failures
+    mockRoleManager.getRole.mockReturnValueOnce(undefined);
+    await expect(hbac.assignRole('user123', 'invalid_role', { actor: 'admin1' })).rejects.toThrow('Invalid role ID');
+    expect(mockAuditLogger.record).toHaveBeenLastCalledWith(expect.objectContaining({
+      level: 'error',
+      event: 'assignRole',
+      outcome: 'failure',
+      details: { roleId: 'invalid_role', reason: 'Invalid role ID' },
+    }));
+  });
+
+  test('should query the audit trail and apply retention at startup', async () => {
+    const hbac = new HBAC('./config.json');
+    await hbac.initialize();
+    
+    expect(mockAuditLogger.prune).toHaveBeenCalled();
+    
+    await hbac.audit.query({ userId: 'user123', effect: 'deny', limit: 10 });
+    expect(mockAuditLogger.query).toHaveBeenCalledWith({ userId: 'user123', effect: 'deny', limit: 10 });
+  });
+
+  test('should return obligations and advice from authorize', async () => {
+    const hbac = new HBAC('./config.json');
+    await hbac.initialize();
+    
+    mockPolicyEngine.explain.mockReturnValueOnce({
+      ...mockExplanation,
+      decidedBy: { step: 'ruleMatched', ruleIds: ['policy_test'] },
+      obligations: [{ id: 'logReason', params: { reason: 'audit' } }],
+      advice: [{ id: 'notifyOwner' }],
+    });
+    
+    const result = await hbac.authorize('user123', 'read', 'documents');
+    
+    expect(result).toEqual({
+      allowed: true,
+      effect: 'allow',
+      obligations: [{ id: 'logReason', params: { reason: 'audit' } }],
+      advice: [{ id: 'notifyOwner' }],
+    });
+    expect(mockCacheManager.setAuthorization).toHaveBeenCalledWith(
+      'user123:documents:read:{}',
+      result
+    );
+    
+    // Cached results keep their obligations
+    mockCacheManager.getAuthorization.mockReturnValueOnce(result);
+    await expect(hbac.authorize('user123', 'read', 'documents')).resolves.toBe(result);
+    expect(mockPolicyEngine.explain).toHaveBeenCalledTimes(1);
+  });
+
+  test('should load the user once for a batch of checks', async () => {
+    const hbac = new HBAC('./config.json');
+    await hbac.initialize();
+    
+    mockCacheManager.getPermissionDecision.mockReturnValue(null);
+    mockPolicyEngine.explain
+      .mockReturnValueOnce(mockExplanation)
+      .mockReturnValueOnce({ ...mockExplanation, allowed: false, effect: 'deny' });
+    
+    const results = await hbac.canMany('user123', [
+      { action: 'read', resource: 'documents' },
+      { key: 'editReport', action: 'update', resource: 'documents', context: { draft: true } },
+    ]);
+    
+    expect(results).toEqual({ 'documents:read': true, editReport: false });
+    expect(mockDbConnector.getUserRoles).toHaveBeenCalledTimes(1);
+    expect(mockDbConnector.getUserAttributes).toHaveBeenCalledTimes(1);
+    expect(mockPolicyEngine.explain).toHaveBeenLastCalledWith(
+      ['role_admin'],
+      { 'attr_department': 'Engineering' },
+      'documents',
+      'update',
+      { draft: true },
+      'user123',
+      expect.any(Function)
+    );
+    expect(mockCacheManager.setPermissionDecision).toHaveBeenCalledTimes(2);
+  });
+
+  test('should answer a fully cached batch without loading the user', async () => {
+    const hbac = new HBAC('./config.json');
+    await hbac.initialize();
+    
+    mockCacheManager.getPermissionDecision.mockReturnValue(true);
+    
+    const results = await hbac.canMany('user123', [
+      { action: 'read', resource: 'documents' },
+      { action: 'delete', resource: 'documents' },
+    ]);
+    
+    expect(results).toEqual({ 'documents:read': true, 'documents:delete': true });
+    expect(mockDbConnector.getUserRoles).not.toHaveBeenCalled();
+    expect(mockPolicyEngine.explain).not.toHaveBeenCalled();
+    
+    mockCacheManager.getPermissionDecision.mockReturnValue(null);
+  });
+
+  test('should reject batch checks with duplicate keys', async () => {
+    const hbac = new HBAC('./config.json');
+    await hbac.initialize();
+    
+    await expect(hbac.canMany('user123', [
+      { action: 'read', resource: 'documents' },
+      { action: 'read', resource: 'documents', context: { draft: true } },
+    ])).rejects.toThrow('Duplicate permission check key: documents:read');
+  });
+
+  test('should list allowed actions and permissions for a user', async () => {
+    const hbac = new HBAC('./config.json');
+    await hbac.initialize();
+    
+    await expect(hbac.getAllowedActions('user123', 'documents', { draft: true }))
+      .resolves.toEqual(['read', 'update']);
+    expect(mockPolicyEngine.listAllowedActions).toHaveBeenCalledWith(
+      ['role_admin'],
+      { 'attr_department': 'Engineering' },
+      'documents',
+      { draft: true },
+      'user123',
+      expect.any(Function)
+    );
+    
+    await expect(hbac.getPermissions('user123')).resolves.toEqual(['documents:read', 'documents:update']);
+    expect(mockPolicyEngine.listPermissions).toHaveBeenCalledWith(
+      ['role_admin'],
+      { 'attr_department': 'Engineering' },
+      {},
+      'user123',
+      expect.any(Function)
+    );
+  });
+
+  test('should resolve roles and cache decisions per scope', async () => {
+    const hbac = new HBAC('./config.json');
+    await hbac.initialize();
+    
+    mockCacheManager.getPermissionDecision.mockReturnValue(null);
+    
+    await hbac.can('user123', 'read', 'documents', {}, { scope: 'tenant-a' });
+    
+    expect(mockCacheManager.getUserRoles).toHaveBeenCalledWith('user123', 'tenant-a');
+    expect(mockDbConnector.getUserRoles).toHaveBeenCalledWith('user123', 'tenant-a');
+    expect(mockCacheManager.setUserRoles).toHaveBeenCalledWith('user123', ['role_admin'], 'tenant-a');
+    expect(mockCacheManager.setPermissionDecision).toHaveBeenCalledWith(
+      'user123:documents:read:{}:"tenant-a"',
+      true
+    );
+    
+    // Unscoped checks never reuse a scoped decision
+    await hbac.can('user123', 'read', 'documents');
+    expect(mockCacheManager.getPermissionDecision).toHaveBeenLastCalledWith('user123:documents:read:{}');
+  });
+
+  test('should assign and remove roles within a scope', async () => {
+    const hbac = new HBAC('./config.json');
+    await hbac.initialize();
+    
+    await hbac.assignRole('user123', 'role_admin', { scope: 'tenant-a', actor: 'admin1' });
+    await hbac.removeRole('user123', 'role_admin', { scope: 'tenant-a' });
+    
+    expect(mockDbConnector.assignRole).toHaveBeenCalledWith('user123', 'role_admin', 'tenant-a', {});
+    expect(mockDbConnector.removeRole).toHaveBeenCalledWith('user123', 'role_admin', 'tenant-a');
+    expect(mockCacheManager.invalidateUser).toHaveBeenCalledTimes(2);
+    expect(mockAuditLogger.record).toHaveBeenCalledWith(expect.objectContaining({
+      event: 'assignRole',
+      actor: 'admin1',
+      details: { roleId: 'role_admin', scope: 'tenant-a' },
+    }));
+  });
+
+  test('should reject empty scopes', async () => {
+    const hbac = new HBAC('./config.json');
+    await hbac.initialize();
+    
+    await expect(hbac.assignRole('user123', 'role_admin', { scope: '' }))
+      .rejects.toThrow('Invalid role assignment scope: ""');
+    await expect(hbac.removeRole('user123', 'role_admin', { scope: ' ', actor: 'admin1' }))
+      .rejects.toThrow('Invalid role assignment scope: " "');
+    
+    expect(mockDbConnector.assignRole).not.toHaveBeenCalled();
+    expect(mockDbConnector.removeRole).not.toHaveBeenCalled();
+    expect(mockAuditLogger.record).toHaveBeenCalledWith(expect.objectContaining({
+      event: 'removeRole',
+      outcome: 'failure',
+      details: { roleId: 'role_admin', scope: ' ', reason: 'Invalid role assignment scope: " "' },
+    }));
+  });
+
+  test('should assign roles for a limited time', async () => {
+    const hbac = new HBAC('./config.json');
+    await hbac.initialize();
+    
+    await hbac.assignRole('user123', 'role_admin', {
+      validFrom: new Date('2030-01-01T00:00:00Z'),
+      validUntil: '2030-01-08T00:00:00Z',
+    });
+    
+    expect(mockDbConnector.assignRole).toHaveBeenCalledWith('user123', 'role_admin', undefined, {
+      validFrom: '2030-01-01T00:00:00.000Z',
+      validUntil: '2030-01-08T00:00:00.000Z',
+    });
+    
+    // Periods must be valid and end after they start
+    await expect(hbac.assignRole('user123', 'role_admin', { validUntil: 'next week' }))
+      .rejects.toThrow('Invalid role assignment date: next week');
+    await expect(hbac.assignRole('user123', 'role_admin', {
+      validFrom: '2030-01-08T00:00:00Z',
+      validUntil: '2030-01-01T00:00:00Z',
+    })).rejects.toThrow('Role assignment must expire after it starts');
+    
+    expect(mockDbConnector.assignRole).toHaveBeenCalledTimes(1);
+    expect(mockAuditLogger.record).toHaveBeenCalledWith(expect.objectContaining({
+      event: 'assignRole',
+      outcome: 'failure',
+      details: expect.objectContaining({ reason: 'Role assignment must expire after it starts' }),
+    }));
+  });
+
+  test('should not cache roles past the next assignment change', async () => {
+    const hbac = new HBAC('./config.json');
+    await hbac.initialize();
+    
+    const expiry = new Date('2030-01-08T00:00:00Z');
+    mockDbConnector.getNextRoleChange.mockResolvedValueOnce(expiry);
+    
+    await hbac.getUserRoles('user123', 'tenant-a');
+    
+    expect(mockDbConnector.getNextRoleChange).toHaveBeenCalledWith('user123', 'tenant-a');
+    expect(mockCacheManager.expireUserAt).toHaveBeenCalledWith('user123', expiry);
+    expect(mockCacheManager.setUserRoles).toHaveBeenCalledWith('user123', ['role_admin'], 'tenant-a');
+    
+    // Nothing to limit without a scheduled change
+    await hbac.getUserRoles('user123');
+    expect(mockCacheManager.expireUserAt).toHaveBeenCalledTimes(1);
+  });
+
+  test('should purge expired role assignments', async () => {
+    const hbac = new HBAC('./config.json');
+    await hbac.initialize();
+    
+    await expect(hbac.purgeExpiredAssignments()).resolves.toBe(2);
+    expect(mockDbConnector.purgeExpiredAssignments).toHaveBeenCalled();
+  });
+
+  test('should enforce separation-of-duties constraints', async () => {
+    const sodConfig = {
+      ...validConfig,
+      separationOfDuties: [
+        { id: 'sod_admin', type: 'static', roles: ['role_admin', 'role_user'] },
+      ],
+    };
+    
+    const configManagerMock = jest.requireMock('../../src/config/manager');
+    configManagerMock.ConfigManager.mockImplementationOnce(() => {
+      return {
+        load: jest.fn().mockResolvedValue(sodConfig),
+        getConfig: jest.fn().mockReturnValue(sodConfig),
+        isConfigLoaded: jest.fn().mockReturnValue(true),
+      };
+    });
+    mockRoleManager.getEffectiveRoles.mockImplementation(roleIds => roleIds);
+    
+    const hbac = new HBAC('./config.json');
+    await hbac.initialize();
+    
+    // user123 already holds role_admin
+    const assignment = hbac.assignRole('user123', 'role_user', { actor: 'admin1' });
+    await expect(assignment).rejects.toThrow(SoDViolationError);
+    await expect(assignment).rejects.toMatchObject({
+      violation: { constraintId: 'sod_admin', userId: 'user123', roleIds: ['role_admin', 'role_user'] },
+    });
+    
+    expect(mockDbConnector.assignRole).not.toHaveBeenCalled();
+    expect(mockAuditLogger.record).toHaveBeenCalledWith(expect.objectContaining({
+      event: 'assignRole',
+      outcome: 'failure',
+      details: expect.objectContaining({ reason: 'Separation of duties', constraintId: 'sod_admin' }),
+    }));
+    
+    // New users hold no conflicting roles
+    mockDbConnector.getUserAccessMap.mockResolvedValueOnce(null);
+    await hbac.assignRole('user789', 'role_user');
+    expect(mockDbConnector.assignRole).toHaveBeenCalledWith('user789', 'role_user', undefined, {});
+    
+    // Existing users are scanned for constraints added after the fact
+    await expect(hbac.findSoDViolations()).resolves.toEqual([
+      { constraintId: 'sod_admin', type: 'static', userId: 'user456', roleIds: ['role_admin', 'role_user'] },
+    ]);
+    
+    mockRoleManager.getEffectiveRoles.mockImplementation(roleIds => [...roleIds, 'role_user']);
+  });
+
+  test('should enforce separation-of-duties constraints on roles granted through groups', async () => {
+    const sodConfig = {
+      ...validConfig,
+      separationOfDuties: [
+        { id: 'sod_admin', type: 'static', roles: ['role_admin', 'role_user'] },
+      ],
+    };
+    
+    const configManagerMock = jest.requireMock('../../src/config/manager');
+    configManagerMock.ConfigManager.mockImplementationOnce(() => {
+      return {
+        load: jest.fn().mockResolvedValue(sodConfig),
+        getConfig: jest.fn().mockReturnValue(sodConfig),
+        isConfigLoaded: jest.fn().mockReturnValue(true),
+      };
+    });
+    mockRoleManager.getEffectiveRoles.mockImplementation(roleIds => roleIds);
+    
+    // user123 holds role_admin directly; approvers grant role_user
+    const groups = [
+      { id: 'approvers', memberIds: ['user789'], subgroupIds: [] as string[], roleIds: ['role_user'], attributes: {} },
+      { id: 'team', memberIds: ['user123'], subgroupIds: [] as string[], roleIds: [] as string[], attributes: {} },
+    ];
+    mockDbConnector.getGroup.mockImplementation(async groupId => groups.find(group => group.id === groupId) || null);
+    mockDbConnector.findGroups.mockImplementation(async query => groups.filter(group =>
+      (query.memberId === undefined || group.memberIds.includes(query.memberId)) &&
+      (query.subgroupId === undefined || group.subgroupIds.includes(query.subgroupId))
+    ));
+    mockDbConnector.getUserAccessMap.mockImplementation(async userId => (userId === 'user123'
+      ? { id: 'test-id', userId: 'user123', roleIds: ['role_admin'], attributes: {} }
+      : null));
+    
+    try {
+      const hbac = new HBAC('./config.json');
+      await hbac.initialize();
+      
+      const membership = hbac.addGroupMember('approvers', 'user123', { actor: 'admin1' });
+      await expect(membership).rejects.toThrow(SoDViolationError);
+      await expect(membership).rejects.toMatchObject({
+        violation: { constraintId: 'sod_admin', userId: 'user123', roleIds: ['role_admin', 'role_user'] },
+      });
+      expect(mockAuditLogger.record).toHaveBeenCalledWith(expect.objectContaining({
+        event: 'addGroupMember',
+        outcome: 'failure',
+        details: { groupId: 'approvers', reason: 'Separation of duties', constraintId: 'sod_admin' },
+      }));
+      
+      await expect(hbac.assignGroupRole('team', 'role_user')).rejects.toThrow(SoDViolationError);
+      await expect(hbac.addSubgroup('approvers', 'team')).rejects.toThrow(SoDViolationError);
+      expect(mockDbConnector.saveGroup).not.toHaveBeenCalled();
+      
+      // Direct assignments count group roles too
+      await expect(hbac.assignRole('user789', 'role_admin')).rejects.toThrow(SoDViolationError);
+      
+      // Members that broke a constraint before it was added are reported, with or without an access map
+      groups[1].roleIds = ['role_user'];
+      groups[0].roleIds = ['role_user', 'role_admin'];
+      await expect(hbac.findSoDViolations()).resolves.toEqual([
+        { constraintId: 'sod_admin', type: 'static', userId: 'user123', roleIds: ['role_admin', 'role_user'] },
+        { constraintId: 'sod_admin', type: 'static', userId: 'user456', roleIds: ['role_admin', 'role_user'] },
+        { constraintId: 'sod_admin', type: 'static', userId: 'user789', roleIds: ['role_admin', 'role_user'] },
+      ]);
+    } finally {
+      mockRoleManager.getEffectiveRoles.mockImplementation(roleIds => [...roleIds, 'role_user']);
+      mockDbConnector.getGroup.mockResolvedValue(null);
+      mockDbConnector.findGroups.mockResolvedValue([]);
+      mockDbConnector.getUserAccessMap.mockResolvedValue({
+        id: 'test-id',
+        userId: 'user123',
+        roleIds: ['role_admin'],
+        attributes: { 'attr_department': 'Engineering' },
+      });
+    }
+  });
+
+  test('should report no separation-of-duties violations without constraints', async () => {
+    const hbac = new HBAC('./config.json');
+    await hbac.initialize();
+    
+    await expect(hbac.findSoDViolations()).resolves.toEqual([]);
+    expect(mockDbConnector.listUserAccessMaps).not.toHaveBeenCalled();
+  });
+
+  test('should add and remove relationships', async () => {
+    const hbac = new HBAC('./config.json');
+    await hbac.initialize();
+    
+    const tuple = { object: 'folder:specs', relation: 'owner', subject: 'team:eng#member' };
+    
+    await hbac.addRelation(tuple, { actor: 'admin1' });
+    expect(mockDbConnector.writeRelationTuple).toHaveBeenCalledWith(tuple);
+    expect(mockCacheManager.invalidateDecisions).toHaveBeenCalledTimes(1);
+    expect(mockAuditLogger.record).toHaveBeenCalledWith(expect.objectContaining({
+      event: 'addRelation',
+      actor: 'admin1',
+      subject: 'team:eng#member',
+      outcome: 'success',
+      details: tuple,
+    }));
+    
+    await hbac.removeRelation(tuple);
+    expect(mockDbConnector.deleteRelationTuple).toHaveBeenCalledWith(tuple);
+    expect(mockCacheManager.invalidateDecisions).toHaveBeenCalledTimes(2);
+    
+    await expect(hbac.addRelation({ ...tuple, object: 'specs' }))
+      .rejects.toThrow('Invalid relation object: specs');
+    expect(mockDbConnector.writeRelationTuple).toHaveBeenCalledTimes(1);
+    expect(mockAuditLogger.record).toHaveBeenCalledWith(expect.objectContaining({
+      event: 'addRelation',
+      outcome: 'failure',
+      details: expect.objectContaining({ reason: 'Invalid relation object: specs' }),
+    }));
+  });
+
+  test('should check and list relationships', async () => {
+    const hbac = new HBAC('./config.json');
+    await hbac.initialize();
+    
+    const tuple = { object: 'document:readme', relation: 'viewer', subject: 'user:bob' };
+    mockDbConnector.readRelationTuples.mockImplementation(async query =>
+      query.object === tuple.object && (query.relation === undefined || query.relation === tuple.relation) ? [tuple] : []
+    );
+    
+    await expect(hbac.checkRelation('document:readme', 'viewer', 'user:bob')).resolves.toBe(true);
+    await expect(hbac.checkRelation('document:readme', 'viewer', 'user:alice')).resolves.toBe(false);
+    await expect(hbac.listRelations({ object: 'document:readme' })).resolves.toEqual([tuple]);
+    
+    mockDbConnector.readRelationTuples.mockResolvedValue([]);
+  });
+
+  test('should merge group roles and attributes into user roles and attributes', async () => {
+    const hbac = new HBAC('./config.json');
+    await hbac.initialize();
+    
+    const engineering = {
+      id: 'engineering',
+      memberIds: ['user123'],
+      subgroupIds: [],
+      roleIds: ['role_user'],
+      attributes: { 'attr_department': 'Sales', 'attr_level': 3 },
+    };
+    mockDbConnector.findGroups.mockImplementation(async query => (query.memberId === 'user123' ? [engineering] : []));
+    
+    await expect(hbac.getUserRoles('user123')).resolves.toEqual(['role_admin', 'role_user']);
+    expect(mockCacheManager.setUserRoles).toHaveBeenCalledWith('user123', ['role_admin', 'role_user'], undefined);
+    
+    // The user's own value wins over the group's
+    await expect(hbac.getUserAttributes('user123')).resolves.toEqual({
+      'attr_department': 'Engineering',
+      'attr_level': 3,
+    });
+    await expect(hbac.getUserGroups('user123')).resolves.toEqual([engineering]);
+    
+    mockDbConnector.findGroups.mockResolvedValue([]);
+  });
+
+  test('should manage groups and invalidate the cache of their members', async () => {
+    const hbac = new HBAC('./config.json');
+    await hbac.initialize();
+    
+    const group = { id: 'engineering', memberIds: ['user123'], subgroupIds: [], roleIds: [], attributes: {} };
+    mockDbConnector.getGroup.mockImplementation(async groupId => (groupId === 'engineering' ? group : null));
+    
+    await hbac.addGroupMember('engineering', 'user456', { actor: 'admin1' });
+    expect(mockDbConnector.saveGroup).toHaveBeenCalledWith({ ...group, memberIds: ['user123', 'user456'] });
+    expect(mockCacheManager.invalidateUser).toHaveBeenCalledWith('user456');
+    expect(mockAuditLogger.record).toHaveBeenCalledWith(expect.objectContaining({
+      event: 'addGroupMember',
+      actor: 'admin1',
+      subject: 'user456',
+      outcome: 'success',
+      details: { groupId: 'engineering' },
+    }));
+    
+    await hbac.assignGroupRole('engineering', 'role_user');
+    expect(mockDbConnector.saveGroup).toHaveBeenLastCalledWith({ ...group, roleIds: ['role_user'] });
+    expect(mockCacheManager.invalidateUser).toHaveBeenCalledWith('user123');
+    expect(mockAuditLogger.record).toHaveBeenCalledWith(expect.objectContaining({
+      event: 'assignGroupRole',
+      subject: 'group:engineering',
+      outcome: 'success',
+    }));
+    
+    await expect(hbac.assignGroupRole('engineering', 'role_unknown'))
+      .rejects.toThrow('Invalid role ID: role_unknown');
+    await expect(hbac.setGroupAttribute('engineering', 'attr_unknown', 'x'))
+      .rejects.toThrow('Invalid attribute ID: attr_unknown');
+    await expect(hbac.addGroupMember('sales', 'user123'))
+      .rejects.toThrow('Group not found: sales');
+    expect(mockDbConnector.saveGroup).toHaveBeenCalledTimes(2);
+    expect(mockAuditLogger.record).toHaveBeenCalledWith(expect.objectContaining({
+      event: 'addGroupMember',
+      outcome: 'failure',
+      details: { groupId: 'sales', reason: 'Group not found: sales' },
+    }));
+    
+    mockDbConnector.getGroup.mockResolvedValue(null);
+  });
+
+  test('should reject nesting a group in itself', async () => {
+    const hbac = new HBAC('./config.json');
+    await hbac.initialize();
+    
+    const group = { id: 'engineering', memberIds: [], subgroupIds: [], roleIds: [], attributes: {} };
+    mockDbConnector.getGroup.mockResolvedValue(group);
+    
+    await expect(hbac.addSubgroup('engineering', 'engineering'))
+      .rejects.toThrow('Group nesting cycle detected: engineering -> engineering');
+    expect(mockDbConnector.saveGroup).not.toHaveBeenCalled();
+    
+    mockDbConnector.getGroup.mockResolvedValue(null);
+  });
+
+  test('should reject group changes when the database cannot store groups', async () => {
+    const hbac = new HBAC('./config.json');
+    await hbac.initialize();
+    
+    const { findGroups } = mockDbConnector;
+    delete (mockDbConnector as Partial<typeof mockDbConnector>).findGroups;
+    
+    try {
+      await expect(hbac.createGroup('engineering'))
+        .rejects.toThrow('The configured database does not support groups');
+      await expect(hbac.getUserRoles('user123')).resolves.toEqual(['role_admin']);
+    } finally {
+      mockDbConnector.findGroups = findGroups;
+    }
+  });
 });
\ No newline at end of file
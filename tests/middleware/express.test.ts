@@ -3,7 +3,8 @@
 
 import { Request, Response, NextFunction } from 'express';
 import { HBAC } from '../../src/HBAC';
-import { protect, AuthenticatedRequest } from '../../src/middleware/express';
+import { protect, canBatch, AuthenticatedRequest } from '../../src/middleware/express';
+import { AuthorizationResult } from '../../src/types';
 
 const originalConsoleError = console.error;
 beforeAll(() => {
@@ -18,6 +19,9 @@ afterAll(() => {
 jest.mock('../../src/HBAC');
 
 describe('Express Middleware', () => {
+  const allowResult: AuthorizationResult = { allowed: true, effect: 'allow', obligations: [], advice: [] };
+  const denyResult: AuthorizationResult = { allowed: false, effect: 'deny', obligations: [], advice: [] };
+
   // Setup mocks
   let mockHBAC: jest.Mocked<HBAC>;
   let mockRequest: Partial<AuthenticatedRequest>;
@@ -30,7 +34,8 @@ describe('Express Middleware', () => {
     
     // Create mock HBAC instance
     mockHBAC = new HBAC('./config.json') as jest.Mocked<HBAC>;
-    mockHBAC.can = jest.fn();
+    mockHBAC.authorize = jest.fn();
+    mockHBAC.canMany = jest.fn();
     
     // Create mock Express objects
     mockResponse = {
@@ -47,7 +52,7 @@ describe('Express Middleware', () => {
     };
     
     // Setup HBAC to allow access
-    mockHBAC.can.mockResolvedValueOnce(true);
+    mockHBAC.authorize.mockResolvedValueOnce(allowResult);
     
     // Create middleware
     const middleware = protect(
@@ -63,11 +68,12 @@ describe('Express Middleware', () => {
       mockNext
     );
     
-    // Should call HBAC.can with correct parameters
-    expect(mockHBAC.can).toHaveBeenCalledWith(
+    // Should call HBAC.authorize with correct parameters
+    expect(mockHBAC.authorize).toHaveBeenCalledWith(
       'user123',
       'read',
       'posts',
+      {},
       {}
     );
     
@@ -86,7 +92,7 @@ describe('Express Middleware', () => {
     };
     
     // Setup HBAC to deny access
-    mockHBAC.can.mockResolvedValueOnce(false);
+    mockHBAC.authorize.mockResolvedValueOnce(denyResult);
     
     // Create middleware
     const middleware = protect(
@@ -102,11 +108,12 @@ describe('Express Middleware', () => {
       mockNext
     );
     
-    // Should call HBAC.can with correct parameters
-    expect(mockHBAC.can).toHaveBeenCalledWith(
+    // Should call HBAC.authorize with correct parameters
+    expect(mockHBAC.authorize).toHaveBeenCalledWith(
       'user123',
       'write',
       'posts',
+      {},
       {}
     );
     
@@ -141,8 +148,8 @@ describe('Express Middleware', () => {
       mockNext
     );
     
-    // Should not call HBAC.can
-    expect(mockHBAC.can).not.toHaveBeenCalled();
+    // Should not call HBAC.authorize
+    expect(mockHBAC.authorize).not.toHaveBeenCalled();
     
     // Should not call next
     expect(mockNext).not.toHaveBeenCalled();
@@ -163,7 +170,7 @@ describe('Express Middleware', () => {
     };
     
     // Setup HBAC to allow access
-    mockHBAC.can.mockResolvedValueOnce(true);
+    mockHBAC.authorize.mockResolvedValueOnce(allowResult);
     
     // Create middleware with custom getUserId
     const middleware = protect(
@@ -182,11 +189,12 @@ describe('Express Middleware', () => {
       mockNext
     );
     
-    // Should call HBAC.can with session userId
-    expect(mockHBAC.can).toHaveBeenCalledWith(
+    // Should call HBAC.authorize with session userId
+    expect(mockHBAC.authorize).toHaveBeenCalledWith(
       'session-user-123',
       'read',
       'posts',
+      {},
       {}
     );
     
@@ -202,7 +210,7 @@ describe('Express Middleware', () => {
     };
     
     // Setup HBAC to allow access
-    mockHBAC.can.mockResolvedValueOnce(true);
+    mockHBAC.authorize.mockResolvedValueOnce(allowResult);
     
     // Create middleware with custom getContext
     const middleware = protect(
@@ -224,15 +232,16 @@ describe('Express Middleware', () => {
       mockNext
     );
     
-    // Should call HBAC.can with custom context
-    expect(mockHBAC.can).toHaveBeenCalledWith(
+    // Should call HBAC.authorize with custom context
+    expect(mockHBAC.authorize).toHaveBeenCalledWith(
       'user123',
       'read',
       'posts',
       expect.objectContaining({
         postId: 'post-123',
         timestamp: expect.any(Number),
-      })
+      }),
+      {}
     );
     
     // Should call next
@@ -246,7 +255,7 @@ describe('Express Middleware', () => {
     };
     
     // Setup HBAC to throw error
-    mockHBAC.can.mockRejectedValueOnce(new Error('Test error'));
+    mockHBAC.authorize.mockRejectedValueOnce(new Error('Test error'));
     
     // Create middleware
     const middleware = protect(
@@ -282,7 +291,7 @@ describe('Express Middleware', () => {
     };
     
     // Setup HBAC to allow access
-    mockHBAC.can.mockResolvedValueOnce(true);
+    mockHBAC.authorize.mockResolvedValueOnce(allowResult);
     
     // Create middleware
     const middleware = protect(
@@ -298,11 +307,12 @@ describe('Express Middleware', () => {
       mockNext
     );
     
-    // Should call HBAC.can with sub
-    expect(mockHBAC.can).toHaveBeenCalledWith(
+    // Should call HBAC.authorize with sub
+    expect(mockHBAC.authorize).toHaveBeenCalledWith(
       'user-sub-123',
       'read',
       'posts',
+      {},
       {}
     );
     
@@ -317,7 +327,7 @@ describe('Express Middleware', () => {
     };
     
     // Setup HBAC to allow access
-    mockHBAC.can.mockResolvedValueOnce(true);
+    mockHBAC.authorize.mockResolvedValueOnce(allowResult);
     
     // Create middleware
     const middleware = protect(
@@ -333,15 +343,263 @@ describe('Express Middleware', () => {
       mockNext
     );
     
-    // Should call HBAC.can with session userId
-    expect(mockHBAC.can).toHaveBeenCalledWith(
+    // Should call HBAC.authorize with session userId
+    expect(mockHBAC.authorize).toHaveBeenCalledWith(
       'session-user-123',
       'read',
       'posts',
+      {},
       {}
     );
     
     // Should call next
     expect(mockNext).toHaveBeenCalled();
   });
+
+  test('should populate context.ip from the request', async () => {
+    mockRequest = {
+      user: { id: 'user123' },
+      ip: '10.0.0.5',
+    } as Partial<AuthenticatedRequest>;
+    
+    mockHBAC.authorize.mockResolvedValueOnce(allowResult);
+    
+    const middleware = protect(mockHBAC, 'read', 'admin');
+    
+    await middleware(
+      mockRequest as AuthenticatedRequest,
+      mockResponse as Response,
+      mockNext
+    );
+    
+    expect(mockHBAC.authorize).toHaveBeenCalledWith('user123', 'read', 'admin', { ip: '10.0.0.5' }, {});
+  });
+
+  test('should respect the trusted proxy setting when resolving context.ip', async () => {
+    const request = {
+      user: { id: 'user123' },
+      ip: '10.0.0.1',
+      socket: { remoteAddress: '10.0.0.1' },
+      headers: { 'x-forwarded-for': '198.51.100.9, 203.0.113.4' },
+    } as unknown as AuthenticatedRequest;
+    
+    const run = async (trustProxy: boolean | number) => {
+      mockHBAC.authorize.mockResolvedValueOnce(allowResult);
+      await protect(mockHBAC, 'read', 'admin', { trustProxy })(
+        request,
+        mockResponse as Response,
+        mockNext
+      );
+      return mockHBAC.authorize.mock.calls[mockHBAC.authorize.mock.calls.length - 1][3];
+    };
+    
+    // Ignore forwarded headers
+    expect(await run(false)).toEqual({ ip: '10.0.0.1' });
+    
+    // Trust every proxy
+    expect(await run(true)).toEqual({ ip: '198.51.100.9' });
+    
+    // Trust only the nearest proxy
+    expect(await run(1)).toEqual({ ip: '203.0.113.4' });
+  });
+
+  test('should let custom context override context.ip', async () => {
+    mockRequest = {
+      user: { id: 'user123' },
+      ip: '10.0.0.5',
+    } as Partial<AuthenticatedRequest>;
+    
+    mockHBAC.authorize.mockResolvedValueOnce(allowResult);
+    
+    const middleware = protect(mockHBAC, 'read', 'admin', {
+      getContext: () => ({ ip: '192.0.2.1', region: 'EU' }),
+    });
+    
+    await middleware(
+      mockRequest as AuthenticatedRequest,
+      mockResponse as Response,
+      mockNext
+    );
+    
+    expect(mockHBAC.authorize).toHaveBeenCalledWith('user123', 'read', 'admin', { ip: '192.0.2.1', region: 'EU' }, {});
+  });
+
+  test('should run obligation and advice handlers before continuing', async () => {
+    mockRequest = { user: { id: 'user123' } };
+    
+    const obligation = { id: 'maskField', params: { field: 'ssn' } };
+    mockHBAC.authorize.mockResolvedValueOnce({
+      ...allowResult,
+      obligations: [obligation],
+      advice: [{ id: 'notifyOwner' }, { id: 'unhandledAdvice' }],
+    });
+    
+    const maskField = jest.fn();
+    const notifyOwner = jest.fn().mockRejectedValue(new Error('Notification failed'));
+    const middleware = protect(mockHBAC, 'read', 'employees', {
+      obligations: { maskField, notifyOwner },
+    });
+    
+    await middleware(
+      mockRequest as AuthenticatedRequest,
+      mockResponse as Response,
+      mockNext
+    );
+    
+    expect(maskField).toHaveBeenCalledWith(obligation, mockRequest, mockResponse);
+    expect(notifyOwner).toHaveBeenCalled();
+    expect(mockNext).toHaveBeenCalled();
+  });
+
+  test('should fail closed when an obligation is unhandled or unfulfilled', async () => {
+    mockRequest = { user: { id: 'user123' } };
+    
+    // No handler registered for the obligation
+    mockHBAC.authorize.mockResolvedValueOnce({ ...allowResult, obligations: [{ id: 'requireMfa' }] });
+    await protect(mockHBAC, 'read', 'employees')(
+      mockRequest as AuthenticatedRequest,
+      mockResponse as Response,
+      mockNext
+    );
+    
+    // Handler reports that the obligation could not be fulfilled
+    mockHBAC.authorize.mockResolvedValueOnce({ ...allowResult, obligations: [{ id: 'requireMfa' }] });
+    await protect(mockHBAC, 'read', 'employees', { obligations: { requireMfa: () => false } })(
+      mockRequest as AuthenticatedRequest,
+      mockResponse as Response,
+      mockNext
+    );
+    
+    expect(mockResponse.status).toHaveBeenCalledTimes(2);
+    expect(mockResponse.status).toHaveBeenNthCalledWith(1, 403);
+    expect(mockResponse.status).toHaveBeenNthCalledWith(2, 403);
+    expect(mockNext).not.toHaveBeenCalled();
+  });
+
+  test('should not respond again when an obligation handler has responded', async () => {
+    mockRequest = { user: { id: 'user123' } };
+    const redirect = jest.fn((_obligation, _req, res: Response) => {
+      (res as any).headersSent = true;
+      return false;
+    });
+    
+    mockHBAC.authorize.mockResolvedValueOnce({ ...allowResult, obligations: [{ id: 'requireMfa' }] });
+    await protect(mockHBAC, 'read', 'employees', { obligations: { requireMfa: redirect } })(
+      mockRequest as AuthenticatedRequest,
+      mockResponse as Response,
+      mockNext
+    );
+    
+    // A handler failing after responding is only logged
+    mockHBAC.authorize.mockResolvedValueOnce({ ...allowResult, obligations: [{ id: 'requireMfa' }] });
+    await protect(mockHBAC, 'read', 'employees', {
+      obligations: {
+        requireMfa: (_obligation, _req, res) => {
+          (res as any).headersSent = true;
+          throw new Error('Redirect failed');
+        },
+      },
+    })(
+      mockRequest as AuthenticatedRequest,
+      mockResponse as Response,
+      mockNext
+    );
+    
+    expect(redirect).toHaveBeenCalledTimes(1);
+    expect(mockResponse.status).not.toHaveBeenCalled();
+    expect(mockNext).not.toHaveBeenCalled();
+  });
+
+  test('should answer batch checks with server-side context', async () => {
+    mockRequest = {
+      user: { id: 'user123' },
+      ip: '10.0.0.1',
+      body: {
+        checks: [
+          { action: 'read', resource: 'posts', context: { ip: '1.2.3.4', draft: true } },
+          { key: 'publish', action: 'publish', resource: 'posts' },
+        ],
+      },
+    };
+    (mockHBAC.canMany as jest.Mock).mockResolvedValueOnce({ 'posts:read': true, publish: false });
+    
+    await canBatch(mockHBAC)(mockRequest as AuthenticatedRequest, mockResponse as Response);
+    
+    expect(mockHBAC.canMany).toHaveBeenCalledWith('user123', [
+      { action: 'read', resource: 'posts', context: { ip: '10.0.0.1', draft: true } },
+      { key: 'publish', action: 'publish', resource: 'posts', context: { ip: '10.0.0.1' } },
+    ], {});
+    expect(mockResponse.json).toHaveBeenCalledWith({ results: { 'posts:read': true, publish: false } });
+  });
+
+  test('should drop a client-supplied IP when the server has none', async () => {
+    mockRequest = {
+      user: { id: 'user123' },
+      body: { checks: [{ action: 'read', resource: 'posts', context: { ip: '10.0.0.1', draft: true } }] },
+    };
+    (mockHBAC.canMany as jest.Mock).mockResolvedValueOnce({ 'posts:read': false });
+    
+    await canBatch(mockHBAC)(mockRequest as AuthenticatedRequest, mockResponse as Response);
+    
+    expect(mockHBAC.canMany).toHaveBeenCalledWith('user123', [
+      { action: 'read', resource: 'posts', context: { draft: true } },
+    ], {});
+  });
+
+  test('should reject batch requests without a user or checks', async () => {
+    mockRequest = { body: { checks: [] } };
+    await canBatch(mockHBAC)(mockRequest as AuthenticatedRequest, mockResponse as Response);
+    
+    mockRequest = { user: { id: 'user123' }, body: {} };
+    await canBatch(mockHBAC)(mockRequest as AuthenticatedRequest, mockResponse as Response);
+    
+    expect(mockResponse.status).toHaveBeenNthCalledWith(1, 401);
+    expect(mockResponse.status).toHaveBeenNthCalledWith(2, 400);
+    expect(mockHBAC.canMany).not.toHaveBeenCalled();
+  });
+
+  test('should reject malformed batch checks', async () => {
+    const invalidChecks = [
+      [null],
+      [{ resource: 'posts' }],
+      [{ action: 'read', resource: 42 }],
+      [{ action: 'read', resource: { id: 'post-1' } }],
+      [{ action: 'read', resource: 'posts', context: 'draft' }],
+      [{ action: 'read', resource: 'posts', key: 7 }],
+      [{ action: 'read', resource: 'posts' }, { action: 'read', resource: { type: 'posts', id: 'post-1' } }],
+    ];
+    
+    for (const checks of invalidChecks) {
+      mockRequest = { user: { id: 'user123' }, body: { checks } };
+      await canBatch(mockHBAC)(mockRequest as AuthenticatedRequest, mockResponse as Response);
+    }
+    
+    expect(mockResponse.status).toHaveBeenCalledTimes(invalidChecks.length);
+    (mockResponse.status as jest.Mock).mock.calls.forEach(([status]) => expect(status).toBe(400));
+    expect(mockResponse.json).toHaveBeenCalledWith({ message: 'Invalid request', error: 'Check 0 must have an action string' });
+    expect(mockResponse.json).toHaveBeenLastCalledWith({
+      message: 'Invalid request',
+      error: 'Duplicate permission check key: posts:read',
+    });
+    expect(mockHBAC.canMany).not.toHaveBeenCalled();
+  });
+
+  test('should pass the tenant scope from the request', async () => {
+    mockRequest = {
+      user: { id: 'user123' },
+      headers: { 'x-tenant-id': 'tenant-a' },
+    };
+    mockHBAC.authorize.mockResolvedValueOnce(allowResult);
+    
+    await protect(mockHBAC, 'read', 'posts', {
+      getScope: (req) => req.headers['x-tenant-id'] as string,
+    })(
+      mockRequest as AuthenticatedRequest,
+      mockResponse as Response,
+      mockNext
+    );
+    
+    expect(mockHBAC.authorize).toHaveBeenCalledWith('user123', 'read', 'posts', {}, { scope: 'tenant-a' });
+    expect(mockNext).toHaveBeenCalled();
+  });
 });
\ No newline at end of file
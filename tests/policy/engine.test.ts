@@ -4,7 +4,7 @@
 import { PolicyEngine } from '../../src/policy/engine';
 import { RoleManager } from '../../src/role/manager';
 import { AttributeManager } from '../../src/attribute/manager';
-import { PolicyRule, RoleMap, AttributeMap, Permission, PolicyEffect } from '../../src/types';
+import { PolicyRule, PolicySet, RoleMap, AttributeMap, Permission, PolicyEffect, PolicyEvaluationType } from '../../src/types';
 
 describe('PolicyEngine', () => {
   // Sample roles for testing
@@ -133,6 +133,41 @@ describe('PolicyEngine', () => {
     test('should use default effect for unmatched rules', () => {
       expect(policyEngine.evaluate(userRoles, userAttributes, 'custom-resource', 'custom-action')).toBe(false);
     });
+
+    test('should evaluate higher priority rules first, keeping configured order for ties', () => {
+      const prioritizedRules: PolicyRule[] = [
+        { id: 'policy_deny_all', resource: 'posts', action: 'read', condition: {}, effect: 'deny' },
+        { id: 'policy_allow_verified', resource: 'posts', action: 'read', condition: { 'attributes.isVerified': true }, effect: 'allow', priority: 10 },
+        { id: 'policy_allow_engineering', resource: 'posts', action: 'read', condition: { 'attributes.department': 'Engineering' }, effect: 'allow', priority: 10 },
+      ];
+      const prioritizedEngine = new PolicyEngine(prioritizedRules, 'deny', 'firstApplicable', roleManager, attributeManager);
+
+      const explanation = prioritizedEngine.explain(userRoles, userAttributes, 'posts', 'read');
+
+      expect(explanation.allowed).toBe(true);
+      expect(explanation.decidedBy.ruleIds).toEqual(['policy_allow_verified']);
+      expect(explanation.rules.map(rule => [rule.ruleId, rule.priority])).toEqual([
+        ['policy_allow_verified', 10],
+        ['policy_allow_engineering', 10],
+        ['policy_deny_all', 0],
+      ]);
+
+      // Lower priority rules apply once the higher ones do not match
+      expect(prioritizedEngine.evaluate(userRoles, { 'attr_department': 'Sales' }, 'posts', 'read')).toBe(false);
+    });
+
+    test('should evaluate rules sharing an identifier separately', () => {
+      const duplicateRules: PolicyRule[] = [
+        { id: 'policy_reports', resource: 'posts', action: 'read', condition: { 'attributes.department': 'Legal' }, effect: 'allow' },
+        { id: 'policy_reports', resource: 'posts', action: 'read', condition: { 'attributes.department': 'Finance' }, effect: 'allow' },
+      ];
+      const duplicateEngine = new PolicyEngine(duplicateRules, 'deny', 'firstApplicable', roleManager, attributeManager);
+
+      const explanation = duplicateEngine.explain(userRoles, { 'attr_department': 'Finance' }, 'posts', 'read');
+
+      expect(explanation.allowed).toBe(true);
+      expect(explanation.rules.map(rule => rule.matched)).toEqual([false, true]);
+    });
   });
 
   describe('All Applicable Strategy', () => {
@@ -226,6 +261,289 @@ describe('PolicyEngine', () => {
     });
   });
 
+  describe('Additional Combining Algorithms', () => {
+    const combiningRules: PolicyRule[] = [
+      {
+        id: 'policy_allow_verified',
+        resource: 'posts',
+        action: 'read',
+        condition: { 'attributes.isVerified': true },
+        effect: 'allow',
+      },
+      {
+        id: 'policy_deny_engineering',
+        resource: 'posts',
+        action: 'read',
+        condition: { 'attributes.department': 'Engineering' },
+        effect: 'deny',
+      },
+    ];
+
+    const both = { 'attr_department': 'Engineering', 'attr_verified': true };
+    const verified = { 'attr_department': 'Sales', 'attr_verified': true };
+    const engineering = { 'attr_department': 'Engineering', 'attr_verified': false };
+    const neither = { 'attr_department': 'Sales', 'attr_verified': false };
+
+    const createEngine = (evaluation: PolicyEvaluationType, defaultEffect: PolicyEffect) =>
+      new PolicyEngine(combiningRules, defaultEffect, evaluation, roleManager, attributeManager);
+
+    test('should let allow rules override deny rules with permitOverrides', () => {
+      const policyEngine = createEngine('permitOverrides', 'deny');
+
+      expect(policyEngine.explain(['role_user'], both, 'posts', 'read').decidedBy).toEqual({
+        step: 'allowMatched',
+        ruleIds: ['policy_allow_verified'],
+      });
+      expect(policyEngine.evaluate(['role_user'], engineering, 'posts', 'read')).toBe(false);
+      expect(policyEngine.explain(['role_user'], neither, 'posts', 'read').decidedBy.step).toBe('defaultEffect');
+    });
+
+    test('should deny unless an allow rule matches with denyUnlessPermit', () => {
+      const policyEngine = createEngine('denyUnlessPermit', 'allow');
+
+      expect(policyEngine.evaluate(['role_user'], both, 'posts', 'read')).toBe(true);
+      expect(policyEngine.evaluate(['role_user'], engineering, 'posts', 'read')).toBe(false);
+
+      // The default effect is not used
+      const explanation = policyEngine.explain(['role_user'], neither, 'posts', 'read');
+      expect(explanation.allowed).toBe(false);
+      expect(explanation.decidedBy).toEqual({ step: 'noAllowMatched', ruleIds: [] });
+    });
+
+    test('should allow unless a deny rule matches with permitUnlessDeny', () => {
+      const policyEngine = createEngine('permitUnlessDeny', 'deny');
+
+      expect(policyEngine.evaluate(['role_user'], both, 'posts', 'read')).toBe(false);
+      expect(policyEngine.evaluate(['role_user'], verified, 'posts', 'read')).toBe(true);
+
+      const explanation = policyEngine.explain(['role_user'], neither, 'posts', 'read');
+      expect(explanation.allowed).toBe(true);
+      expect(explanation.decidedBy).toEqual({ step: 'noDenyMatched', ruleIds: [] });
+    });
+
+    test('should require a single matching rule with onlyOneApplicable', () => {
+      const policyEngine = createEngine('onlyOneApplicable', 'allow');
+
+      expect(policyEngine.evaluate(['role_user'], verified, 'posts', 'read')).toBe(true);
+      expect(policyEngine.explain(['role_user'], engineering, 'posts', 'read').decidedBy).toEqual({
+        step: 'ruleMatched',
+        ruleIds: ['policy_deny_engineering'],
+      });
+      expect(policyEngine.explain(['role_user'], neither, 'posts', 'read').decidedBy.step).toBe('defaultEffect');
+
+      // Several matching rules fail closed, reported apart from a rule's deny
+      expect(policyEngine.evaluate(['role_user'], both, 'posts', 'read')).toBe(false);
+      expect(policyEngine.explain(['role_user'], both, 'posts', 'read').decidedBy).toEqual({
+        step: 'indeterminate',
+        ruleIds: ['policy_allow_verified', 'policy_deny_engineering'],
+      });
+    });
+  });
+
+  describe('Policy Sets', () => {
+    const reportRoles: RoleMap = {
+      reader: { id: 'role_reader', permissions: ['reports:*'] as Permission[] },
+    };
+    const compliance: PolicySet = {
+      id: 'set_compliance',
+      resource: 'reports',
+      evaluation: 'firstApplicable',
+      policies: [
+        {
+          id: 'set_finance',
+          evaluation: 'denyOverrides',
+          policies: [
+            { id: 'policy_finance', resource: 'reports', action: '*', condition: { 'attributes.department': 'Finance' }, effect: 'allow' },
+            { id: 'policy_unverified', resource: 'reports', action: '*', condition: { 'attributes.isVerified': false }, effect: 'deny' },
+          ],
+        },
+        {
+          id: 'set_legal',
+          action: 'read',
+          evaluation: 'firstApplicable',
+          policies: [
+            { id: 'policy_legal', resource: 'reports', action: 'read', condition: { 'attributes.department': 'Legal' }, effect: 'allow' },
+          ],
+        },
+      ],
+    };
+    const lockdown: PolicyRule = {
+      id: 'policy_lockdown',
+      resource: '*',
+      action: '*',
+      condition: { 'context.lockdown': true },
+      effect: 'deny',
+    };
+    const policyEngine = new PolicyEngine(
+      [lockdown, compliance],
+      'deny',
+      'denyOverrides',
+      new RoleManager(reportRoles),
+      attributeManager
+    );
+
+    test('should combine nested sets with their own algorithms', () => {
+      expect(policyEngine.explain(['role_reader'], { 'attr_department': 'Finance', 'attr_verified': true }, 'reports', 'read').decidedBy).toEqual({
+        step: 'allowMatched',
+        ruleIds: ['policy_finance'],
+      });
+
+      // Deny overrides within the finance set
+      expect(policyEngine.explain(['role_reader'], { 'attr_department': 'Finance', 'attr_verified': false }, 'reports', 'read').decidedBy).toEqual({
+        step: 'denyMatched',
+        ruleIds: ['policy_unverified'],
+      });
+
+      // The legal set applies once the finance set has no decision
+      expect(policyEngine.evaluate(['role_reader'], { 'attr_department': 'Legal', 'attr_verified': true }, 'reports', 'read')).toBe(true);
+      expect(policyEngine.explain(['role_reader'], { 'attr_department': 'Marketing', 'attr_verified': true }, 'reports', 'read').decidedBy.step).toBe('defaultEffect');
+    });
+
+    test('should combine top-level rules with policy sets', () => {
+      const explanation = policyEngine.explain(
+        ['role_reader'],
+        { 'attr_department': 'Finance', 'attr_verified': true },
+        'reports',
+        'read',
+        { lockdown: true }
+      );
+
+      expect(explanation.allowed).toBe(false);
+      expect(explanation.decidedBy).toEqual({ step: 'denyMatched', ruleIds: ['policy_lockdown'] });
+    });
+
+    test('should skip sets whose target does not match', () => {
+      const explanation = policyEngine.explain(['role_reader'], { 'attr_department': 'Legal', 'attr_verified': true }, 'reports', 'export');
+
+      expect(explanation.allowed).toBe(false);
+      expect(explanation.rules.map(rule => [rule.ruleId, rule.policySetId])).toEqual([
+        ['policy_lockdown', undefined],
+        ['policy_finance', 'set_finance'],
+        ['policy_unverified', 'set_finance'],
+      ]);
+    });
+
+    test('should order set members by priority', () => {
+      const prioritized = new PolicyEngine(
+        [{
+          id: 'set_reports',
+          evaluation: 'firstApplicable',
+          policies: [
+            { id: 'policy_allow', resource: 'reports', action: 'read', condition: {}, effect: 'allow' },
+            { id: 'policy_deny', resource: 'reports', action: 'read', condition: {}, effect: 'deny', priority: 1 },
+          ],
+        }],
+        'allow',
+        'firstApplicable',
+        new RoleManager(reportRoles),
+        attributeManager
+      );
+
+      expect(prioritized.evaluate(['role_reader'], {}, 'reports', 'read')).toBe(false);
+    });
+  });
+
+  describe('Policy-First Mode', () => {
+    const regionRules: PolicyRule[] = [
+      {
+        id: 'policy_eu_only',
+        resource: '**',
+        action: '*',
+        condition: { 'context.region': { '$nin': ['DE', 'FR', 'NL'] } },
+        effect: 'deny',
+      },
+      {
+        id: 'policy_finance_invoices',
+        resource: 'invoices',
+        action: 'read',
+        condition: { 'attributes.department': 'Finance' },
+        effect: 'allow',
+      },
+    ];
+    const createEngine = (mode: 'roleGated' | 'policyFirst') =>
+      new PolicyEngine(regionRules, 'deny', 'denyOverrides', roleManager, attributeManager, { mode });
+
+    test('should apply deny rules to wildcard roles', () => {
+      const explanation = createEngine('policyFirst').explain(['role_admin'], {}, 'posts', 'delete', { region: 'US' });
+
+      expect(explanation.allowed).toBe(false);
+      expect(explanation.mode).toBe('policyFirst');
+      expect(explanation.decidedBy).toEqual({ step: 'denyMatched', ruleIds: ['policy_eu_only'] });
+
+      // Wildcard roles skip policies by default
+      expect(createEngine('roleGated').evaluate(['role_admin'], {}, 'posts', 'delete', { region: 'US' })).toBe(true);
+    });
+
+    test('should let policies grant access without a role permission', () => {
+      const finance = { 'attr_department': 'Finance' };
+
+      expect(createEngine('policyFirst').explain(['role_user'], finance, 'invoices', 'read', { region: 'DE' }).decidedBy).toEqual({
+        step: 'allowMatched',
+        ruleIds: ['policy_finance_invoices'],
+      });
+      expect(createEngine('roleGated').evaluate(['role_user'], finance, 'invoices', 'read', { region: 'DE' })).toBe(false);
+    });
+
+    test('should fall back to role permissions when no policy decides', () => {
+      // The default effect still applies to role permissions once a rule was considered
+      const policyEngine = new PolicyEngine(regionRules, 'allow', 'denyOverrides', roleManager, attributeManager, { mode: 'policyFirst' });
+
+      expect(policyEngine.explain(['role_admin'], {}, 'posts', 'delete', { region: 'FR' }).decidedBy.step).toBe('wildcardPermission');
+      expect(policyEngine.evaluate(['role_user'], {}, 'posts', 'read', { region: 'FR' })).toBe(true);
+
+      const explanation = policyEngine.explain(['role_user'], {}, 'posts', 'delete', { region: 'FR' });
+      expect(explanation.decidedBy.step).toBe('noRolePermission');
+      expect(explanation.rules).toEqual([expect.objectContaining({ ruleId: 'policy_eu_only', evaluated: true, matched: false })]);
+    });
+  });
+
+  describe('Obligations and Advice', () => {
+    const rules: PolicyRule[] = [
+      {
+        id: 'policy_log_denied',
+        resource: 'posts',
+        action: 'read',
+        condition: { 'attributes.isVerified': false },
+        effect: 'deny',
+        obligations: [{ id: 'logReason', params: { reason: 'unverified' } }],
+      },
+      {
+        id: 'policy_mask',
+        resource: 'posts',
+        action: 'read',
+        condition: { 'attributes.department': 'Engineering' },
+        effect: 'allow',
+        obligations: [{ id: 'maskField', params: { field: 'ssn' } }],
+        advice: [{ id: 'notifyOwner' }],
+      },
+    ];
+
+    test('should return obligations and advice of the deciding rules', () => {
+      const policyEngine = new PolicyEngine(rules, 'deny', 'firstApplicable', roleManager, attributeManager);
+
+      const allowed = policyEngine.explain(['role_user'], { 'attr_department': 'Engineering', 'attr_verified': true }, 'posts', 'read');
+      expect(allowed.obligations).toEqual([{ id: 'maskField', params: { field: 'ssn' } }]);
+      expect(allowed.advice).toEqual([{ id: 'notifyOwner' }]);
+
+      const denied = policyEngine.explain(['role_user'], { 'attr_verified': false }, 'posts', 'read');
+      expect(denied.obligations).toEqual([{ id: 'logReason', params: { reason: 'unverified' } }]);
+      expect(denied.advice).toEqual([]);
+
+      // Nothing is attached when no rule decides
+      expect(policyEngine.explain(['role_user'], { 'attr_verified': true }, 'posts', 'read').obligations).toEqual([]);
+    });
+
+    test('should only use rules whose effect matches the decision', () => {
+      const policyEngine = new PolicyEngine(rules, 'deny', 'allApplicable', roleManager, attributeManager);
+
+      const explanation = policyEngine.explain(['role_user'], { 'attr_department': 'Engineering', 'attr_verified': false }, 'posts', 'read');
+
+      expect(explanation.decidedBy.step).toBe('conflict');
+      expect(explanation.obligations).toEqual([{ id: 'logReason', params: { reason: 'unverified' } }]);
+      expect(explanation.advice).toEqual([]);
+    });
+  });
+
   describe('Wildcard and Administrative Permissions', () => {
     const policyEngine = new PolicyEngine(
       policyRules,
@@ -271,4 +589,420 @@ describe('PolicyEngine', () => {
       expect(policyEngine.evaluate(['non_existent_role'], userAttributes, 'posts', 'read')).toBe(false);
     });
   });
+
+  describe('Decision Explanation', () => {
+    const policyEngine = new PolicyEngine(
+      policyRules,
+      'deny', // defaultEffect
+      'firstApplicable', // evaluationType
+      roleManager,
+      attributeManager
+    );
+
+    const userAttributes = {
+      'attr_department': 'Engineering',
+      'attr_clearance': 3,
+      'attr_verified': true,
+    };
+
+    test('should explain wildcard permission decisions', () => {
+      const explanation = policyEngine.explain(['role_admin'], userAttributes, 'documents', 'read');
+
+      expect(explanation.allowed).toBe(true);
+      expect(explanation.permission).toEqual({
+        roleId: 'role_admin',
+        permission: '*:*',
+        matchType: 'wildcard',
+      });
+      expect(explanation.decidedBy).toEqual({ step: 'wildcardPermission', ruleIds: [] });
+    });
+
+    test('should explain missing role permission', () => {
+      const explanation = policyEngine.explain(['role_user'], userAttributes, 'posts', 'delete');
+
+      expect(explanation.allowed).toBe(false);
+      expect(explanation.effect).toBe('deny');
+      expect(explanation.permission).toBeNull();
+      expect(explanation.decidedBy.step).toBe('noRolePermission');
+    });
+
+    test('should explain role permission without applicable rules', () => {
+      const explanation = policyEngine.explain(['role_editor'], userAttributes, 'posts', 'write');
+
+      expect(explanation.allowed).toBe(true);
+      expect(explanation.permission?.matchType).toBe('exact');
+      expect(explanation.rules).toEqual([]);
+      expect(explanation.decidedBy.step).toBe('noApplicableRules');
+    });
+
+    test('should explain matched rules and condition paths', () => {
+      const readerRoles: RoleMap = {
+        reader: {
+          id: 'role_reader',
+          permissions: ['documents:*', 'finance-reports:read'] as Permission[],
+        },
+      };
+      const readerEngine = new PolicyEngine(
+        policyRules,
+        'deny',
+        'firstApplicable',
+        new RoleManager(readerRoles),
+        attributeManager
+      );
+
+      const explanation = readerEngine.explain(['role_reader'], userAttributes, 'documents', 'read');
+
+      expect(explanation.allowed).toBe(true);
+      expect(explanation.permission?.matchType).toBe('resourceWildcard');
+      expect(explanation.decidedBy).toEqual({
+        step: 'ruleMatched',
+        ruleIds: ['policy_sensitive_docs'],
+      });
+      expect(explanation.rules).toHaveLength(1);
+      expect(explanation.rules[0].matched).toBe(true);
+      expect(explanation.rules[0].condition?.paths).toEqual([
+        { path: 'attributes.clearanceLevel', value: 3, predicate: { '$gte': 3 }, satisfied: true },
+        { path: 'attributes.isVerified', value: true, predicate: true, satisfied: true },
+      ]);
+
+      const denied = readerEngine.explain(['role_reader'], userAttributes, 'finance-reports', 'read');
+
+      expect(denied.allowed).toBe(false);
+      expect(denied.decidedBy).toEqual({
+        step: 'ruleMatched',
+        ruleIds: ['policy_block_engineering'],
+      });
+    });
+
+    test('should flag decisions that read environment values', () => {
+      const scheduleRoles: RoleMap = {
+        deployer: { id: 'role_deployer', permissions: ['deploy:execute', 'posts:read'] as Permission[] },
+      };
+      const scheduleRules: PolicyRule[] = [
+        { id: 'policy_business_hours', resource: 'deploy', action: 'execute', condition: { 'env.hourOfDay': { '$gte': 0 } }, effect: 'allow' },
+        { id: 'policy_recent', resource: 'posts', action: 'read', condition: { 'context.since': { '$lt': 'env.now' } }, effect: 'allow' },
+      ];
+      const scheduleEngine = new PolicyEngine(scheduleRules, 'deny', 'firstApplicable', new RoleManager(scheduleRoles), attributeManager);
+
+      expect(scheduleEngine.explain(['role_deployer'], {}, 'deploy', 'execute').environmentDependent).toBe(true);
+      expect(scheduleEngine.explain(['role_deployer'], {}, 'posts', 'read', { since: 0 }).environmentDependent).toBe(true);
+      expect(policyEngine.explain(['role_user'], userAttributes, 'documents', 'read').environmentDependent).toBe(false);
+    });
+
+    test('should agree with evaluate', () => {
+      const explanation = policyEngine.explain(['role_user'], userAttributes, 'custom-resource', 'custom-action');
+      expect(explanation.allowed).toBe(
+        policyEngine.evaluate(['role_user'], userAttributes, 'custom-resource', 'custom-action')
+      );
+    });
+  });
+
+  describe('Resource Descriptors', () => {
+    const documentRoles: RoleMap = {
+      analyst: {
+        id: 'role_analyst',
+        permissions: ['documents:read', 'documents:update'] as Permission[],
+      },
+    };
+
+    const documentRules: PolicyRule[] = [
+      {
+        id: 'policy_block_secret',
+        resource: 'documents',
+        action: 'read',
+        condition: { 'resource.classification': 'secret' },
+        effect: 'deny' as PolicyEffect,
+      },
+      {
+        id: 'policy_allow_read',
+        resource: 'documents',
+        action: 'read',
+        condition: {},
+        effect: 'allow' as PolicyEffect,
+      },
+      {
+        id: 'policy_owner_update',
+        resource: 'documents',
+        action: 'update',
+        condition: { 'resource.ownerId': '$user.id' },
+        effect: 'allow' as PolicyEffect,
+      },
+    ];
+
+    const policyEngine = new PolicyEngine(
+      documentRules,
+      'deny',
+      'firstApplicable',
+      new RoleManager(documentRoles),
+      attributeManager
+    );
+
+    test('should match role permissions and rules on the resource type', () => {
+      const publicDocument = { type: 'documents', id: 'doc-1', attributes: { classification: 'public' } };
+      const secretDocument = { type: 'documents', id: 'doc-2', attributes: { classification: 'secret' } };
+
+      expect(policyEngine.evaluate(['role_analyst'], {}, publicDocument, 'read')).toBe(true);
+      expect(policyEngine.evaluate(['role_analyst'], {}, secretDocument, 'read')).toBe(false);
+      expect(policyEngine.evaluate(['role_analyst'], {}, { type: 'reports' }, 'read')).toBe(false);
+    });
+
+    test('should compare resource attributes with the requesting user', () => {
+      const document = { type: 'documents', id: 'doc-1', attributes: { ownerId: 'user123' } };
+
+      expect(policyEngine.evaluate(['role_analyst'], {}, document, 'update', {}, 'user123')).toBe(true);
+      expect(policyEngine.evaluate(['role_analyst'], {}, document, 'update', {}, 'user456')).toBe(false);
+
+      const explanation = policyEngine.explain(['role_analyst'], {}, document, 'update', {}, 'user123');
+      expect(explanation.resource).toBe('documents');
+      expect(explanation.resourceId).toBe('doc-1');
+    });
+  });
+
+  describe('Ownership-Scoped Permissions', () => {
+    const authorRoles: RoleMap = {
+      author: {
+        id: 'role_author',
+        permissions: ['posts:read', 'posts:write:own'] as Permission[],
+      },
+      editor: {
+        id: 'role_editor',
+        permissions: ['posts:write'] as Permission[],
+      },
+    };
+
+    const post = { type: 'posts', id: 'post-1', attributes: { ownerId: 'user123' } };
+
+    test('should only allow :own permissions on resources the user owns', () => {
+      const policyEngine = new PolicyEngine([], 'deny', 'firstApplicable', new RoleManager(authorRoles), attributeManager);
+
+      expect(policyEngine.evaluate(['role_author'], {}, post, 'write', {}, 'user123')).toBe(true);
+      expect(policyEngine.evaluate(['role_author'], {}, post, 'write', {}, 'user456')).toBe(false);
+
+      // Without ownership information access is denied
+      expect(policyEngine.evaluate(['role_author'], {}, 'posts', 'write', {}, 'user123')).toBe(false);
+
+      // Unscoped permissions do not require ownership
+      expect(policyEngine.evaluate(['role_editor'], {}, post, 'write', {}, 'user456')).toBe(true);
+
+      const explanation = policyEngine.explain(['role_author'], {}, post, 'write', {}, 'user456');
+      expect(explanation.decidedBy.step).toBe('notOwner');
+      expect(explanation.ownership?.paths[0]).toEqual(
+        expect.objectContaining({ path: 'resource.ownerId', value: 'user123', predicate: 'user456', satisfied: false })
+      );
+    });
+
+    test('should read the owner from a configurable attribute path', () => {
+      const policyEngine = new PolicyEngine(
+        [],
+        'deny',
+        'firstApplicable',
+        new RoleManager(authorRoles),
+        attributeManager,
+        { ownerAttribute: 'context.authorId' }
+      );
+
+      expect(policyEngine.evaluate(['role_author'], {}, 'posts', 'write', { authorId: 'user123' }, 'user123')).toBe(true);
+      expect(policyEngine.evaluate(['role_author'], {}, 'posts', 'write', { authorId: 'user789' }, 'user123')).toBe(false);
+    });
+  });
+
+  test('should apply policy rules whose resource and action patterns match', () => {
+    const roleManager = new RoleManager({
+      member: { id: 'role_member', permissions: ['projects/*/documents/*:*'] as Permission[] },
+    });
+    const rules: PolicyRule[] = [
+      {
+        id: 'policy_archived',
+        resource: 'projects/*/documents/*',
+        action: 'edit-*',
+        condition: { 'context.archived': true },
+        effect: 'deny',
+      },
+    ];
+    const policyEngine = new PolicyEngine(rules, 'allow', 'denyOverrides', roleManager, attributeManager);
+
+    expect(policyEngine.evaluate(['role_member'], {}, 'projects/1/documents/7', 'edit-title', { archived: true })).toBe(false);
+    expect(policyEngine.evaluate(['role_member'], {}, 'projects/1/documents/7', 'edit-title', { archived: false })).toBe(true);
+
+    // The rule does not apply to other actions
+    expect(policyEngine.evaluate(['role_member'], {}, 'projects/1/documents/7', 'read', { archived: true })).toBe(true);
+  });
+
+  test('should not grant access without a matching allow rule under any algorithm', () => {
+    const reportRoles: RoleMap = {
+      reader: { id: 'role_reader', permissions: ['finance-reports:read'] as Permission[] },
+    };
+    const rules: PolicyRule[] = [
+      {
+        id: 'policy_finance_only',
+        resource: 'finance-reports',
+        action: 'read',
+        condition: { 'attributes.department': 'Finance' },
+        effect: 'allow',
+      },
+    ];
+    const marketingAttributes = { 'attr_department': 'Marketing' };
+
+    for (const evaluation of ['firstApplicable', 'allApplicable', 'denyOverrides'] as const) {
+      const policyEngine = new PolicyEngine(rules, 'deny', evaluation, new RoleManager(reportRoles), attributeManager);
+
+      expect(policyEngine.evaluate(['role_reader'], marketingAttributes, 'finance-reports', 'read')).toBe(false);
+      expect(policyEngine.evaluate(['role_reader'], { 'attr_department': 'Finance' }, 'finance-reports', 'read')).toBe(true);
+    }
+  });
+
+  test('should compare user attributes with context in policy rules', () => {
+    const reportRoles: RoleMap = {
+      reader: { id: 'role_reader', permissions: ['documents:read'] as Permission[] },
+    };
+    const rules: PolicyRule[] = [
+      {
+        id: 'policy_clearance',
+        resource: 'documents',
+        action: 'read',
+        condition: { 'context.classification': { '$lte': '$user.attributes.clearanceLevel' } },
+        effect: 'allow',
+      },
+    ];
+    const policyEngine = new PolicyEngine(rules, 'deny', 'denyOverrides', new RoleManager(reportRoles), attributeManager);
+
+    expect(policyEngine.evaluate(['role_reader'], { 'attr_clearance': 3 }, 'documents', 'read', { classification: 2 })).toBe(true);
+    expect(policyEngine.evaluate(['role_reader'], { 'attr_clearance': 3 }, 'documents', 'read', { classification: 4 })).toBe(false);
+  });
+
+  describe('Listing Permissions', () => {
+    const analystRoles: RoleMap = {
+      analyst: {
+        id: 'role_analyst',
+        permissions: ['finance-reports:*', 'posts:read', 'posts:update:own'] as Permission[],
+      },
+      exporter: {
+        id: 'role_exporter',
+        permissions: ['finance-reports:export'] as Permission[],
+      },
+    };
+    const policyEngine = new PolicyEngine(
+      policyRules,
+      'allow',
+      'denyOverrides',
+      new RoleManager(analystRoles),
+      attributeManager
+    );
+
+    test('should expand action wildcards and drop actions denied by policy rules', () => {
+      expect(policyEngine.listAllowedActions(['role_analyst'], { 'attr_department': 'Finance' }, 'finance-reports'))
+        .toEqual(['export', 'read']);
+      expect(policyEngine.listAllowedActions(['role_analyst'], { 'attr_department': 'Engineering' }, 'finance-reports'))
+        .toEqual(['export']);
+    });
+
+    test('should include ownership-scoped actions only for owned resources', () => {
+      const post = { type: 'posts', id: 'post-1', attributes: { ownerId: 'user123' } };
+
+      expect(policyEngine.listAllowedActions(['role_analyst'], {}, 'posts', {}, 'user123')).toEqual(['read']);
+      expect(policyEngine.listAllowedActions(['role_analyst'], {}, post, {}, 'user123')).toEqual(['read', 'update']);
+    });
+
+    test('should list effective permissions with ownership-scoped ones as configured', () => {
+      expect(policyEngine.listPermissions(['role_analyst'], { 'attr_department': 'Engineering' }, {}, 'user123'))
+        .toEqual(['finance-reports:export', 'posts:read', 'posts:update:own']);
+      expect(policyEngine.listPermissions(['role_exporter'], {})).toEqual(['finance-reports:export']);
+    });
+
+    test('should consider every known action in policyFirst mode', () => {
+      const rules: PolicyRule[] = [
+        {
+          id: 'policy_verified_docs',
+          resource: 'documents',
+          action: 'read',
+          condition: { 'attributes.isVerified': true },
+          effect: 'allow',
+        },
+      ];
+      const policyFirstEngine = new PolicyEngine(
+        rules,
+        'deny',
+        'denyOverrides',
+        new RoleManager(analystRoles),
+        attributeManager,
+        { mode: 'policyFirst' }
+      );
+
+      expect(policyFirstEngine.listAllowedActions([], { 'attr_verified': true }, 'documents')).toEqual(['read']);
+      expect(policyFirstEngine.listAllowedActions([], { 'attr_verified': false }, 'documents')).toEqual([]);
+    });
+  });
+
+  describe('Relationship Conditions', () => {
+    const relationRules: PolicyRule[] = [
+      {
+        id: 'policy_document_editor',
+        resource: 'document',
+        action: 'update',
+        condition: { '$related': 'editor' },
+        effect: 'allow' as PolicyEffect,
+      },
+      {
+        id: 'policy_team_member',
+        resource: 'reports',
+        action: 'read',
+        condition: { '$related': { relation: 'member', object: 'context.team', subject: 'context.requester' } },
+        effect: 'allow' as PolicyEffect,
+      },
+    ];
+
+    const policyEngine = new PolicyEngine(
+      relationRules,
+      'deny',
+      'firstApplicable',
+      new RoleManager({
+        writer: { id: 'role_writer', permissions: ['document:update', 'reports:read'] as Permission[] },
+      }),
+      attributeManager
+    );
+
+    const tuples = [
+      'document:readme#editor@user:alice',
+      'team:eng#member@service:ci',
+    ];
+    const lookup = jest.fn((object: string, relation: string, subject: string) =>
+      tuples.includes(`${object}#${relation}@${subject}`)
+    );
+
+    beforeEach(() => {
+      lookup.mockClear();
+    });
+
+    test('should check the requesting user against the resource by default', () => {
+      const readme = { type: 'document', id: 'readme' };
+
+      expect(policyEngine.evaluate(['role_writer'], {}, readme, 'update', {}, 'alice', lookup)).toBe(true);
+      expect(policyEngine.evaluate(['role_writer'], {}, readme, 'update', {}, 'bob', lookup)).toBe(false);
+      expect(lookup).toHaveBeenCalledWith('document:readme', 'editor', 'user:alice');
+    });
+
+    test('should resolve object and subject references', () => {
+      expect(policyEngine.evaluate(['role_writer'], {}, 'reports', 'read', { team: 'team:eng', requester: 'service:ci' }, 'alice', lookup))
+        .toBe(true);
+      expect(policyEngine.evaluate(['role_writer'], {}, 'reports', 'read', { team: 'team:ops', requester: 'service:ci' }, 'alice', lookup))
+        .toBe(false);
+    });
+
+    test('should not be satisfied without a lookup or a resource instance', () => {
+      expect(policyEngine.evaluate(['role_writer'], {}, { type: 'document', id: 'readme' }, 'update', {}, 'alice')).toBe(false);
+      expect(policyEngine.evaluate(['role_writer'], {}, 'document', 'update', {}, 'alice', lookup)).toBe(false);
+      expect(lookup).not.toHaveBeenCalled();
+    });
+
+    test('should report the resolved tuple in explanations', () => {
+      const explanation = policyEngine.explain(['role_writer'], {}, { type: 'document', id: 'readme' }, 'update', {}, 'alice', lookup);
+
+      expect(explanation.rules[0].condition?.paths[0]).toEqual({
+        path: '$related',
+        value: { object: 'document:readme', relation: 'editor', subject: 'user:alice' },
+        predicate: 'editor',
+        satisfied: true,
+      });
+    });
+  });
 });
\ No newline at end of file
@@ -0,0 +1,90 @@
+// file: tests/relation/manager.test.ts
+// description: Tests for relationship checks through subject sets and relation rewrite rules
+
+import { RelationManager } from '../../src/relation/manager';
+import { InMemoryDatabaseConnector } from '../../src/db/memory/connector';
+import { RelationRuleMap, RelationTuple } from '../../src/types';
+
+describe('RelationManager', () => {
+  const rules: RelationRuleMap = {
+    document: {
+      viewer: { union: ['editor'], parent: 'parent' },
+      editor: { union: ['owner'], parent: 'parent' },
+    },
+    folder: {
+      viewer: { union: ['editor'], parent: 'parent' },
+      editor: { union: ['owner'], parent: 'parent' },
+    },
+  };
+
+  const tuples: RelationTuple[] = [
+    { object: 'team:eng', relation: 'member', subject: 'user:alice' },
+    { object: 'folder:specs', relation: 'owner', subject: 'team:eng#member' },
+    { object: 'folder:specs', relation: 'parent', subject: 'folder:root' },
+    { object: 'folder:root', relation: 'viewer', subject: 'user:carol' },
+    { object: 'document:readme', relation: 'parent', subject: 'folder:specs' },
+    { object: 'document:readme', relation: 'viewer', subject: 'user:bob' },
+  ];
+
+  let connector: InMemoryDatabaseConnector;
+  let relationManager: RelationManager;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    connector = new InMemoryDatabaseConnector();
+
+    for (const tuple of tuples) {
+      await connector.writeRelationTuple(tuple);
+    }
+
+    relationManager = new RelationManager(rules, connector);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should grant relations held directly', async () => {
+    await expect(relationManager.check('document:readme', 'viewer', 'user:bob')).resolves.toBe(true);
+    await expect(relationManager.check('document:readme', 'editor', 'user:bob')).resolves.toBe(false);
+  });
+
+  test('should follow subject sets, unions and parents', async () => {
+    // alice is a member of the team that owns the folder containing the document
+    await expect(relationManager.check('document:readme', 'editor', 'user:alice')).resolves.toBe(true);
+    await expect(relationManager.check('document:readme', 'viewer', 'user:alice')).resolves.toBe(true);
+
+    // carol can view everything below the root folder, but not edit it
+    await expect(relationManager.check('document:readme', 'viewer', 'user:carol')).resolves.toBe(true);
+    await expect(relationManager.check('document:readme', 'editor', 'user:carol')).resolves.toBe(false);
+  });
+
+  test('should stop at cycles between objects', async () => {
+    await connector.writeRelationTuple({ object: 'folder:root', relation: 'parent', subject: 'folder:specs' });
+
+    await expect(relationManager.check('folder:root', 'editor', 'user:dave')).resolves.toBe(false);
+    await expect(relationManager.check('folder:root', 'editor', 'user:alice')).resolves.toBe(true);
+  });
+
+  test('should rerun an evaluation until its lookups are resolved', async () => {
+    const evaluate = jest.fn(lookup => [
+      lookup('document:readme', 'editor', 'user:alice'),
+      lookup('document:readme', 'editor', 'user:bob'),
+    ]);
+
+    await expect(relationManager.resolve(evaluate)).resolves.toEqual([true, false]);
+    expect(evaluate).toHaveBeenCalledTimes(2);
+
+    // Evaluations without lookups run once
+    const plain = jest.fn(() => 'allowed');
+    await expect(relationManager.resolve(plain)).resolves.toBe('allowed');
+    expect(plain).toHaveBeenCalledTimes(1);
+  });
+
+  test('should require a connector storing relation tuples', async () => {
+    const manager = new RelationManager(rules, {} as any);
+
+    await expect(manager.check('document:readme', 'viewer', 'user:bob'))
+      .rejects.toThrow('The configured database does not support relation tuples');
+  });
+});
@@ -0,0 +1,44 @@
+// file: tests/relation/tuple.test.ts
+// description: Tests for relation tuple parsing, validation and filtering
+
+import {
+  matchesTupleQuery,
+  parseObject,
+  parseSubject,
+  toUserSubject,
+  validateRelationTuple
+} from '../../src/relation/tuple';
+
+describe('Relation Tuples', () => {
+  test('should parse objects and subjects', () => {
+    expect(parseObject('document:readme')).toEqual({ type: 'document', id: 'readme' });
+    expect(parseObject('document:specs/v2:draft')).toEqual({ type: 'document', id: 'specs/v2:draft' });
+    expect(parseObject('readme')).toBeNull();
+    expect(parseObject(':readme')).toBeNull();
+    expect(parseObject('document:')).toBeNull();
+
+    expect(parseSubject('user:alice')).toEqual({ object: 'user:alice' });
+    expect(parseSubject('team:eng#member')).toEqual({ object: 'team:eng', relation: 'member' });
+    expect(parseSubject('team:eng#')).toBeNull();
+    expect(parseSubject('team:eng#member#owner')).toBeNull();
+    expect(toUserSubject('alice')).toBe('user:alice');
+  });
+
+  test('should reject malformed tuples', () => {
+    expect(() => validateRelationTuple({ object: 'folder:specs', relation: 'owner', subject: 'team:eng#member' })).not.toThrow();
+    expect(() => validateRelationTuple({ object: 'specs', relation: 'owner', subject: 'user:alice' }))
+      .toThrow('Invalid relation object: specs');
+    expect(() => validateRelationTuple({ object: 'folder:specs', relation: 'owner#x', subject: 'user:alice' }))
+      .toThrow('Invalid relation name: owner#x');
+    expect(() => validateRelationTuple({ object: 'folder:specs', relation: 'owner', subject: 'alice' }))
+      .toThrow('Invalid relation subject: alice');
+  });
+
+  test('should match tuples against partial queries', () => {
+    const tuple = { object: 'folder:specs', relation: 'owner', subject: 'team:eng#member' };
+
+    expect(matchesTupleQuery(tuple, {})).toBe(true);
+    expect(matchesTupleQuery(tuple, { object: 'folder:specs', relation: 'owner' })).toBe(true);
+    expect(matchesTupleQuery(tuple, { subject: 'user:alice' })).toBe(false);
+  });
+});
@@ -0,0 +1,89 @@
+// file: tests/role/assignment.test.ts
+// description: Tests for role assignment scope and validity checks
+
+import {
+  createAssignment,
+  findNextRoleChange,
+  isAssignmentActive,
+  isAssignmentExpired,
+  resolveActiveRoles,
+  toAssignmentTimestamp,
+  upsertAssignment,
+  withAssignment
+} from '../../src/role/assignment';
+import { RoleAssignment, UserAccessMap } from '../../src/types';
+
+describe('Role Assignments', () => {
+  const now = new Date('2030-01-05T00:00:00Z');
+
+  const record: UserAccessMap = {
+    id: 'record-1',
+    userId: 'user123',
+    roleIds: ['role_user'],
+    roleAssignments: [
+      { roleId: 'role_responder', validUntil: '2030-01-06T00:00:00.000Z' },
+      { roleId: 'role_auditor', validFrom: '2030-01-10T00:00:00.000Z' },
+      { roleId: 'role_contractor', validUntil: '2030-01-01T00:00:00.000Z' },
+      { roleId: 'role_editor', scope: 'tenant-a', validFrom: '2030-01-01T00:00:00.000Z', validUntil: '2030-01-07T00:00:00.000Z' },
+    ],
+    attributes: {},
+  };
+
+  test('should check whether an assignment is active or expired', () => {
+    expect(isAssignmentActive({}, now)).toBe(true);
+    expect(isAssignmentActive({ validFrom: '2030-01-05T00:00:00.000Z' }, now)).toBe(true);
+    expect(isAssignmentActive({ validUntil: '2030-01-05T00:00:00.000Z' }, now)).toBe(false);
+    expect(isAssignmentActive({ validFrom: '2030-01-06T00:00:00.000Z' }, now)).toBe(false);
+
+    expect(isAssignmentExpired({ validUntil: '2030-01-05T00:00:00.000Z' }, now)).toBe(true);
+    expect(isAssignmentExpired({ validFrom: '2030-01-06T00:00:00.000Z' }, now)).toBe(false);
+  });
+
+  test('should resolve the active roles applying in a scope', () => {
+    expect(resolveActiveRoles(record, undefined, now)).toEqual(['role_user', 'role_responder']);
+    expect(resolveActiveRoles(record, 'tenant-a', now)).toEqual(['role_user', 'role_responder', 'role_editor']);
+    expect(resolveActiveRoles(record, 'tenant-b', new Date('2030-01-11T00:00:00Z'))).toEqual(['role_user', 'role_auditor']);
+    expect(resolveActiveRoles(null, 'tenant-a', now)).toEqual([]);
+  });
+
+  test('should find the next start or expiry of an assignment', () => {
+    const assignments = record.roleAssignments!;
+
+    expect(findNextRoleChange(assignments, undefined, now)).toEqual(new Date('2030-01-06T00:00:00Z'));
+    expect(findNextRoleChange(assignments, 'tenant-a', new Date('2030-01-06T12:00:00Z'))).toEqual(new Date('2030-01-07T00:00:00Z'));
+    expect(findNextRoleChange(assignments, undefined, new Date('2030-01-10T00:00:00Z'))).toBeNull();
+  });
+
+  test('should replace an assignment of the same role and scope', () => {
+    const assignments: RoleAssignment[] = [
+      { roleId: 'role_editor', scope: 'tenant-a', validUntil: '2030-01-07T00:00:00.000Z' },
+      { roleId: 'role_editor', scope: 'tenant-b' },
+    ];
+
+    expect(upsertAssignment(assignments, createAssignment('role_editor', 'tenant-a'))).toEqual([
+      { roleId: 'role_editor', scope: 'tenant-b' },
+      { roleId: 'role_editor', scope: 'tenant-a' },
+    ]);
+    expect(createAssignment('role_responder', undefined, { validUntil: '2030-01-06T00:00:00.000Z' }))
+      .toEqual({ roleId: 'role_responder', validUntil: '2030-01-06T00:00:00.000Z' });
+  });
+
+  test('should normalize assignment dates', () => {
+    expect(toAssignmentTimestamp('2030-01-05')).toBe('2030-01-05T00:00:00.000Z');
+    expect(toAssignmentTimestamp(undefined)).toBeUndefined();
+    expect(() => toAssignmentTimestamp('soon')).toThrow('Invalid role assignment date: soon');
+  });
+
+  test('should replace a permanent role when assigning it for a limited time', () => {
+    const permanent: UserAccessMap = { id: 'record-2', userId: 'user456', roleIds: ['role_editor'], attributes: {} };
+    const validity = { validUntil: '2030-01-01T00:00:00.000Z' };
+
+    expect(withAssignment(permanent, 'role_editor', undefined, validity)).toEqual({
+      ...permanent,
+      roleIds: [],
+      roleAssignments: [{ roleId: 'role_editor', validUntil: '2030-01-01T00:00:00.000Z' }],
+    });
+    expect(withAssignment(permanent, 'role_editor', 'tenant-a', validity).roleIds).toEqual(['role_editor']);
+    expect(resolveActiveRoles(withAssignment(permanent, 'role_editor', undefined, validity), undefined, now)).toEqual([]);
+  });
+});
\ No newline at end of file
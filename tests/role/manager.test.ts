@@ -102,6 +102,147 @@ describe('RoleManager', () => {
     const roleManager = new RoleManager(rolesWithOwnership);
     
     // User has permission to update their own posts
-    expect(roleManager.hasPermission(['role_user'], 'posts', 'update')).toBe(true);
+    expect(roleManager.hasPermission(['role_user'], 'posts', 'update', true)).toBe(true);
+    
+    // ...but not anyone else's
+    expect(roleManager.hasPermission(['role_user'], 'posts', 'update')).toBe(false);
+    expect(roleManager.hasPermission(['role_user'], 'posts', 'update', false)).toBe(false);
+    
+    // The ownership-scoped match is still reported so callers can verify ownership
+    expect(roleManager.findPermissionMatch(['role_user'], 'posts', 'update')).toEqual({
+      roleId: 'role_user',
+      permission: 'posts:update:own',
+      matchType: 'own',
+    });
+  });
+
+  test('should prefer unscoped permissions over ownership-scoped ones', () => {
+    const rolesWithOwnership: RoleMap = {
+      author: {
+        id: 'role_author',
+        permissions: ['posts:update:own'] as Permission[],
+      },
+      editor: {
+        id: 'role_editor',
+        permissions: ['posts:update'] as Permission[],
+      },
+    };
+    
+    const roleManager = new RoleManager(rolesWithOwnership);
+    
+    // An editor may update any post, owned or not
+    expect(roleManager.hasPermission(['role_author', 'role_editor'], 'posts', 'update')).toBe(true);
+    expect(roleManager.findPermissionMatch(['role_author', 'role_editor'], 'posts', 'update')?.matchType)
+      .toBe('exact');
+  });
+
+  test('should report which permission matched', () => {
+    const roleManager = new RoleManager(roles);
+
+    expect(roleManager.findPermissionMatch(['role_user', 'role_editor'], 'posts', 'write')).toEqual({
+      roleId: 'role_editor',
+      permission: 'posts:write',
+      matchType: 'exact',
+    });
+    expect(roleManager.findPermissionMatch(['role_admin'], 'users', 'delete')).toEqual({
+      roleId: 'role_admin',
+      permission: '*:*',
+      matchType: 'wildcard',
+    });
+    expect(roleManager.findPermissionMatch(['role_user'], 'users', 'delete')).toBeNull();
+  });
+
+  describe('Role Inheritance', () => {
+    const hierarchy: RoleMap = {
+      admin: {
+        id: 'role_admin',
+        permissions: ['users:manage'] as Permission[],
+        inherits: ['role_editor'],
+      },
+      editor: {
+        id: 'role_editor',
+        permissions: ['posts:write', 'posts:delete:own'] as Permission[],
+        inherits: ['role_user'],
+      },
+      user: {
+        id: 'role_user',
+        permissions: ['posts:read'] as Permission[],
+      },
+      reviewer: {
+        id: 'role_reviewer',
+        permissions: [] as Permission[],
+        inherits: ['role_user', 'role_editor'],
+      },
+    };
+
+    test('should expand roles transitively', () => {
+      const roleManager = new RoleManager(hierarchy);
+      
+      expect(roleManager.getEffectiveRoles(['role_admin'])).toEqual(['role_admin', 'role_editor', 'role_user']);
+      expect(roleManager.getEffectiveRoles(['role_user'])).toEqual(['role_user']);
+      
+      // Shared ancestors are listed once
+      expect(roleManager.getEffectiveRoles(['role_reviewer', 'role_admin']))
+        .toEqual(['role_reviewer', 'role_admin', 'role_user', 'role_editor']);
+    });
+
+    test('should include inherited permissions', () => {
+      const roleManager = new RoleManager(hierarchy);
+      
+      expect(roleManager.getPermissionsForRoles(['role_admin']))
+        .toEqual(new Set(['users:manage', 'posts:write', 'posts:delete:own', 'posts:read']));
+      expect(roleManager.getPermissionsForRoles(['role_reviewer']))
+        .toEqual(new Set(['posts:read', 'posts:write', 'posts:delete:own']));
+    });
+
+    test('should grant inherited permissions and report the role holding them', () => {
+      const roleManager = new RoleManager(hierarchy);
+      
+      expect(roleManager.hasPermission(['role_admin'], 'posts', 'read')).toBe(true);
+      expect(roleManager.hasPermission(['role_user'], 'posts', 'write')).toBe(false);
+      expect(roleManager.findPermissionMatch(['role_admin'], 'posts', 'read')).toEqual({
+        roleId: 'role_user',
+        permission: 'posts:read',
+        matchType: 'exact',
+      });
+    });
+
+    test('should not loop on cyclic inheritance', () => {
+      const roleManager = new RoleManager({
+        a: { id: 'role_a', permissions: ['posts:read'] as Permission[], inherits: ['role_b'] },
+        b: { id: 'role_b', permissions: ['posts:write'] as Permission[], inherits: ['role_a'] },
+      });
+      
+      expect(roleManager.getEffectiveRoles(['role_a'])).toEqual(['role_a', 'role_b']);
+    });
+  });
+
+  test('should match hierarchical and glob permissions', () => {
+    const roleManager = new RoleManager({
+      member: {
+        id: 'role_member',
+        permissions: ['projects/123/documents/*:read', 'reports.finance.*:export:own'] as Permission[],
+      },
+      auditor: {
+        id: 'role_auditor',
+        permissions: ['reports.**:*'] as Permission[],
+      },
+    });
+    
+    expect(roleManager.hasPermission(['role_member'], 'projects/123/documents/42', 'read')).toBe(true);
+    expect(roleManager.hasPermission(['role_member'], 'projects/456/documents/42', 'read')).toBe(false);
+    expect(roleManager.hasPermission(['role_member'], 'projects/123/documents/42', 'write')).toBe(false);
+    expect(roleManager.hasPermission(['role_member'], 'reports.finance.q1', 'export')).toBe(false);
+    expect(roleManager.hasPermission(['role_member'], 'reports.finance.q1', 'export', true)).toBe(true);
+    
+    expect(roleManager.findPermissionMatch(['role_member'], 'projects/123/documents/42', 'read')).toEqual({
+      roleId: 'role_member',
+      permission: 'projects/123/documents/*:read',
+      matchType: 'pattern',
+    });
+    
+    // Unscoped patterns take precedence over ownership-scoped ones
+    expect(roleManager.findPermissionMatch(['role_member', 'role_auditor'], 'reports.finance.q1', 'export'))
+      .toEqual({ roleId: 'role_auditor', permission: 'reports.**:*', matchType: 'pattern' });
   });
 });
\ No newline at end of file
@@ -0,0 +1,59 @@
+// file: tests/role/pattern.test.ts
+// description: Tests for resource and action pattern matching
+
+import { matchesPattern, isValidPattern, parsePermission } from '../../src/role/pattern';
+
+describe('Resource Patterns', () => {
+  test('should match exact values and the bare wildcard', () => {
+    expect(matchesPattern('posts', 'posts')).toBe(true);
+    expect(matchesPattern('posts', 'comments')).toBe(false);
+    expect(matchesPattern('*', 'projects/123/documents/42')).toBe(true);
+  });
+
+  test('should match a single segment with *', () => {
+    expect(matchesPattern('projects/123/documents/*', 'projects/123/documents/42')).toBe(true);
+    expect(matchesPattern('projects/123/documents/*', 'projects/123/documents/42/comments')).toBe(false);
+    expect(matchesPattern('projects/*/documents/*', 'projects/456/documents/42')).toBe(true);
+    expect(matchesPattern('reports.finance.*', 'reports.finance.q1')).toBe(true);
+    expect(matchesPattern('reports.finance.*', 'reports.finance')).toBe(false);
+    expect(matchesPattern('reports.finance.*', 'reports.hr.q1')).toBe(false);
+    expect(matchesPattern('draft-*', 'draft-42')).toBe(true);
+    expect(matchesPattern('draft-*', 'drafts')).toBe(false);
+  });
+
+  test('should match any number of segments with **', () => {
+    expect(matchesPattern('reports.**', 'reports.finance.q1')).toBe(true);
+    expect(matchesPattern('projects/**/comments', 'projects/comments')).toBe(true);
+    expect(matchesPattern('projects/**/comments', 'projects/123/documents/42/comments')).toBe(true);
+    expect(matchesPattern('projects/**/comments', 'projects/123/attachments')).toBe(false);
+  });
+
+  test('should treat separators literally', () => {
+    expect(matchesPattern('reports.finance', 'reportsXfinance')).toBe(false);
+    expect(matchesPattern('reports.*', 'reports/finance')).toBe(false);
+  });
+
+  test('should validate patterns', () => {
+    expect(isValidPattern('projects/*/documents/**')).toBe(true);
+    expect(isValidPattern('reports.finance.*')).toBe(true);
+    expect(isValidPattern('projects//documents')).toBe(false);
+    expect(isValidPattern('reports.***')).toBe(false);
+    expect(isValidPattern('reports finance')).toBe(false);
+  });
+
+  test('should parse permissions', () => {
+    expect(parsePermission('projects/*/documents:read')).toEqual({
+      resource: 'projects/*/documents',
+      action: 'read',
+      own: false,
+    });
+    expect(parsePermission('reports.finance.*:export:own')).toEqual({
+      resource: 'reports.finance.*',
+      action: 'export',
+      own: true,
+    });
+    expect(parsePermission('posts')).toBeNull();
+    expect(parsePermission('posts:read:mine')).toBeNull();
+    expect(parsePermission('posts:read:own:extra')).toBeNull();
+  });
+});
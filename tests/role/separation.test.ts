@@ -0,0 +1,136 @@
+// file: tests/role/separation.test.ts
+// description: Tests for separation-of-duties checks
+
+import { findUserSoDViolations, SoDViolationError } from '../../src/role/separation';
+import { RoleManager } from '../../src/role/manager';
+import { RoleMap, SoDConstraint, UserAccessMap } from '../../src/types';
+
+describe('Separation of Duties', () => {
+  const roles: RoleMap = {
+    initiator: { id: 'role_payments_initiator', permissions: ['payments:create'] },
+    approver: { id: 'role_payments_approver', permissions: ['payments:approve'] },
+    auditor: { id: 'role_auditor', permissions: ['payments:read'] },
+    controller: { id: 'role_controller', permissions: [], inherits: ['role_payments_approver'] },
+  };
+  const roleManager = new RoleManager(roles);
+  const now = new Date('2030-01-05T00:00:00Z');
+
+  const staticConstraint: SoDConstraint = {
+    id: 'sod_payments',
+    type: 'static',
+    roles: ['role_payments_initiator', 'role_payments_approver'],
+  };
+  const dynamicConstraint: SoDConstraint = {
+    id: 'sod_review',
+    type: 'dynamic',
+    roles: ['role_payments_approver', 'role_auditor'],
+  };
+
+  const user = (record: Partial<UserAccessMap>): UserAccessMap => ({
+    id: 'record-1',
+    userId: 'user123',
+    roleIds: [],
+    attributes: {},
+    ...record,
+  });
+
+  test('should report static violations across scopes and inherited roles', () => {
+    const record = user({
+      roleIds: ['role_payments_initiator'],
+      roleAssignments: [{ roleId: 'role_controller', scope: 'tenant-a' }],
+    });
+
+    expect(findUserSoDViolations(record, [staticConstraint], roleManager, now)).toEqual([
+      {
+        constraintId: 'sod_payments',
+        type: 'static',
+        userId: 'user123',
+        roleIds: ['role_payments_initiator', 'role_payments_approver'],
+      },
+    ]);
+  });
+
+  test('should ignore expired assignments', () => {
+    const record = user({
+      roleIds: ['role_payments_initiator'],
+      roleAssignments: [{ roleId: 'role_payments_approver', validUntil: '2030-01-01T00:00:00.000Z' }],
+    });
+
+    expect(findUserSoDViolations(record, [staticConstraint], roleManager, now)).toEqual([]);
+  });
+
+  test('should only report dynamic violations for roles applying together', () => {
+    // Held in different scopes, and one grant only starts after the other ended
+    const separate = user({
+      roleAssignments: [
+        { roleId: 'role_payments_approver', scope: 'tenant-a' },
+        { roleId: 'role_auditor', scope: 'tenant-b' },
+        { roleId: 'role_auditor', scope: 'tenant-c', validUntil: '2030-01-06T00:00:00.000Z' },
+        { roleId: 'role_payments_approver', scope: 'tenant-c', validFrom: '2030-01-06T00:00:00.000Z' },
+      ],
+    });
+
+    expect(findUserSoDViolations(separate, [dynamicConstraint], roleManager, now)).toEqual([]);
+
+    // An unscoped role applies together with the roles of every scope
+    const together = user({
+      roleIds: ['role_auditor'],
+      roleAssignments: [
+        { roleId: 'role_payments_approver', scope: 'tenant-a', validFrom: '2030-02-01T00:00:00.000Z' },
+      ],
+    });
+
+    expect(findUserSoDViolations(together, [dynamicConstraint], roleManager, now)).toEqual([
+      {
+        constraintId: 'sod_review',
+        type: 'dynamic',
+        userId: 'user123',
+        roleIds: ['role_payments_approver', 'role_auditor'],
+        scope: 'tenant-a',
+      },
+    ]);
+  });
+
+  test('should report a dynamic violation among unscoped roles once', () => {
+    const record = user({
+      roleIds: ['role_auditor', 'role_payments_approver'],
+      roleAssignments: [{ roleId: 'role_payments_initiator', scope: 'tenant-a' }],
+    });
+
+    expect(findUserSoDViolations(record, [dynamicConstraint], roleManager, now)).toEqual([
+      expect.not.objectContaining({ scope: expect.anything() }),
+    ]);
+  });
+
+  test('should allow up to maxRoles of the constrained roles', () => {
+    const constraint: SoDConstraint = {
+      id: 'sod_finance',
+      type: 'static',
+      roles: ['role_payments_initiator', 'role_payments_approver', 'role_auditor'],
+      maxRoles: 2,
+    };
+
+    expect(findUserSoDViolations(user({ roleIds: ['role_payments_initiator', 'role_auditor'] }), [constraint], roleManager, now))
+      .toEqual([]);
+    expect(findUserSoDViolations(user({ roleIds: ['role_payments_initiator', 'role_controller', 'role_auditor'] }), [constraint], roleManager, now))
+      .toHaveLength(1);
+  });
+
+  test('should describe the violation in the error', () => {
+    const error = new SoDViolationError({
+      constraintId: 'sod_review',
+      type: 'dynamic',
+      userId: 'user123',
+      roleIds: ['role_payments_approver', 'role_auditor'],
+      scope: 'tenant-a',
+    });
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe('SoDViolationError');
+    expect(error.violation.constraintId).toBe('sod_review');
+    expect(error.message).toBe(
+      'User user123 cannot hold roles role_payments_approver, role_auditor together: ' +
+      'separation-of-duties constraint "sod_review" in scope tenant-a'
+    );
+  });
+});